@@ -7,6 +7,15 @@ import { analyzeCommand } from './commands/analyze';
 import { fixCommand } from './commands/fix';
 import { commitCommand } from './commands/commit';
 import { statusCommand } from './commands/status';
+import { checkpointCommand } from './commands/checkpoint';
+import { undoCommand } from './commands/undo';
+import { logCommand } from './commands/log';
+import { learnedCommand } from './commands/learned';
+import { mergeDriverCommand, mergetoolCommand, installDriverCommand } from './commands/merge-driver';
+import { continueCommand, abortCommand } from './commands/operation';
+import { rebaseCommand } from './commands/rebase';
+import { preflightCommand } from './commands/preflight';
+import { graphCommand } from './commands/graph';
 
 const program = new Command();
 
@@ -57,6 +66,18 @@ program.addCommand(analyzeCommand);
 program.addCommand(fixCommand);
 program.addCommand(commitCommand);
 program.addCommand(statusCommand);
+program.addCommand(checkpointCommand);
+program.addCommand(undoCommand);
+program.addCommand(logCommand);
+program.addCommand(learnedCommand);
+program.addCommand(mergeDriverCommand);
+program.addCommand(mergetoolCommand);
+program.addCommand(installDriverCommand);
+program.addCommand(continueCommand);
+program.addCommand(abortCommand);
+program.addCommand(rebaseCommand);
+program.addCommand(preflightCommand);
+program.addCommand(graphCommand);
 
 // Special handling for no arguments - show welcome
 if (process.argv.length === 2) {
@@ -176,6 +176,20 @@ function getTypeDescription(type: ConflictType): string {
       return 'Code structure changes';
     case ConflictType.SEMANTIC:
       return 'Logic/behavior differences';
+    case ConflictType.DELETED_BY_US:
+      return 'Deleted on current branch, modified on incoming';
+    case ConflictType.DELETED_BY_THEM:
+      return 'Modified on current branch, deleted on incoming';
+    case ConflictType.RENAME_RENAME:
+      return 'Renamed differently on both branches';
+    case ConflictType.RENAME_DELETE:
+      return 'Renamed on one branch, deleted on the other';
+    case ConflictType.ADD_ADD:
+      return 'Added on both branches';
+    case ConflictType.BINARY:
+      return 'Binary file changed on both branches';
+    case ConflictType.LOCKFILE:
+      return 'Generated lockfile (regenerate)';
     case ConflictType.CONTENT:
     default:
       return 'Content changes';
@@ -0,0 +1,109 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+
+import { CheckpointManager, type Checkpoint } from '../git';
+
+export const checkpointCommand = new Command('checkpoint')
+  .alias('cp')
+  .description('Save and restore snapshots of the working tree, index and merge state');
+
+checkpointCommand
+  .command('create [label]')
+  .description('Take a checkpoint without moving HEAD')
+  .action(async (label?: string) => {
+    try {
+      const checkpoint = await new CheckpointManager().create(label);
+      console.log(`${chalk.green('✓')} Checkpoint ${chalk.cyan(checkpoint.id)} created`);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+checkpointCommand
+  .command('list')
+  .alias('ls')
+  .description('List checkpoints, newest first')
+  .action(async () => {
+    try {
+      const checkpoints = await new CheckpointManager().list();
+
+      if (checkpoints.length === 0) {
+        console.log(chalk.yellow('No checkpoints yet.'));
+        return;
+      }
+
+      checkpoints.forEach(checkpoint => console.log(formatCheckpoint(checkpoint)));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+checkpointCommand
+  .command('restore <id>')
+  .description('Restore the working tree, index and merge state of a checkpoint')
+  .option('-f, --force', 'Move HEAD back if commits were made since the checkpoint')
+  .action(async (id: string, options) => {
+    await restoreCheckpoint(id, Boolean(options.force));
+  });
+
+checkpointCommand
+  .command('prune')
+  .description('Delete old checkpoints')
+  .option('-k, --keep <count>', 'Number of newest checkpoints to keep', '5')
+  .action(async (options) => {
+    try {
+      const keep = Number.parseInt(options.keep, 10);
+      if (Number.isNaN(keep) || keep < 0) {
+        throw new Error(`--keep expects a non-negative number, got ${options.keep}`);
+      }
+
+      const pruned = await new CheckpointManager().prune(keep);
+      console.log(
+        pruned.length === 0
+          ? chalk.yellow('Nothing to prune.')
+          : `${chalk.green('✓')} Deleted ${pruned.length} checkpoint(s)`
+      );
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Restores a checkpoint and explains how to get back to the state it replaced
+ */
+export async function restoreCheckpoint(id: string, force: boolean): Promise<void> {
+  const spinner = ora('Restoring checkpoint...').start();
+
+  try {
+    const manager = new CheckpointManager();
+    const checkpoint = await manager.find(id);
+    const previous = await manager.restore(checkpoint, { force });
+
+    spinner.succeed(`Restored checkpoint ${chalk.cyan(checkpoint.id)} (${checkpoint.label})`);
+
+    if (checkpoint.conflictedFiles.length > 0) {
+      console.log(`  ${chalk.yellow(`${checkpoint.conflictedFiles.length} conflicted file(s)`)} are back in the index`);
+    }
+    console.log(
+      chalk.dim(`  The state before the restore was saved as ${previous.id}; run smugit checkpoint restore ${previous.id} to return to it.`)
+    );
+  } catch (error) {
+    spinner.fail('Restore failed');
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function formatCheckpoint(checkpoint: Checkpoint): string {
+  const when = chalk.dim(checkpoint.createdAt.toLocaleString());
+  const where = chalk.dim(`${checkpoint.branch ?? 'detached'}@${checkpoint.head?.slice(0, 7) ?? 'unborn'}`);
+  const conflicts =
+    checkpoint.conflictedFiles.length > 0 ? chalk.yellow(` ${checkpoint.conflictedFiles.length} conflicted`) : '';
+  const kind = checkpoint.kind === 'manual' ? '' : chalk.dim(` [${checkpoint.kind}]`);
+
+  return `${chalk.cyan(checkpoint.id)}  ${checkpoint.label}${kind}${conflicts}\n    ${when}  ${where}`;
+}
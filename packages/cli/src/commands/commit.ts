@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
-import { GitAnalyzer } from '../git';
+import { GitAnalyzer, ResolutionMemory, describeOperation } from '../git';
 import { isValidConventionalCommit } from '@smugit/shared';
 
 export const commitCommand = new Command('commit')
@@ -19,6 +19,21 @@ export const commitCommand = new Command('commit')
       const analyzer = new GitAnalyzer();
       const repo = await analyzer.analyzeRepository();
 
+      // Conflicts resolved by hand are about to be committed; remember how
+      const learned = await new ResolutionMemory().learnFromEdits();
+      if (learned.length > 0) {
+        spinner.info(`Learned ${learned.length} conflict resolution(s) for next time`);
+        spinner.start('Analyzing changes...');
+      }
+
+      // Rebases, cherry-picks and reverts write their own commits when they continue
+      const operation = repo.operation;
+      if (operation && ['rebase', 'cherry-pick', 'revert'].includes(operation.type)) {
+        spinner.warn(describeOperation(operation));
+        console.log(chalk.yellow(`💡 Stage your resolutions and run ${chalk.cyan('smugit continue')} instead of committing`));
+        return;
+      }
+
       // Check if there are any changes to commit
       const hasStaged = repo.status.staged.length > 0;
       const hasModified = repo.status.modified.length > 0;
@@ -5,10 +5,30 @@ import inquirer from 'inquirer';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
-import { GitAnalyzer, ConflictResolver } from '../git';
+import { BinaryFileInfo, ConflictType, GitConflict, isTreeConflict } from '@smugit/shared';
+
+import {
+  GitAnalyzer,
+  ConflictEditor,
+  ConflictResolver,
+  ResolutionMemory,
+  checkResolvedContent,
+  describeOperation,
+  describeSides,
+  hasConflictMarkers,
+  renderConflictBlock,
+  renderResolvedContent,
+  formatBytes,
+  type Checkpoint,
+  type SideLabels,
+  type TreeConflictAction,
+} from '../git';
+import { MergeView, Terminal } from '../tui';
 
 type FallbackStrategy = 'incoming' | 'current' | 'both' | 'none';
 type InteractiveChoice = 'current' | 'incoming' | 'skip';
+type EditorChoice = 'editor' | 'editor-panes' | 'mergetool';
+type HunkChoice = 'current' | 'incoming' | 'both-current' | 'both-incoming' | 'base' | 'edit' | 'plugins';
 
 const DEFAULT_DIVIDER_WIDTH = 68;
 const SECTION_LINE_CHAR = '\u2500';
@@ -20,8 +40,9 @@ export const fixCommand = new Command('fix')
   .description('Fix merge conflicts automatically or interactively')
   .option('-a, --auto', 'Automatically fix resolvable conflicts')
   .option('-i, --interactive', 'Interactively review and fix conflicts')
+  .option('-t, --tui', 'Review conflicts in the full-screen three-way merge view (implies --interactive)')
   .option('-d, --dry-run', 'Show what would be fixed without making changes')
-  .option('--no-checkpoint', 'Skip creating checkpoint branch')
+  .option('--no-checkpoint', 'Skip the checkpoint taken before changing files')
   .addOption(
     new Option('--fallback <strategy>', 'Fallback strategy when auto resolution fails')
       .choices(['incoming', 'current', 'both', 'none'])
@@ -31,69 +52,113 @@ export const fixCommand = new Command('fix')
     new Option('--accept <choice>', 'Auto-select a resolution when using --interactive')
       .choices(['current', 'incoming', 'skip'])
   )
-  .action(async (options) => {
-    const spinner = ora('Analyzing conflicts...').start();
+  .action(fixConflicts);
+
+export interface FixOptions {
+  auto?: boolean;
+  interactive?: boolean;
+  tui?: boolean;
+  dryRun?: boolean;
+  checkpoint?: boolean;
+  fallback?: FallbackStrategy;
+  accept?: InteractiveChoice;
+}
 
-    try {
-      const analyzer = new GitAnalyzer();
-      const resolver = new ConflictResolver();
+/**
+ * Runs `smugit fix`; `smugit continue` calls it too when the next rebase step conflicts
+ */
+export async function fixConflicts(options: FixOptions): Promise<void> {
+  const spinner = ora('Analyzing conflicts...').start();
 
-      const conflicts = await analyzer.analyzeConflicts();
+  try {
+    const analyzer = new GitAnalyzer();
+    const resolver = new ConflictResolver();
+    const memory = new ResolutionMemory();
 
-      if (conflicts.length === 0) {
-        spinner.succeed('No conflicts found');
-        console.log(chalk.green('✅ Repository is clean - no conflicts to fix!'));
-        return;
-      }
+    // Pick up blocks fixed by hand since the last run before looking for replays
+    const learned = await memory.learnFromEdits();
+    const conflicts = await analyzer.analyzeConflicts();
 
-      spinner.succeed(`Found ${conflicts.length} conflict(s)`);
+    if (learned.length > 0) {
+      spinner.info(`Learned ${learned.length} resolution(s) from files you resolved by hand`);
+      spinner.start('Analyzing conflicts...');
+    }
 
-      const autoResolvable = conflicts.filter(conflict => conflict.autoResolvable);
-      const manualReview = conflicts.filter(conflict => !conflict.autoResolvable);
+    if (conflicts.length === 0) {
+      spinner.succeed('No conflicts found');
+      console.log(chalk.green('✅ Repository is clean - no conflicts to fix!'));
+      return;
+    }
 
-      console.log('');
-      console.log(chalk.bold('Resolution plan'));
-      console.log(sectionDivider());
-      console.log(`${chalk.green('Auto-resolvable:')} ${autoResolvable.length}`);
-      console.log(`${chalk.yellow('Manual review:')} ${manualReview.length}`);
-
-      let checkpointBranch: string | undefined;
-      if (options.checkpoint !== false && !options.dryRun) {
-        spinner.start('Creating checkpoint branch...');
-        checkpointBranch = await resolver.createCheckpoint();
-        spinner.succeed(`Checkpoint created: ${chalk.cyan(checkpointBranch)}`);
-      }
+    spinner.succeed(`Found ${conflicts.length} conflict(s)`);
 
-      if (options.auto || (!options.interactive && autoResolvable.length > 0)) {
-        const fallback = (options.fallback ?? 'incoming') as FallbackStrategy;
-        const conflictsForAuto = options.auto ? conflicts : autoResolvable;
-        await handleAutoResolution(resolver, conflictsForAuto, Boolean(options.dryRun), fallback);
-      }
+    const autoResolvable = conflicts.filter(conflict => conflict.autoResolvable);
+    const manualReview = conflicts.filter(conflict => !conflict.autoResolvable);
+    const operation = await analyzer.getOperation();
 
-      if (options.interactive && manualReview.length > 0) {
-        await handleInteractiveResolution(
-          manualReview,
-          Boolean(options.dryRun),
-          options.accept as InteractiveChoice | undefined
-        );
+    console.log('');
+    console.log(chalk.bold('Resolution plan'));
+    console.log(sectionDivider());
+    if (operation) {
+      console.log(chalk.cyan(describeOperation(operation)));
+      if (operation.type === 'rebase') {
+        console.log(chalk.dim('During a rebase "current" is the upstream and "incoming" is your own commit.'));
       }
+    }
+    console.log(`${chalk.green('Auto-resolvable:')} ${autoResolvable.length}`);
+    console.log(`${chalk.yellow('Manual review:')} ${manualReview.length}`);
+
+    let checkpoint: Checkpoint | undefined;
+    if (options.checkpoint !== false && !options.dryRun) {
+      spinner.start('Creating checkpoint...');
+      checkpoint = await resolver.createCheckpoint();
+      spinner.succeed(`Checkpoint created: ${chalk.cyan(checkpoint.id)}`);
+    }
 
-      if (!options.dryRun && (autoResolvable.length > 0 || manualReview.length > 0)) {
-        console.log('');
-        console.log(chalk.bold('Next steps'));
-        console.log(sectionDivider());
-        if (checkpointBranch) {
-          console.log(`Checkpoint branch: ${chalk.cyan(checkpointBranch)}`);
-        }
-        console.log(`Run ${chalk.cyan('git status')} to review changes`);
+    const interactive = Boolean(options.interactive || options.tui);
+
+    if (options.auto || (!interactive && autoResolvable.length > 0)) {
+      const fallback = (options.fallback ?? 'incoming') as FallbackStrategy;
+      const conflictsForAuto = options.auto ? conflicts : autoResolvable;
+      await handleAutoResolution(resolver, conflictsForAuto, Boolean(options.dryRun), fallback);
+    }
+
+    if (interactive && manualReview.length > 0) {
+      await handleInteractiveResolution(
+        resolver,
+        manualReview,
+        Boolean(options.dryRun),
+        describeSides(operation),
+        options.accept as InteractiveChoice | undefined,
+        Boolean(options.tui)
+      );
+    }
+
+    if (!options.dryRun) {
+      // Whatever is still conflicted gets resolved by hand; remember it so it can be learned
+      await memory.track(await analyzer.analyzeConflicts());
+    }
+
+    if (!options.dryRun && (autoResolvable.length > 0 || manualReview.length > 0)) {
+      console.log('');
+      console.log(chalk.bold('Next steps'));
+      console.log(sectionDivider());
+      if (checkpoint) {
+        console.log(`Run ${chalk.cyan('smugit undo')} to return to checkpoint ${chalk.cyan(checkpoint.id)}`);
+      }
+      console.log(`Run ${chalk.cyan('git status')} to review changes`);
+      if (operation) {
+        console.log(`Run ${chalk.cyan('smugit continue')} once every conflict is resolved`);
+      } else {
         console.log(`Run ${chalk.cyan('smugit commit')} to create a merge commit`);
       }
-    } catch (error) {
-      spinner.fail('Fix operation failed');
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
     }
-  });
+  } catch (error) {
+    spinner.fail('Fix operation failed');
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
 
 async function handleAutoResolution(
   resolver: ConflictResolver,
@@ -111,7 +176,8 @@ async function handleAutoResolution(
   try {
     const result = await resolver.autoResolveConflicts(conflicts, dryRun, fallback);
 
-    if (result.success && result.resolvedFiles.length > 0) {
+    // A run that leaves some files for review still fully merged the others
+    if (result.resolvedFiles.length > 0) {
       spinner.succeed(`${dryRun ? 'Would resolve' : 'Resolved'} ${result.resolvedFiles.length} conflict(s)`);
 
       console.log('');
@@ -133,24 +199,43 @@ async function handleAutoResolution(
           console.log(`  ${chalk.green('✓')} ${file}`);
         }
       });
+    } else if (result.partiallyResolved.length > 0) {
+      spinner.warn(`${dryRun ? 'Would partly resolve' : 'Partly resolved'} ${result.partiallyResolved.length} conflict(s)`);
+    } else {
+      spinner.fail('No conflict could be resolved automatically');
+    }
 
-      if (result.notes.length > 0) {
-        console.log('');
-        console.log(chalk.bold.blue('Notes'));
-        result.notes.forEach(message => console.log(`  ${chalk.blue('•')} ${message}`));
-      }
+    const partialFiles = result.partiallyResolved.map(entry => entry.file);
+    const notes = result.notes.filter(note => !partialFiles.some(file => note.startsWith(`${file}: `)));
 
-      if (result.warnings.length > 0) {
-        console.log('');
-        console.log(chalk.bold.yellow('Warnings'));
-        result.warnings.forEach(message => console.log(`  ${chalk.yellow('•')} ${message}`));
-      }
+    if (notes.length > 0) {
+      console.log('');
+      console.log(chalk.bold.blue('Notes'));
+      notes.forEach(message => console.log(`  ${chalk.blue('•')} ${message}`));
+    }
 
-      if (!dryRun) {
-        spinner.start('Staging resolved files...');
-        await resolver.stageResolvedFiles(result.resolvedFiles);
-        spinner.succeed('Files staged for commit');
-      }
+    if (result.warnings.length > 0) {
+      console.log('');
+      console.log(chalk.bold.yellow('Warnings'));
+      result.warnings.forEach(message => console.log(`  ${chalk.yellow('•')} ${message}`));
+    }
+
+    if (!dryRun && result.resolvedFiles.length > 0) {
+      spinner.start('Staging resolved files...');
+      await resolver.stageResolvedFiles(result.resolvedFiles);
+      spinner.succeed('Files staged for commit');
+    }
+
+    if (result.partiallyResolved.length > 0) {
+      console.log('');
+      console.log(chalk.bold.yellow('Partially resolved'));
+      result.partiallyResolved.forEach(entry => {
+        const counts = chalk.dim(`${entry.resolvedHunks}/${entry.totalHunks} block(s) merged, the rest keep their markers`);
+        console.log(`  ${chalk.yellow('~')} ${entry.file} ${counts}`);
+        result.notes
+          .filter(note => note.startsWith(`${entry.file}: `))
+          .forEach(note => console.log(`    ${chalk.dim('•')} ${note.slice(entry.file.length + 2)}`));
+      });
     }
 
     if (result.failedFiles.length > 0) {
@@ -171,13 +256,19 @@ async function handleAutoResolution(
 }
 
 async function handleInteractiveResolution(
+  resolver: ConflictResolver,
   conflicts: any[],
   dryRun: boolean,
-  preselected?: InteractiveChoice
+  sides: SideLabels,
+  preselected?: InteractiveChoice,
+  mergeView = false
 ) {
   const resolvedCurrent: string[] = [];
   const resolvedIncoming: string[] = [];
+  const resolvedOther: string[] = [];
+  const resolvedEdited: string[] = [];
   const skippedFiles: string[] = [];
+  const mergeTool = await new ConflictEditor().getMergeTool();
 
   console.log('');
   console.log(chalk.bold.yellow('Interactive conflict resolution'));
@@ -192,6 +283,34 @@ async function handleInteractiveResolution(
       console.log(chalk.dim(conflict.explanation));
     }
 
+    if (isTreeConflict(conflict.type)) {
+      const action = await handleTreeConflict(resolver, conflict, dryRun, preselected);
+      if (action === 'keep-current') {
+        resolvedCurrent.push(conflict.file);
+      } else if (action === 'keep-incoming') {
+        resolvedIncoming.push(conflict.file);
+      } else if (action) {
+        resolvedOther.push(conflict.file);
+      } else {
+        skippedFiles.push(conflict.file);
+      }
+      console.log(sectionDivider());
+      continue;
+    }
+
+    if (conflict.type === ConflictType.BINARY) {
+      const side = await handleBinaryConflict(resolver, conflict, dryRun, sides, preselected);
+      if (side === 'current') {
+        resolvedCurrent.push(conflict.file);
+      } else if (side === 'incoming') {
+        resolvedIncoming.push(conflict.file);
+      } else {
+        skippedFiles.push(conflict.file);
+      }
+      console.log(sectionDivider());
+      continue;
+    }
+
     console.log('');
     console.log(chalk.bold('Preview'));
     if (conflict.hunks.length > 0) {
@@ -218,28 +337,69 @@ async function handleInteractiveResolution(
       }
     };
 
+    const edit = async (choice: EditorChoice) => {
+      if (await resolveInEditor(resolver, conflict, choice, dryRun, mergeTool)) {
+        resolvedEdited.push(conflict.file);
+      } else {
+        skippedFiles.push(conflict.file);
+      }
+    };
+
+    const review = async () => {
+      if (await resolveHunkByHunk(resolver, conflict, dryRun, sides)) {
+        resolvedEdited.push(conflict.file);
+      } else {
+        skippedFiles.push(conflict.file);
+      }
+    };
+
+    const openMergeView = async () => {
+      if (await resolveInMergeView(resolver, conflict, dryRun, sides)) {
+        resolvedEdited.push(conflict.file);
+      } else {
+        skippedFiles.push(conflict.file);
+      }
+    };
+
     if (preselected) {
       await record(preselected);
       console.log(sectionDivider());
       continue;
     }
 
+    const canOpenMergeView = conflict.hunks.length > 0 && Terminal.isInteractive();
+    if (mergeView && canOpenMergeView) {
+      await openMergeView();
+      console.log(sectionDivider());
+      continue;
+    }
+
     const action = await inquirer.prompt([
       {
         type: 'list',
         name: 'resolution',
         message: chalk.bold('Resolution choice'),
         choices: [
+          ...(conflict.hunks.length > 0 ? [{ name: 'Go through the blocks one by one', value: 'hunks' }] : []),
+          ...(canOpenMergeView ? [{ name: 'Open the three-way merge view', value: 'tui' }] : []),
           { name: 'Show detailed diff first', value: 'diff' },
-          { name: 'Accept current version (HEAD)', value: 'current' },
-          { name: 'Accept incoming version (merge branch)', value: 'incoming' },
+          { name: `Accept current version (${sides.current})`, value: 'current' },
+          { name: `Accept incoming version (${sides.incoming})`, value: 'incoming' },
           { name: 'Skip for now', value: 'skip' },
-          { name: 'Open in editor', value: 'editor' },
+          ...editorChoices(conflict, mergeTool),
         ],
       },
     ]);
 
-    switch (action.resolution as InteractiveChoice | 'diff' | 'editor') {
+    switch (action.resolution as InteractiveChoice | EditorChoice | 'diff' | 'hunks' | 'tui') {
+      case 'hunks':
+        await review();
+        break;
+
+      case 'tui':
+        await openMergeView();
+        break;
+
       case 'skip':
         await record('skip');
         break;
@@ -253,27 +413,29 @@ async function handleInteractiveResolution(
         break;
 
       case 'editor':
-        console.log(chalk.blue('Opening in default editor...'));
+      case 'editor-panes':
+      case 'mergetool':
+        await edit(action.resolution);
         break;
 
       case 'diff': {
-        await displayDetailedDiff(conflict);
+        await displayDetailedDiff(conflict, sides);
         const followUp = await inquirer.prompt([
           {
             type: 'list',
             name: 'resolution',
             message: chalk.bold('Resolution choice'),
             choices: [
-              { name: 'Accept current version (HEAD)', value: 'current' },
-              { name: 'Accept incoming version (merge branch)', value: 'incoming' },
+              { name: `Accept current version (${sides.current})`, value: 'current' },
+              { name: `Accept incoming version (${sides.incoming})`, value: 'incoming' },
               { name: 'Skip for now', value: 'skip' },
-              { name: 'Open in editor', value: 'editor' },
+              ...editorChoices(conflict, mergeTool),
             ],
           },
         ]);
 
-        if (followUp.resolution === 'editor') {
-          console.log(chalk.blue('Opening in default editor...'));
+        if (['editor', 'editor-panes', 'mergetool'].includes(followUp.resolution)) {
+          await edit(followUp.resolution);
         } else {
           await record(followUp.resolution as InteractiveChoice);
         }
@@ -292,15 +454,460 @@ async function handleInteractiveResolution(
   if (resolvedIncoming.length > 0) {
     console.log(`${chalk.green('  ✓ Incoming accepted:')} ${resolvedIncoming.join(', ')}`);
   }
+  if (resolvedOther.length > 0) {
+    console.log(`${chalk.green('  ✓ Deleted or moved:')} ${resolvedOther.join(', ')}`);
+  }
+  if (resolvedEdited.length > 0) {
+    console.log(`${chalk.green('  ✓ Resolved by hand:')} ${resolvedEdited.join(', ')}`);
+  }
   if (skippedFiles.length > 0) {
     console.log(`${chalk.yellow('  • Skipped for later:')} ${skippedFiles.join(', ')}`);
   }
-  if (resolvedCurrent.length === 0 && resolvedIncoming.length === 0 && skippedFiles.length === 0) {
+  if (
+    resolvedCurrent.length === 0 &&
+    resolvedIncoming.length === 0 &&
+    resolvedOther.length === 0 &&
+    resolvedEdited.length === 0 &&
+    skippedFiles.length === 0
+  ) {
     console.log(chalk.dim('  No actions taken yet.'));
   }
   console.log('');
 }
 
+/**
+ * Walks through the blocks of a file one at a time, then writes the file once.
+ * Blocks left undecided keep their markers. Returns whether the file was staged.
+ */
+async function resolveHunkByHunk(
+  resolver: ConflictResolver,
+  conflict: GitConflict,
+  dryRun: boolean,
+  sides: SideLabels
+): Promise<boolean> {
+  const hunks = conflict.hunks;
+  const decisions: (string | undefined)[] = hunks.map(() => undefined);
+  const strategies: (string | undefined)[] = hunks.map(() => undefined);
+  const editor = new ConflictEditor();
+  let index = 0;
+
+  for (;;) {
+    const hunk = hunks[index];
+
+    console.log('');
+    console.log(chalk.bold(`Block ${index + 1} of ${hunks.length}`) + chalk.dim(` • lines ${hunk.startLine}-${hunk.endLine}`));
+    if (hunk.explanation) {
+      console.log(chalk.dim(hunk.explanation));
+    }
+    renderSideBySide(hunk.currentContent.split('\n'), hunk.incomingContent.split('\n'), {
+      leftLabel: `Current (${sides.current})`,
+      rightLabel: `Incoming (${sides.incoming})`,
+    });
+    if (hunk.hasBase) {
+      console.log(chalk.dim('Base:'));
+      (hunk.baseContent ? hunk.baseContent.split('\n') : ['(empty)']).forEach(line => console.log(chalk.dim(`  │ ${line}`)));
+    }
+    if (decisions[index] !== undefined) {
+      console.log(chalk.cyan(`Decided: ${strategies[index]}`));
+      (decisions[index] || '(empty)').split('\n').forEach(line => console.log(chalk.cyan(`  │ ${line}`)));
+    }
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'choice',
+        message: chalk.bold('Keep'),
+        pageSize: 14,
+        choices: [
+          { name: 'Current', value: 'current' },
+          { name: 'Incoming', value: 'incoming' },
+          { name: 'Both, current first', value: 'both-current' },
+          { name: 'Both, incoming first', value: 'both-incoming' },
+          { name: 'Base', value: 'base', disabled: hunk.hasBase ? false : 'no base version' },
+          { name: 'Edit this block by hand', value: 'edit' },
+          { name: 'Ask the plugins', value: 'plugins' },
+          new inquirer.Separator(),
+          { name: 'Previous block', value: 'previous', disabled: index === 0 },
+          { name: 'Next block (decide later)', value: 'next', disabled: index === hunks.length - 1 },
+          { name: 'Finish and write the file', value: 'finish' },
+          { name: 'Cancel without writing', value: 'cancel' },
+        ],
+      },
+    ]);
+
+    if (choice === 'cancel') {
+      console.log(chalk.yellow('⏭️  Skipped, nothing written'));
+      return false;
+    }
+    if (choice === 'previous' || choice === 'next') {
+      index += choice === 'previous' ? -1 : 1;
+      continue;
+    }
+    if (choice === 'finish') {
+      break;
+    }
+
+    const decision = await decideHunk(resolver, editor, conflict, index, choice as HunkChoice, decisions[index]);
+    if (!decision) {
+      continue;
+    }
+
+    decisions[index] = decision.content;
+    strategies[index] = decision.strategy;
+
+    const next = decisions.findIndex((value, position) => value === undefined && position > index);
+    const firstOpen = decisions.findIndex(value => value === undefined);
+    if (firstOpen === -1) {
+      break;
+    }
+    index = next === -1 ? firstOpen : next;
+  }
+
+  return writeHunkDecisions(resolver, conflict, decisions, strategies, dryRun);
+}
+
+/**
+ * Resolves a file in the full-screen merge view, then writes it like the
+ * block-by-block review does
+ */
+async function resolveInMergeView(
+  resolver: ConflictResolver,
+  conflict: GitConflict,
+  dryRun: boolean,
+  sides: SideLabels
+): Promise<boolean> {
+  const view = new MergeView(conflict, {
+    sides,
+    suggest: hunkIndex => resolver.suggestHunkResolution(conflict, hunkIndex),
+  });
+  const result = await view.run();
+
+  if (!result) {
+    console.log(chalk.yellow('⏭️  Closed the merge view, nothing written'));
+    return false;
+  }
+
+  return writeHunkDecisions(resolver, conflict, result.decisions, result.strategies, dryRun);
+}
+
+/**
+ * Writes a file once with the decided blocks filled in; undecided blocks keep
+ * their markers. Returns whether the file was staged.
+ */
+async function writeHunkDecisions(
+  resolver: ConflictResolver,
+  conflict: GitConflict,
+  decisions: (string | undefined)[],
+  strategies: (string | undefined)[],
+  dryRun: boolean
+): Promise<boolean> {
+  const hunks = conflict.hunks;
+  const decided = decisions.filter(decision => decision !== undefined).length;
+  if (decided === 0) {
+    console.log(chalk.yellow('⏭️  No block decided, nothing written'));
+    return false;
+  }
+
+  const fullPath = path.join(process.cwd(), conflict.file);
+  const content = await renderResolvedContent(
+    conflict,
+    filePath => fs.readFile(path.join(process.cwd(), filePath), 'utf-8'),
+    position => decisions[position]
+  );
+  const complete = decided === hunks.length;
+  const problem = complete ? checkResolvedContent(conflict.file, content, conflict.versions) : undefined;
+
+  if (dryRun) {
+    console.log(chalk.green(`Would write ${conflict.file} with ${decided} of ${hunks.length} block(s) decided`));
+    return false;
+  }
+
+  await fs.writeFile(fullPath, content, 'utf-8');
+  await resolver.recordResolution(conflict, { strategy: strategies, replacements: decisions });
+
+  if (!complete) {
+    console.log(chalk.yellow(`Wrote ${conflict.file}; ${hunks.length - decided} block(s) keep their markers`));
+    return false;
+  }
+  if (problem) {
+    console.log(chalk.yellow(`Wrote ${conflict.file} but left it unstaged: ${problem}`));
+    return false;
+  }
+
+  await resolver.stageResolvedFiles([conflict.file]);
+  console.log(chalk.green(`✅ Resolved ${conflict.file} block by block`));
+  return true;
+}
+
+async function decideHunk(
+  resolver: ConflictResolver,
+  editor: ConflictEditor,
+  conflict: GitConflict,
+  index: number,
+  choice: HunkChoice,
+  previous?: string
+): Promise<{ content: string; strategy: string } | undefined> {
+  const hunk = conflict.hunks[index];
+  const joinBlocks = (first: string, second: string) => [first, second].filter(block => block !== '').join('\n');
+
+  switch (choice) {
+    case 'current':
+      return { content: hunk.currentContent, strategy: 'manual:current' };
+    case 'incoming':
+      return { content: hunk.incomingContent, strategy: 'manual:incoming' };
+    case 'both-current':
+      return { content: joinBlocks(hunk.currentContent, hunk.incomingContent), strategy: 'manual:both-current' };
+    case 'both-incoming':
+      return { content: joinBlocks(hunk.incomingContent, hunk.currentContent), strategy: 'manual:both-incoming' };
+    case 'base':
+      return { content: hunk.baseContent, strategy: 'manual:base' };
+
+    case 'edit': {
+      const edited = await editor.editText(previous ?? renderConflictBlock(hunk).join('\n'), conflict.file);
+      if (hasConflictMarkers(edited)) {
+        console.log(chalk.yellow('The edited block still has conflict markers; leaving it undecided'));
+        return undefined;
+      }
+      return { content: edited, strategy: 'manual:edit' };
+    }
+
+    case 'plugins': {
+      const suggestion = await resolver.suggestHunkResolution(conflict, index);
+      if (!suggestion) {
+        console.log(chalk.yellow('No plugin could resolve this block'));
+        return undefined;
+      }
+
+      console.log(chalk.cyan(`${suggestion.plugin} suggests:`));
+      (suggestion.content || '(empty)').split('\n').forEach(line => console.log(chalk.cyan(`  │ ${line}`)));
+      suggestion.notes.forEach(note => console.log(`  ${chalk.dim('•')} ${note}`));
+
+      const { accept } = await inquirer.prompt([
+        { type: 'confirm', name: 'accept', message: 'Use this for the block?', default: true },
+      ]);
+      return accept ? { content: suggestion.content, strategy: suggestion.plugin } : undefined;
+    }
+  }
+}
+
+function editorChoices(conflict: GitConflict, mergeTool?: string) {
+  return [
+    { name: 'Open in editor', value: 'editor' },
+    ...(conflict.versions
+      ? [{ name: 'Open in editor with current, base and incoming alongside', value: 'editor-panes' }]
+      : []),
+    ...(mergeTool ? [{ name: `Open in ${mergeTool} (git mergetool)`, value: 'mergetool' }] : []),
+  ];
+}
+
+/**
+ * Lets the user resolve a file by hand, then stages it once the analyzer finds
+ * no markers left and it still parses
+ */
+async function resolveInEditor(
+  resolver: ConflictResolver,
+  conflict: GitConflict,
+  choice: EditorChoice,
+  dryRun: boolean,
+  mergeTool?: string
+): Promise<boolean> {
+  if (dryRun) {
+    console.log(chalk.blue(`Would open ${conflict.file} in ${choice === 'mergetool' ? mergeTool : 'the editor'}`));
+    return false;
+  }
+
+  const editor = new ConflictEditor();
+  const analyzer = new GitAnalyzer();
+  const fullPath = path.join(process.cwd(), conflict.file);
+
+  for (;;) {
+    if (choice === 'mergetool' && mergeTool) {
+      console.log(chalk.blue(`Opening ${conflict.file} in ${mergeTool}...`));
+      await editor.runMergeTool(mergeTool, conflict.file);
+    } else {
+      console.log(chalk.blue(`Opening ${conflict.file} in ${await editor.getEditor()}...`));
+      if (choice === 'editor-panes' && conflict.versions) {
+        await editor.editWithVersions(conflict.file, conflict.versions);
+      } else {
+        await editor.edit(conflict.file);
+      }
+    }
+
+    const remaining = await analyzer.findRemainingHunks(conflict.file);
+    const content = await fs.readFile(fullPath, 'utf-8');
+    const problem =
+      remaining.length > 0
+        ? `${remaining.length} conflict block(s) are still marked`
+        : checkResolvedContent(conflict.file, content, conflict.versions);
+
+    if (problem) {
+      console.log(chalk.yellow(`${conflict.file}: ${problem}`));
+
+      const { next } = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'next',
+          message: chalk.bold('What next?'),
+          choices: [
+            { name: 'Open it again', value: 'again' },
+            ...(remaining.length === 0 ? [{ name: 'Stage it anyway', value: 'stage' }] : []),
+            { name: 'Leave it for later', value: 'skip' },
+          ],
+        },
+      ]);
+
+      if (next === 'again') {
+        continue;
+      }
+      if (next === 'skip') {
+        console.log(chalk.yellow('⏭️  Skipped'));
+        return false;
+      }
+    }
+
+    await resolver.stageResolvedFiles([conflict.file]);
+    await resolver.recordResolution(conflict, {
+      strategy: choice === 'mergetool' ? `manual:${mergeTool}` : 'manual:editor',
+      content,
+    });
+    console.log(chalk.green(`✅ Resolved ${conflict.file} by hand`));
+    return true;
+  }
+}
+
+async function handleTreeConflict(
+  resolver: ConflictResolver,
+  conflict: GitConflict,
+  dryRun: boolean,
+  preselected?: InteractiveChoice
+): Promise<TreeConflictAction | undefined> {
+  const actions = resolver.getTreeConflictActions(conflict);
+  const paths = conflict.paths ?? {};
+
+  const describeAction = (action: TreeConflictAction): string => {
+    switch (action) {
+      case 'keep-current':
+        return `Keep current version (${paths.current ?? conflict.file})`;
+      case 'keep-incoming':
+        return `Keep incoming version (${paths.incoming ?? conflict.file})`;
+      case 'delete':
+        return `Delete ${conflict.file}`;
+      case 'apply-to-renamed':
+        return `Apply the edits to renamed file ${
+          conflict.type === ConflictType.DELETED_BY_THEM ? paths.incoming : paths.current
+        }`;
+    }
+  };
+
+  let action: TreeConflictAction | 'skip';
+
+  if (preselected) {
+    const preferred = preselected === 'current' ? 'keep-current' : 'keep-incoming';
+    action = preselected !== 'skip' && actions.includes(preferred) ? preferred : 'skip';
+  } else {
+    const answer = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'resolution',
+        message: chalk.bold('Resolution choice'),
+        choices: [
+          ...actions.map(value => ({ name: describeAction(value), value })),
+          { name: 'Skip for now', value: 'skip' },
+        ],
+      },
+    ]);
+    action = answer.resolution;
+  }
+
+  if (action === 'skip') {
+    console.log(chalk.yellow('⏭️  Skipped'));
+    return undefined;
+  }
+
+  if (dryRun) {
+    console.log(chalk.green(`Would ${describeAction(action).toLowerCase()}`));
+    return action;
+  }
+
+  try {
+    const outcome = await resolver.resolveTreeConflict(conflict, action);
+    outcome.notes.forEach(note =>
+      console.log(outcome.clean ? chalk.green(`✅ ${note}`) : chalk.yellow(`⚠️  ${note}`))
+    );
+    return action;
+  } catch (error) {
+    console.error(chalk.red(`Failed to resolve ${conflict.file}:`), error);
+    return undefined;
+  }
+}
+
+async function handleBinaryConflict(
+  resolver: ConflictResolver,
+  conflict: GitConflict,
+  dryRun: boolean,
+  sides: SideLabels,
+  preselected?: InteractiveChoice
+): Promise<'current' | 'incoming' | undefined> {
+  const describeSide = (info?: BinaryFileInfo): string => {
+    if (!info) {
+      return chalk.dim('(missing)');
+    }
+
+    const parts = [formatBytes(info.size)];
+    if (info.dimensions) {
+      parts.push(`${info.dimensions.width}×${info.dimensions.height}`);
+    }
+    if (info.lastAuthor) {
+      parts.push(`${info.lastAuthor}, ${info.lastChanged} (${info.lastCommit})`);
+    }
+    return parts.join(chalk.dim(' • '));
+  };
+
+  console.log('');
+  console.log(chalk.bold('Versions'));
+  console.log(`${chalk.red('  Current ->')} ${describeSide(conflict.binary?.current)}`);
+  console.log(`${chalk.green('  Incoming ->')} ${describeSide(conflict.binary?.incoming)}`);
+
+  let choice: InteractiveChoice;
+
+  if (preselected) {
+    choice = preselected;
+  } else {
+    const answer = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'resolution',
+        message: chalk.bold('Resolution choice'),
+        choices: [
+          { name: `Keep current version (${sides.current})`, value: 'current', disabled: !conflict.binary?.current },
+          { name: `Keep incoming version (${sides.incoming})`, value: 'incoming', disabled: !conflict.binary?.incoming },
+          { name: 'Skip for now', value: 'skip' },
+        ],
+      },
+    ]);
+    choice = answer.resolution;
+  }
+
+  if (choice === 'skip' || !conflict.binary?.[choice]) {
+    console.log(chalk.yellow('⏭️  Skipped'));
+    return undefined;
+  }
+
+  if (dryRun) {
+    console.log(chalk.green(`Would keep ${choice} version`));
+    return choice;
+  }
+
+  try {
+    await resolver.resolveWithSide(conflict, choice);
+    console.log(chalk.green(`✅ Kept ${choice} version of ${conflict.file}`));
+    return choice;
+  } catch (error) {
+    console.error(chalk.red(`Failed to resolve ${conflict.file}:`), error);
+    return undefined;
+  }
+}
+
 async function applyResolutionChoice(
   conflict: any,
   choice: InteractiveChoice,
@@ -331,7 +938,7 @@ async function applyResolutionChoice(
   }
 }
 
-async function displayDetailedDiff(conflict: any) {
+async function displayDetailedDiff(conflict: any, sides: SideLabels) {
   console.log('');
   console.log(chalk.bold('Conflict Details'));
   console.log(sectionDivider());
@@ -341,8 +948,8 @@ async function displayDetailedDiff(conflict: any) {
     const incomingLines = (hunk.incomingContent || '').split('\n');
 
     renderSideBySide(currentLines, incomingLines, {
-      leftLabel: 'Current (HEAD)',
-      rightLabel: 'Incoming (merge)',
+      leftLabel: `Current (${sides.current})`,
+      rightLabel: `Incoming (${sides.incoming})`,
     });
   }
 }
@@ -361,8 +968,8 @@ function renderSideBySide(
   console.log(chalk.gray('═'.repeat(columnWidth + 1) + '╤' + '═'.repeat(columnWidth + 1)));
 
   // Headers
-  const leftHeaderText = ` ${labels.leftLabel}`;
-  const rightHeaderText = ` ${labels.rightLabel}`;
+  const leftHeaderText = ` ${labels.leftLabel}`.slice(0, columnWidth);
+  const rightHeaderText = ` ${labels.rightLabel}`.slice(0, columnWidth);
   const leftHeaderPadded = leftHeaderText + ' '.repeat(columnWidth - leftHeaderText.length);
   const rightHeaderPadded = rightHeaderText + ' '.repeat(columnWidth - rightHeaderText.length);
 
@@ -428,30 +1035,17 @@ async function resolveWithVersion(conflict: any, version: 'current' | 'incoming'
     const fullPath = path.join(process.cwd(), conflict.file);
     const original = await fs.readFile(fullPath, 'utf-8');
 
-    let resolvedContent = original;
-
-    for (const hunk of conflict.hunks) {
-      const replacement = version === 'current' ? hunk.currentContent : hunk.incomingContent;
-      const lines = resolvedContent.split('\n');
-      const newLines: string[] = [];
-      let inConflict = false;
-
-      for (const line of lines) {
-        if (line.startsWith('<<<<<<<')) {
-          newLines.push(replacement);
-          inConflict = true;
-        } else if (line.startsWith('>>>>>>>')) {
-          inConflict = false;
-        } else if (!inConflict) {
-          newLines.push(line);
-        }
-      }
-
-      resolvedContent = newLines.join('\n');
-    }
+    const resolvedContent = await renderResolvedContent(conflict, async () => original, index => {
+      const hunk = conflict.hunks[index];
+      return version === 'current' ? hunk.currentContent : hunk.incomingContent;
+    });
 
     await fs.writeFile(fullPath, resolvedContent, 'utf-8');
     await resolver.stageResolvedFiles([conflict.file]);
+    await resolver.recordResolution(conflict, {
+      strategy: `manual:${version}`,
+      replacements: conflict.hunks.map((hunk: any) => (version === 'current' ? hunk.currentContent : hunk.incomingContent)),
+    });
 
     console.log(chalk.green(`✅ Resolved ${conflict.file} with ${version} version`));
   } catch (error) {
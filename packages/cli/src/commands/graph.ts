@@ -0,0 +1,83 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+
+import { BranchTopology, type CommitGraph, type GraphSide } from '../git';
+
+const DEFAULT_LIMIT = 20;
+
+const SIDE_MARKS: Record<GraphSide, string> = {
+  ahead: chalk.green('↑'),
+  behind: chalk.red('↓'),
+  base: chalk.yellow('◆'),
+  shared: ' ',
+};
+
+const SIDE_COLORS: Record<GraphSide, (text: string) => string> = {
+  ahead: chalk.green,
+  behind: chalk.red,
+  base: chalk.yellow,
+  shared: chalk.dim,
+};
+
+export const graphCommand = new Command('graph')
+  .description('Draw how the current branch relates to its upstream, the default branch and any operation in progress')
+  .option('-n, --max-count <count>', 'Most commits to draw', String(DEFAULT_LIMIT))
+  .option('--json', 'Print the graph as JSON')
+  .action(async (options) => {
+    try {
+      const graph = await new BranchTopology().read({ limit: Number.parseInt(options.maxCount, 10) || DEFAULT_LIMIT });
+
+      if (options.json) {
+        console.log(JSON.stringify(graph, null, 2));
+        return;
+      }
+
+      displayGraph(graph);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+export function displayGraph(graph: CommitGraph) {
+  console.log('');
+  console.log(chalk.bold('🌳 Branch Graph'));
+
+  if (graph.compareTo) {
+    console.log(
+      `  ${chalk.cyan(graph.branch ?? 'HEAD')} vs ${chalk.magenta(graph.compareTo)}: ` +
+        `${chalk.green(`↑ ${graph.ahead} only on your side`)}, ${chalk.red(`↓ ${graph.behind} only on ${graph.compareTo}`)}`
+    );
+  }
+  console.log(chalk.gray('─'.repeat(60)));
+
+  graph.lines.forEach(line => {
+    if (!line.commit) {
+      console.log(`  ${chalk.dim(line.graph)}`);
+      return;
+    }
+
+    const { commit } = line;
+    const color = SIDE_COLORS[commit.side];
+    const labels = commit.labels.length > 0 ? ` ${chalk.bold.cyan(`(${commit.labels.join(', ')})`)}` : '';
+    // Colour git's commit mark by side and leave the branch lines dim
+    const mark = line.graph.indexOf('*');
+    const drawing =
+      mark === -1
+        ? chalk.dim(line.graph)
+        : chalk.dim(line.graph.slice(0, mark)) + color('*') + chalk.dim(line.graph.slice(mark + 1));
+
+    console.log(
+      `${SIDE_MARKS[commit.side]} ${drawing}${chalk.yellow(commit.hash.slice(0, 7))}${labels} ${color(commit.subject)} ${chalk.dim(
+        `(${commit.age})`
+      )}`
+    );
+  });
+
+  if (graph.compareTo && (graph.ahead > 0 || graph.behind > 0)) {
+    console.log('');
+    console.log(
+      chalk.dim(`  ${SIDE_MARKS.ahead} commits ${graph.compareTo} lacks  ${SIDE_MARKS.behind} commits you lack  ${SIDE_MARKS.base} merge base`)
+    );
+  }
+}
@@ -1,4 +1,13 @@
 export { analyzeCommand } from './analyze';
 export { fixCommand } from './fix';
 export { commitCommand } from './commit';
-export { statusCommand } from './status';
\ No newline at end of file
+export { statusCommand } from './status';
+export { checkpointCommand } from './checkpoint';
+export { undoCommand } from './undo';
+export { logCommand } from './log';
+export { learnedCommand } from './learned';
+export { mergeDriverCommand, mergetoolCommand, installDriverCommand } from './merge-driver';
+export { continueCommand, abortCommand } from './operation';
+export { rebaseCommand } from './rebase';
+export { preflightCommand } from './preflight';
+export { graphCommand } from './graph';
\ No newline at end of file
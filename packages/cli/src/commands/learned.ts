@@ -0,0 +1,89 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+
+import { ResolutionMemory, type LearnedResolution } from '../git';
+
+export const learnedCommand = new Command('learned')
+  .alias('rerere')
+  .description('List and forget conflict resolutions smugit replays automatically');
+
+learnedCommand
+  .command('list')
+  .alias('ls')
+  .description('List learned resolutions, newest first')
+  .option('-f, --file <path>', 'Only show resolutions learned from this file')
+  .option('-p, --patch', 'Show both sides and the recorded output')
+  .action(async (options) => {
+    try {
+      const memory = new ResolutionMemory();
+      await memory.learnFromEdits();
+      const entries = (await memory.list()).filter(entry => !options.file || entry.file === options.file);
+
+      if (!(await memory.isEnabled())) {
+        console.log(chalk.yellow('Learned resolutions are disabled (smugit.learned.enabled=false).'));
+      }
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow('No learned resolutions yet.'));
+        return;
+      }
+
+      entries.forEach(entry => displayLearnedResolution(entry, Boolean(options.patch)));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+learnedCommand
+  .command('forget [targets...]')
+  .description('Forget resolutions by fingerprint prefix or by the file they were learned from')
+  .option('-a, --all', 'Forget every learned resolution')
+  .action(async (targets: string[], options) => {
+    try {
+      const memory = new ResolutionMemory();
+
+      if (options.all) {
+        const count = await memory.clear();
+        console.log(`${chalk.green('✓')} Forgot ${count} resolution(s)`);
+        return;
+      }
+
+      if (targets.length === 0) {
+        throw new Error('Pass a fingerprint or file to forget, or --all');
+      }
+
+      let count = 0;
+      for (const target of targets) {
+        const forgotten = await memory.forget(target);
+        if (forgotten.length === 0) {
+          console.log(chalk.yellow(`Nothing learned matches ${target}`));
+        }
+        count += forgotten.length;
+      }
+
+      if (count > 0) {
+        console.log(`${chalk.green('✓')} Forgot ${count} resolution(s)`);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+function displayLearnedResolution(entry: LearnedResolution, patch: boolean) {
+  const when = chalk.dim(new Date(entry.learnedAt).toLocaleString());
+  console.log(`${chalk.cyan(entry.fingerprint.slice(0, 10))}  ${entry.file} ${chalk.magenta(entry.source)}  ${when}`);
+
+  if (patch) {
+    displaySide('current', entry.current, chalk.red);
+    displaySide('incoming', entry.incoming, chalk.green);
+    displaySide('output', entry.output, chalk.cyan);
+  }
+}
+
+function displaySide(label: string, content: string, color: (text: string) => string) {
+  console.log(`    ${color(`${label}:`)}`);
+  const lines = content === '' ? [chalk.dim('(empty)')] : content.split('\n');
+  lines.forEach(line => console.log(`      ${color('│')} ${line}`));
+}
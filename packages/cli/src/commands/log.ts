@@ -0,0 +1,93 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+
+import { ResolutionJournal, type JournalEntry } from '../git';
+
+const DEFAULT_SESSIONS = 5;
+
+export const logCommand = new Command('log')
+  .description('Show what smugit decided for each conflict block, from the resolution journal')
+  .option('-f, --file <path>', 'Only show decisions for this file')
+  .option('-n, --sessions <count>', 'Number of most recent runs to show', String(DEFAULT_SESSIONS))
+  .option('-a, --all', 'Show every recorded run')
+  .option('-p, --patch', 'Show both sides and the chosen output of each block')
+  .option('--json', 'Print the journal entries as JSON')
+  .option('--clear', 'Delete the journal')
+  .action(async (options) => {
+    try {
+      const journal = new ResolutionJournal();
+
+      if (options.clear) {
+        await journal.clear();
+        console.log(chalk.green('✓ Resolution journal cleared'));
+        return;
+      }
+
+      const entries = (await journal.read()).filter(entry => !options.file || entry.file === options.file);
+      const sessions = groupBySession(entries);
+      const count = options.all ? sessions.length : Number.parseInt(options.sessions, 10) || DEFAULT_SESSIONS;
+      const shown = sessions.slice(-count);
+
+      if (options.json) {
+        console.log(JSON.stringify(shown.flat(), null, 2));
+        return;
+      }
+
+      if (shown.length === 0) {
+        console.log(chalk.yellow('No resolutions recorded yet.'));
+        return;
+      }
+
+      shown.forEach(session => displaySession(session, Boolean(options.patch)));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+function groupBySession(entries: JournalEntry[]): JournalEntry[][] {
+  const sessions = new Map<string, JournalEntry[]>();
+
+  for (const entry of entries) {
+    const session = sessions.get(entry.session) ?? [];
+    session.push(entry);
+    sessions.set(entry.session, session);
+  }
+
+  return [...sessions.values()];
+}
+
+function displaySession(entries: JournalEntry[], patch: boolean) {
+  const [first] = entries;
+  const merging = first.mergeHeads?.length ? ` • merging ${first.mergeHeads.map(commit => commit.slice(0, 7)).join(', ')}` : '';
+
+  console.log('');
+  console.log(chalk.bold(`${new Date(first.session).toLocaleString()}`) + chalk.dim(` • HEAD ${first.head?.slice(0, 7) ?? 'unborn'}${merging}`));
+
+  for (const entry of entries) {
+    const block =
+      entry.hunk === undefined
+        ? chalk.dim('whole file')
+        : `block ${entry.hunk + 1}${entry.lines ? chalk.dim(` (lines ${entry.lines.start}-${entry.lines.end})`) : ''}`;
+
+    console.log(`  ${chalk.cyan(entry.file)} ${block} ${chalk.magenta(entry.strategy)}`);
+    entry.notes?.forEach(note => console.log(`    ${chalk.dim('•')} ${note}`));
+
+    if (patch) {
+      displaySide('base', entry.base, chalk.dim);
+      displaySide('current', entry.current, chalk.red);
+      displaySide('incoming', entry.incoming, chalk.green);
+      displaySide('output', entry.output, chalk.cyan);
+    }
+  }
+}
+
+function displaySide(label: string, content: string | undefined, color: (text: string) => string) {
+  if (content === undefined) {
+    return;
+  }
+
+  console.log(`    ${color(`${label}:`)}`);
+  const lines = content === '' ? [chalk.dim('(empty)')] : content.split('\n');
+  lines.forEach(line => console.log(`      ${color('│')} ${line}`));
+}
@@ -0,0 +1,127 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs/promises';
+
+import { ConflictEditor, ConflictResolver, GitAnalyzer, MergeDriver, MERGE_DRIVER_NAME } from '../git';
+
+/**
+ * Called by git for files with `merge=smugit` in .gitattributes. Exits non-zero
+ * only when some blocks are left for manual review.
+ */
+export const mergeDriverCommand = new Command('merge-driver')
+  .description('Merge a file for git through the resolution plugins (used via .gitattributes)')
+  .argument('<base>', 'Common ancestor version (%O)')
+  .argument('<current>', 'Current version, replaced with the result (%A)')
+  .argument('<incoming>', 'Incoming version (%B)')
+  .argument('[path]', 'Path of the file being merged (%P)')
+  .option('-L, --marker-size <size>', 'Conflict marker length (%L)', '7')
+  .action(async (base: string, current: string, incoming: string, filePath: string | undefined, options) => {
+    const files = { base, current, incoming };
+    const target = filePath ?? current;
+    const markerSize = Number.parseInt(options.markerSize, 10) || 7;
+    const driver = new MergeDriver();
+
+    try {
+      const result = await driver.merge(files, target, markerSize);
+
+      if (result.skipped) {
+        console.error(`${chalk.yellow('smugit:')} left ${target} for smugit fix (${result.skipped})`);
+      } else if (result.clean && result.plugins.length > 0) {
+        console.error(`${chalk.green('smugit:')} merged ${target} ${chalk.dim(`via ${result.plugins.join(', ')}`)}`);
+      } else if (!result.clean) {
+        console.error(
+          `${chalk.yellow('smugit:')} ${result.totalHunks - result.resolvedHunks} of ${result.totalHunks} block(s) in ${target} need manual review`
+        );
+      }
+
+      process.exit(result.clean ? 0 : 1);
+    } catch (error) {
+      await driver.mergeWithGit(files, markerSize);
+      console.error(chalk.red(`smugit: could not merge ${target}:`), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Called by `git mergetool --tool=smugit`: runs the plugins, then opens the
+ * editor on whatever they could not resolve. Exits non-zero while markers remain.
+ */
+export const mergetoolCommand = new Command('mergetool')
+  .description('Resolve a file for git mergetool --tool=smugit, opening the editor for what is left')
+  .argument('<base>', 'Common ancestor version ($BASE)')
+  .argument('<local>', 'Current version ($LOCAL)')
+  .argument('<remote>', 'Incoming version ($REMOTE)')
+  .argument('<merged>', 'File to write the result to ($MERGED)')
+  .option('--no-editor', 'Only run the plugins and leave the remaining blocks marked')
+  .action(async (base: string, local: string, remote: string, merged: string, options) => {
+    try {
+      const result = await new MergeDriver().merge({ base, current: local, incoming: remote, output: merged }, merged);
+
+      if (result.clean) {
+        console.log(`${chalk.green('✓')} Merged ${merged}${result.plugins.length ? chalk.dim(` via ${result.plugins.join(', ')}`) : ''}`);
+        process.exit(0);
+      }
+
+      if (result.skipped) {
+        console.log(chalk.yellow(`Left ${merged} for smugit fix (${result.skipped})`));
+        process.exit(1);
+      }
+
+      console.log(
+        chalk.yellow(`${result.totalHunks - result.resolvedHunks} of ${result.totalHunks} block(s) in ${merged} need manual review`)
+      );
+      if (options.editor === false) {
+        process.exit(1);
+      }
+
+      await new ConflictEditor().edit(merged, { current: local, base, incoming: remote });
+
+      const remaining = await new GitAnalyzer().findRemainingHunks(merged);
+      if (remaining.length > 0) {
+        console.log(chalk.yellow(`${remaining.length} conflict block(s) are still marked in ${merged}`));
+        process.exit(1);
+      }
+
+      const [baseContent, currentContent, incomingContent, content] = await Promise.all(
+        [base, local, remote, merged].map(file => fs.readFile(file, 'utf-8'))
+      );
+      const conflict = await new GitAnalyzer().analyzeVersions(merged, {
+        base: baseContent,
+        current: currentContent,
+        incoming: incomingContent,
+      });
+      await new ConflictResolver().recordResolution(conflict, { strategy: 'manual:editor', content });
+
+      process.exit(0);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+export const installDriverCommand = new Command('install-driver')
+  .description(`Register smugit as the "${MERGE_DRIVER_NAME}" merge driver and merge tool in git config`)
+  .argument('[patterns...]', 'Globs to mark with merge=smugit in .gitattributes, e.g. "*.ts"')
+  .option('-g, --global', 'Write to the global git config instead of the repository config')
+  .option('-c, --command <command>', 'How git should run smugit, e.g. "npx smugit"', 'smugit')
+  .action(async (patterns: string[], options) => {
+    try {
+      const added = await new MergeDriver().install({
+        global: Boolean(options.global),
+        command: options.command,
+        patterns,
+      });
+
+      console.log(
+        `${chalk.green('✓')} Registered merge.${MERGE_DRIVER_NAME}.driver and mergetool.${MERGE_DRIVER_NAME}.cmd in the ${options.global ? 'global' : 'repository'} git config`
+      );
+      added.forEach(line => console.log(`  ${chalk.green('+')} .gitattributes: ${line}`));
+
+      if (patterns.length === 0) {
+        console.log(chalk.dim(`  Add "<glob> merge=${MERGE_DRIVER_NAME}" to .gitattributes to route files through it.`));
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,164 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { GitOperation } from '@smugit/shared';
+
+import { CheckpointManager, GitAnalyzer, OperationManager, ResolutionMemory, describeOperation } from '../git';
+import { fixConflicts } from './fix';
+
+export const continueCommand = new Command('continue')
+  .description('Carry on with the merge, rebase, cherry-pick or revert once conflicts are resolved')
+  .option('-m, --message <message>', "Commit message for a merge instead of git's prepared one")
+  .option('--no-fix', 'Stop instead of running smugit fix when the next rebase step conflicts')
+  .action(async (options) => {
+    const spinner = ora('Checking for conflicts...').start();
+
+    try {
+      const analyzer = new GitAnalyzer();
+      const operations = new OperationManager();
+      const memory = new ResolutionMemory();
+      let operation = await operations.detect();
+
+      if (!operation) {
+        spinner.fail('No merge, rebase, cherry-pick or revert in progress');
+        return;
+      }
+
+      for (;;) {
+        // Learn the hand-made resolutions while the conflicts they answer are still recorded
+        await memory.learnFromEdits();
+
+        const conflicts = await analyzer.analyzeConflicts();
+        const markers = await analyzer.findLeftoverMarkers();
+
+        if (conflicts.length > 0 || markers.length > 0) {
+          // They get resolved by hand now; remember them so the next run can learn from it
+          await memory.track(conflicts);
+          spinner.fail(`${describeOperation(operation)} still has conflicts`);
+          conflicts.forEach(conflict => console.log(`  ${chalk.red('✗')} ${conflict.file} ${chalk.dim(`(${conflict.type})`)}`));
+          groupMarkers(markers).forEach((lines, file) =>
+            console.log(`  ${chalk.red('✗')} ${file} ${chalk.dim(`(conflict markers staged on line ${lines.join(', ')})`)}`)
+          );
+          console.log(chalk.yellow(`💡 Run ${chalk.cyan('smugit fix')} to resolve them, then ${chalk.cyan('smugit continue')} again`));
+          process.exitCode = 1;
+          return;
+        }
+
+        spinner.text = `${describeOperation(operation)}...`;
+        // A merge takes -m, else git's prepared message (for a squash, the squashed commits), else a generated one
+        let message: string | undefined;
+        if (operation.type === 'merge') {
+          message = options.message;
+          if (!message && !operation.squash && !(await operations.hasMergeMessage())) {
+            message = await analyzer.generateMergeMessage(operation);
+          }
+        }
+        await operations.continue(operation, message);
+
+        const next = await operations.detect();
+        if (!next) {
+          spinner.succeed(describeFinished(operation));
+          if (message) {
+            console.log(chalk.dim(message));
+          }
+          return;
+        }
+
+        const nextConflicts = await analyzer.analyzeConflicts();
+        if (nextConflicts.length === 0) {
+          // e.g. an `edit` step of an interactive rebase
+          spinner.info(`Stopped: ${describeOperation(next)}`);
+          return;
+        }
+
+        spinner.warn(`${describeOperation(next)} stopped with ${nextConflicts.length} conflict(s)`);
+        if (options.fix === false) {
+          await memory.track(nextConflicts);
+          console.log(chalk.yellow(`💡 Run ${chalk.cyan('smugit fix')}, then ${chalk.cyan('smugit continue')} again`));
+          return;
+        }
+
+        await fixConflicts({ interactive: Boolean(process.stdin.isTTY), checkpoint: true });
+        operation = next;
+        spinner.start('Checking for conflicts...');
+      }
+    } catch (error) {
+      spinner.fail('Could not continue');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+export const abortCommand = new Command('abort')
+  .description('Abandon the merge, rebase, cherry-pick or revert in progress')
+  .option('-y, --yes', 'Do not ask for confirmation')
+  .option('--no-checkpoint', 'Skip the checkpoint taken before aborting')
+  .action(async (options) => {
+    try {
+      const operations = new OperationManager();
+      const operation = await operations.detect();
+
+      if (!operation) {
+        console.log(chalk.yellow('No merge, rebase, cherry-pick or revert in progress'));
+        return;
+      }
+
+      console.log(chalk.bold(describeOperation(operation)));
+
+      if (!options.yes) {
+        const { confirm } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Abort the ${operation.type} and discard the conflict resolutions made so far?`,
+            default: false,
+          },
+        ]);
+
+        if (!confirm) {
+          console.log(chalk.yellow('Nothing aborted'));
+          return;
+        }
+      }
+
+      // The resolutions are lost by the abort, so keep a way back to them
+      const checkpoint =
+        options.checkpoint !== false ? await new CheckpointManager().create(`before aborting the ${operation.type}`, 'auto') : undefined;
+
+      await operations.abort(operation);
+
+      console.log(`${chalk.green('✓')} Aborted the ${operation.type}`);
+      if (checkpoint && operation.type === 'rebase') {
+        // Restoring would not bring the rebase itself back, only the files
+        console.log(chalk.dim(`Checkpoint ${checkpoint.id} keeps a copy of the files as they were`));
+      } else if (checkpoint) {
+        console.log(`Run ${chalk.cyan(`smugit checkpoint restore ${checkpoint.id}`)} to bring the resolutions back`);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+function describeFinished(operation: GitOperation): string {
+  switch (operation.type) {
+    case 'merge':
+      return `${operation.squash ? 'Squashed' : 'Merged'} ${operation.incoming} into ${operation.current}`;
+    default:
+      return `Finished the ${operation.type}`;
+  }
+}
+
+/**
+ * Groups `file:line` reports by file
+ */
+function groupMarkers(markers: string[]): Map<string, string[]> {
+  const files = new Map<string, string[]>();
+  markers.forEach(marker => {
+    const separator = marker.lastIndexOf(':');
+    const file = marker.slice(0, separator);
+    files.set(file, [...(files.get(file) ?? []), marker.slice(separator + 1)]);
+  });
+  return files;
+}
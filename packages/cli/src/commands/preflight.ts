@@ -0,0 +1,73 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConflictComplexity, GitConflict } from '@smugit/shared';
+
+import { MergePreflight } from '../git';
+
+const COMPLEXITY_COLORS = {
+  [ConflictComplexity.TRIVIAL]: chalk.green,
+  [ConflictComplexity.SIMPLE]: chalk.green,
+  [ConflictComplexity.MODERATE]: chalk.yellow,
+  [ConflictComplexity.COMPLEX]: chalk.red,
+};
+
+export const preflightCommand = new Command('preflight')
+  .description('Predict the conflicts of merging <target> into HEAD without touching the working tree')
+  .argument('<target>', 'Branch or commit to merge, e.g. origin/main')
+  .option('--json', 'Print the prediction as JSON')
+  .action(async (target: string, options) => {
+    const spinner = ora(`Merging ${target} in memory...`).start();
+
+    try {
+      const result = await new MergePreflight().run(target);
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify(result, null, 2));
+        return;
+      }
+
+      if (result.clean) {
+        spinner.succeed(`${target} merges cleanly into HEAD`);
+        return;
+      }
+
+      const autoResolvable = new Set(result.autoResolvableFiles);
+      const manual = result.conflicts.filter(conflict => !autoResolvable.has(conflict.file));
+      spinner.warn(`Merging ${target} would conflict in ${result.conflicts.length} file(s)`);
+      displayConflicts(result.conflicts, autoResolvable);
+
+      console.log('');
+      if (manual.length === 0) {
+        console.log(chalk.green(`✨ smugit would resolve every conflict; merge, then run ${chalk.cyan('smugit fix --auto')}`));
+      } else {
+        console.log(
+          chalk.yellow(
+            `💡 ${result.conflicts.length - manual.length} would be resolved automatically, ${manual.length} need(s) your review`
+          )
+        );
+      }
+    } catch (error) {
+      spinner.fail('Preflight failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+function displayConflicts(conflicts: GitConflict[], autoResolvable: Set<string>) {
+  console.log('');
+  console.log(chalk.bold('Predicted conflicts'));
+  console.log(chalk.gray('─'.repeat(60)));
+
+  conflicts.forEach(conflict => {
+    const verdict = autoResolvable.has(conflict.file) ? chalk.green('✓ auto-resolvable') : chalk.red('✗ manual review');
+    const blocks = conflict.hunks.length > 0 ? `, ${conflict.hunks.length} block(s)` : '';
+    console.log(
+      `  ${verdict}  ${chalk.bold(conflict.file)} ${chalk.dim(`(${conflict.type}, `)}${COMPLEXITY_COLORS[conflict.complexity](
+        conflict.complexity
+      )}${chalk.dim(`${blocks})`)}`
+    );
+    console.log(`     ${chalk.dim(conflict.explanation)}`);
+  });
+}
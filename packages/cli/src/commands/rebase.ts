@@ -0,0 +1,266 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { RebaseOperation, RebasePlan, RebaseStepForecast } from '@smugit/shared';
+
+import { MergePreflight, OperationManager, RebasePlanner, describeOperation } from '../git';
+
+type RebaseAction = RebaseOperation['action'];
+
+const ACTIONS: { value: RebaseAction; name: string }[] = [
+  { value: 'pick', name: 'pick - keep the commit' },
+  { value: 'reword', name: 'reword - keep it and edit the message' },
+  { value: 'edit', name: 'edit - stop after it to amend' },
+  { value: 'squash', name: 'squash - fold into the commit before and combine messages' },
+  { value: 'fixup', name: 'fixup - fold into the commit before and drop its message' },
+  { value: 'drop', name: 'drop - leave it out' },
+];
+
+const RISK_COLORS = { low: chalk.green, medium: chalk.yellow, high: chalk.red };
+
+export const rebaseCommand = new Command('rebase').description('Plan and run rebases');
+
+rebaseCommand
+  .command('plan <upstream>')
+  .description('Propose squashes, fixups and drops for the commits since <upstream>, then run the rebase')
+  .option('--json', 'Print the plan as JSON without running it')
+  .option('-d, --dry-run', 'Show the plan without running it')
+  .option('-y, --yes', 'Run the proposed plan without reviewing it')
+  .action(async (upstream: string, options) => {
+    const spinner = ora('Planning rebase...').start();
+
+    try {
+      const planner = new RebasePlanner();
+      const info = await planner.analyze(upstream);
+      let plan = info.plan;
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify(info, null, 2));
+        return;
+      }
+
+      if (plan.operations.length === 0) {
+        spinner.succeed(`Nothing to rebase: HEAD has no commits that ${upstream} lacks`);
+        return;
+      }
+
+      spinner.succeed(`Planned ${plan.operations.length} commit(s) onto ${upstream}`);
+      displayPlan(plan);
+
+      if (options.dryRun) {
+        return;
+      }
+
+      const operation = await new OperationManager().detect();
+      if (operation) {
+        throw new Error(`${describeOperation(operation)} is already in progress`);
+      }
+
+      if (!options.yes) {
+        for (;;) {
+          const { choice } = await inquirer.prompt([
+            {
+              type: 'list',
+              name: 'choice',
+              message: chalk.bold('Run this plan?'),
+              choices: [
+                { name: 'Run the rebase', value: 'run' },
+                { name: 'Change the action for a commit', value: 'change' },
+                { name: 'Cancel', value: 'cancel' },
+              ],
+            },
+          ]);
+
+          if (choice === 'cancel') {
+            console.log(chalk.yellow('Rebase cancelled'));
+            return;
+          }
+          if (choice === 'run') {
+            break;
+          }
+
+          const operations = await changeAction(plan.operations);
+          spinner.start('Forecasting conflicts...');
+          plan = planner.assess(operations, await planner.forecast(upstream, operations));
+          spinner.stop();
+          displayPlan(plan);
+        }
+      }
+
+      console.log('');
+      const code = await planner.execute(upstream, plan.operations);
+      const stopped = await new OperationManager().detect();
+
+      if (code === 0 && !stopped) {
+        console.log(`${chalk.green('✓')} Rebased onto ${upstream}`);
+      } else if (stopped) {
+        console.log('');
+        console.log(chalk.yellow(describeOperation(stopped)));
+        console.log(`Run ${chalk.cyan('smugit fix')} to resolve conflicts, then ${chalk.cyan('smugit continue')}`);
+        console.log(`Run ${chalk.cyan('smugit abort')} to go back to where you started`);
+      } else {
+        throw new Error(`git rebase exited with code ${code}`);
+      }
+    } catch (error) {
+      spinner.fail('Rebase planning failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+rebaseCommand
+  .command('forecast <upstream>')
+  .description('Replay each commit onto <upstream> in memory and show which would conflict, next to a merge')
+  .option('--json', 'Print the forecast as JSON')
+  .action(async (upstream: string, options) => {
+    const spinner = ora('Forecasting conflicts...').start();
+
+    try {
+      const info = await new RebasePlanner().analyze(upstream);
+      const merge = await new MergePreflight().run(upstream);
+      const steps = info.plan.forecast ?? [];
+
+      if (options.json) {
+        spinner.stop();
+        console.log(
+          JSON.stringify(
+            {
+              upstream,
+              steps,
+              conflicts: info.conflicts,
+              estimatedConflicts: info.plan.estimatedConflicts,
+              riskLevel: info.plan.riskLevel,
+              merge: {
+                conflictedFiles: merge.conflicts.map(conflict => conflict.file),
+                autoResolvableFiles: merge.autoResolvableFiles,
+              },
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      if (steps.length === 0) {
+        spinner.succeed(`Nothing to rebase: HEAD has no commits that ${upstream} lacks`);
+        return;
+      }
+
+      spinner.succeed(`Replayed ${steps.length} commit(s) onto ${upstream}`);
+      displayForecast(steps);
+
+      const mergeManual = merge.conflicts.filter(conflict => !merge.autoResolvableFiles.includes(conflict.file)).length;
+      console.log('');
+      console.log(
+        `${chalk.bold('Rebase:')} ${info.plan.estimatedConflicts} of ${steps.length} commit(s) stop with conflicts ${chalk.dim(
+          `(risk ${RISK_COLORS[info.plan.riskLevel](info.plan.riskLevel)})`
+        )}`
+      );
+      console.log(
+        `${chalk.bold('Merge:')}  ${
+          merge.clean
+            ? chalk.green('merges cleanly')
+            : `stops once on ${merge.conflicts.length} file(s), ${mergeManual} needing your review`
+        }`
+      );
+    } catch (error) {
+      spinner.fail('Forecast failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+function displayPlan(plan: RebasePlan) {
+  console.log('');
+  console.log(chalk.bold('Rebase plan'));
+  console.log(chalk.gray('─'.repeat(60)));
+
+  plan.operations.forEach(operation => {
+    const action = operation.action === 'pick' ? chalk.dim(operation.action.padEnd(6)) : chalk.cyan(operation.action.padEnd(6));
+    const step = plan.forecast?.find(candidate => candidate.commit === operation.commit);
+
+    console.log(`  ${action} ${chalk.yellow(operation.commit.slice(0, 7))} ${operation.message ?? ''}`);
+    if (operation.reason) {
+      console.log(`         ${chalk.dim(operation.reason)}`);
+    }
+    if (step?.conflictedFiles.length) {
+      console.log(`         ${describeStep(step)}`);
+    } else if (!plan.forecast && operation.overlappingFiles?.length && operation.action !== 'drop') {
+      console.log(`         ${chalk.yellow('⚠ Also changed upstream:')} ${operation.overlappingFiles.join(', ')}`);
+    }
+  });
+
+  console.log('');
+  console.log(
+    `${chalk.bold('Risk:')} ${RISK_COLORS[plan.riskLevel](plan.riskLevel)} ${chalk.dim(
+      plan.forecast
+        ? `• ${plan.estimatedConflicts} commit(s) would stop with conflicts`
+        : `• ${plan.estimatedConflicts} commit(s) touch files changed upstream`
+    )}`
+  );
+}
+
+function displayForecast(steps: RebaseStepForecast[]) {
+  console.log('');
+  console.log(chalk.bold(`  ${'Commit'.padEnd(8)} ${'Subject'.padEnd(40)} Outcome`));
+  console.log(chalk.gray('─'.repeat(80)));
+
+  steps.forEach(step => {
+    const subject = (step.message ?? '').slice(0, 40).padEnd(40);
+    const outcome = step.conflictedFiles.length === 0 ? chalk.green('✓ applies cleanly') : describeStep(step);
+    console.log(`  ${chalk.yellow(step.commit.slice(0, 7).padEnd(8))} ${subject} ${outcome}`);
+  });
+}
+
+/**
+ * e.g. "✗ conflicts in a.ts, b.json (b.json auto-resolvable)"
+ */
+function describeStep(step: RebaseStepForecast): string {
+  const manual = step.conflictedFiles.filter(file => !step.autoResolvableFiles.includes(file));
+  const files = step.conflictedFiles.join(', ');
+
+  if (manual.length === 0) {
+    return `${chalk.cyan('⟳ conflicts in')} ${files} ${chalk.dim('(all auto-resolvable)')}`;
+  }
+  const auto = step.autoResolvableFiles.length > 0 ? chalk.dim(` (${step.autoResolvableFiles.join(', ')} auto-resolvable)`) : '';
+  return `${chalk.red('✗ conflicts in')} ${files}${auto}`;
+}
+
+/**
+ * Lets the user pick a commit and a new action for it. Squash and fixup need a
+ * kept commit before them to fold into.
+ */
+async function changeAction(operations: RebaseOperation[]): Promise<RebaseOperation[]> {
+  const { index } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'index',
+      message: 'Which commit?',
+      choices: operations.map((operation, position) => ({
+        name: `${operation.action.padEnd(6)} ${operation.commit.slice(0, 7)} ${operation.message ?? ''}`,
+        value: position,
+      })),
+    },
+  ]);
+
+  const hasPrevious = operations.slice(0, index).some(operation => operation.action !== 'drop');
+  const { action } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'action',
+      message: 'New action',
+      default: operations[index].action,
+      choices: ACTIONS.map(choice => ({
+        ...choice,
+        disabled: ['squash', 'fixup'].includes(choice.value) && !hasPrevious ? 'no earlier commit to fold into' : false,
+      })),
+    },
+  ]);
+
+  return operations.map((operation, position) =>
+    position === index ? { ...operation, action, reason: action === operation.action ? operation.reason : 'Changed by you' } : operation
+  );
+}
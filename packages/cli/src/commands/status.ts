@@ -1,13 +1,16 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { GitAnalyzer } from '../git';
+import { GitOperation } from '@smugit/shared';
+import { BranchTopology, GitAnalyzer, describeOperation } from '../git';
+import { displayGraph } from './graph';
 
 export const statusCommand = new Command('status')
   .alias('s')
   .description('Show enhanced repository status with Smugit insights')
   .option('-v, --verbose', 'Show detailed status information')
   .option('--conflicts-only', 'Show only conflict information')
+  .option('-g, --graph', 'Draw the branch graph instead of the recent commits')
   .action(async (options) => {
     const spinner = ora('Gathering repository status...').start();
 
@@ -17,22 +20,27 @@ export const statusCommand = new Command('status')
       // Get repository status
       const repo = await analyzer.analyzeRepository();
 
-      // Check for conflicts
+      // Read-only: learning from hand edits happens in fix, continue and commit
       const conflicts = await analyzer.analyzeConflicts();
 
       // Get recent commits
       const recentCommits = await analyzer.getCommitHistory(5);
+      const graph = options.graph ? await new BranchTopology().read({ limit: 15 }) : undefined;
 
       spinner.succeed('Status analysis complete');
 
       if (options.conflictsOnly) {
-        displayConflictsOnly(conflicts);
+        displayConflictsOnly(conflicts, repo.operation);
       } else {
-        displayFullStatus(repo, conflicts, recentCommits, options.verbose);
+        displayFullStatus(repo, conflicts, graph ? [] : recentCommits, options.verbose);
+      }
+
+      if (graph) {
+        displayGraph(graph);
       }
 
       // Show actionable suggestions
-      displaySuggestions(repo.status, conflicts);
+      displaySuggestions(repo.status, conflicts, repo.operation);
 
     } catch (error) {
       spinner.fail('Status check failed');
@@ -50,6 +58,9 @@ function displayFullStatus(repo: any, conflicts: any[], commits: any[], verbose:
   console.log(chalk.bold('🏠 Repository'));
   console.log(`  Path: ${repo.path}`);
   console.log(`  Branch: ${chalk.cyan(repo.branch)}`);
+  if (repo.operation) {
+    console.log(`  In progress: ${chalk.yellow(describeOperation(repo.operation))}`);
+  }
 
   if (repo.remotes.length > 0) {
     console.log(`  Remote: ${chalk.gray(repo.remotes[0].name)} → ${repo.remotes[0].url}`);
@@ -125,16 +136,22 @@ function displayFullStatus(repo: any, conflicts: any[], commits: any[], verbose:
       const shortHash = commit.hash.substring(0, 7);
       const shortMessage = commit.message.split('\n')[0].substring(0, 60);
       const timeAgo = getTimeAgo(new Date(commit.date));
+      const stats = `${chalk.green(`+${commit.insertions}`)} ${chalk.red(`-${commit.deletions}`)} ${chalk.dim(
+        `in ${commit.files.length} file(s)`
+      )}`;
 
-      console.log(`  ${chalk.yellow(shortHash)} ${shortMessage} ${chalk.dim(`(${timeAgo})`)}`);
+      console.log(`  ${chalk.yellow(shortHash)} ${shortMessage} ${stats} ${chalk.dim(`(${timeAgo})`)}`);
     });
   }
 }
 
-function displayConflictsOnly(conflicts: any[]) {
+function displayConflictsOnly(conflicts: any[], operation?: GitOperation) {
   console.log('');
   console.log(chalk.bold.red('⚠️  Merge Conflicts'));
   console.log(chalk.gray('═'.repeat(60)));
+  if (operation) {
+    console.log(chalk.yellow(describeOperation(operation)));
+  }
 
   if (conflicts.length === 0) {
     console.log(chalk.green('✨ No conflicts found'));
@@ -171,7 +188,7 @@ function displayConflictSummary(conflicts: any[], verbose: boolean) {
   }
 }
 
-function displaySuggestions(status: any, conflicts: any[]) {
+function displaySuggestions(status: any, conflicts: any[], operation?: GitOperation) {
   const suggestions: string[] = [];
 
   // Conflict suggestions
@@ -187,8 +204,14 @@ function displaySuggestions(status: any, conflicts: any[]) {
     }
   }
 
-  // Commit suggestions
-  if (status.staged.length > 0) {
+  // An operation in progress is finished with smugit continue rather than a plain commit
+  if (operation) {
+    suggestions.push(
+      conflicts.length === 0
+        ? `${chalk.cyan('smugit continue')} - Carry on with the ${operation.type}`
+        : `${chalk.cyan('smugit abort')} - Abandon the ${operation.type} instead`
+    );
+  } else if (status.staged.length > 0) {
     suggestions.push(`${chalk.cyan('smugit commit')} - Create intelligent commit`);
   } else if (status.modified.length > 0) {
     suggestions.push(`${chalk.cyan('git add')} - Stage changes for commit`);
@@ -0,0 +1,109 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { ReflogEntry } from '@smugit/shared';
+
+import { ReflogHistory } from '../git';
+import { restoreCheckpoint } from './checkpoint';
+
+const DEFAULT_ENTRIES = 15;
+
+export const undoCommand = new Command('undo')
+  .description('Restore the latest checkpoint, or go back to an earlier state from the reflog')
+  .option('-l, --list', 'Explain recent commits, resets, rebases and checkouts, and offer to go back to one')
+  .option('--to <entry>', 'Go back to a listed entry, e.g. HEAD@{2} or 2')
+  .option('-n, --max-count <count>', 'Number of entries to list', String(DEFAULT_ENTRIES))
+  .option('-y, --yes', 'Do not ask for confirmation')
+  .option('--json', 'Print the entries as JSON')
+  .option('-f, --force', 'Move HEAD back if commits were made since the checkpoint')
+  .action(async (options) => {
+    if (!options.list && !options.to && !options.json) {
+      await restoreCheckpoint('latest', Boolean(options.force));
+      return;
+    }
+
+    try {
+      const history = new ReflogHistory();
+      const limit = Number.parseInt(options.maxCount, 10) || DEFAULT_ENTRIES;
+      // --to may name an entry further back than the list goes
+      const entries = await history.list(options.to ? Infinity : limit);
+
+      if (options.json) {
+        console.log(JSON.stringify(entries.slice(0, limit), null, 2));
+        return;
+      }
+
+      let target: ReflogEntry | undefined;
+      if (options.to) {
+        const selector = /^\d+$/.test(options.to) ? `HEAD@{${options.to}}` : options.to;
+        target = entries.find(entry => entry.selector === selector);
+        if (!target) {
+          throw new Error(`${options.to} is not a listed entry; run smugit undo --list to see them`);
+        }
+      } else {
+        displayEntries(entries.slice(0, limit));
+        if (!process.stdin.isTTY || entries.length < 2) {
+          return;
+        }
+        target = await pickEntry(entries.slice(1, limit));
+        if (!target) {
+          return;
+        }
+      }
+
+      if (!options.yes) {
+        const { confirm } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Go back to ${target.selector} (${target.explanation})?`,
+            default: false,
+          },
+        ]);
+
+        if (!confirm) {
+          console.log(chalk.yellow('Nothing changed'));
+          return;
+        }
+      }
+
+      const result = await history.restore(target);
+
+      console.log(`${chalk.green('✓')} Back at ${chalk.yellow(target.commit.slice(0, 7))}, right after: ${target.explanation}`);
+      console.log(chalk.dim(`  The commit you were on is saved as ${result.backupRef}; run git reset --hard ${result.backupRef} to return to it.`));
+      if (result.stash) {
+        console.log(chalk.dim('  Your uncommitted changes are in the stash; run git stash pop to bring them back.'));
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+function displayEntries(entries: ReflogEntry[]) {
+  console.log('');
+  console.log(chalk.bold('🕘 What happened recently'));
+  console.log(chalk.gray('─'.repeat(60)));
+
+  entries.forEach((entry, index) => {
+    const now = index === 0 ? chalk.green(' ← you are here') : '';
+    console.log(`  ${chalk.cyan(entry.selector.padEnd(10))} ${chalk.yellow(entry.commit.slice(0, 7))} ${entry.explanation}${now}`);
+    console.log(`  ${' '.repeat(18)} ${chalk.dim(`${new Date(entry.date).toLocaleString()} • ${entry.message.split('\n')[0]}`)}`);
+  });
+}
+
+async function pickEntry(entries: ReflogEntry[]): Promise<ReflogEntry | undefined> {
+  const { selector } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'selector',
+      message: 'Go back to the state right after:',
+      choices: [
+        { name: 'Nothing, just looking', value: '' },
+        ...entries.map(entry => ({ name: `${entry.selector.padEnd(10)} ${entry.explanation}`, value: entry.selector })),
+      ],
+    },
+  ]);
+
+  return entries.find(entry => entry.selector === selector);
+}
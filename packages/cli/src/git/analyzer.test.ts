@@ -0,0 +1,224 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConflictType } from '@smugit/shared';
+
+import { GitAnalyzer, parseNumstat } from './analyzer';
+import { renderConflictBlock } from './conflict-content';
+import { TestRepo, conflictedMerge } from './test-repo';
+
+const BASE = 'a\nb\nc\nd\ne\nf\ng\nh\n';
+const CURRENT = 'a\nB1\nc\nd\ne\nf\nG1\nh\n';
+const INCOMING = 'a\nB2\nc\nd\ne\nf\nG2\nh\n';
+const LINES = Array.from({ length: 10 }, (_, index) => `line ${index}`).join('\n') + '\n';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+describe('GitAnalyzer.analyzeConflicts', () => {
+  it('builds hunks from the index stages with the lines and markers git wrote', async () => {
+    repo = conflictedMerge({ 'app.txt': BASE }, { 'app.txt': CURRENT }, { 'app.txt': INCOMING });
+
+    const [conflict] = await new GitAnalyzer(repo.path).analyzeConflicts();
+    const lines = repo.read('app.txt').split('\n');
+
+    expect(conflict.versions).toEqual({ base: BASE, current: CURRENT, incoming: INCOMING });
+    expect(conflict.hunks.map(hunk => [hunk.startLine, hunk.endLine])).toEqual([
+      [2, 6],
+      [11, 15],
+    ]);
+    conflict.hunks.forEach(hunk => {
+      expect(hunk.hasBase).toBe(true);
+      expect(renderConflictBlock(hunk)).toEqual(lines.slice(hunk.startLine - 1, hunk.endLine));
+    });
+    expect(conflict.hunks[0].conflictMarkers.end).toBe('>>>>>>> feature');
+  });
+
+  it('keeps the base section of diff3 style markers', async () => {
+    repo = new TestRepo();
+    repo.git('config', 'merge.conflictStyle', 'diff3');
+    repo.commit('base', { 'app.txt': BASE });
+    repo.git('checkout', '-q', '-b', 'feature');
+    repo.commit('incoming', { 'app.txt': INCOMING });
+    repo.git('checkout', '-q', 'main');
+    repo.commit('current', { 'app.txt': CURRENT });
+    repo.gitMayFail('merge', 'feature');
+
+    const [conflict] = await new GitAnalyzer(repo.path).analyzeConflicts();
+    const lines = repo.read('app.txt').split('\n');
+
+    expect(conflict.hunks[0].conflictMarkers.base).toMatch(/^\|{7} /);
+    expect(renderConflictBlock(conflict.hunks[0])).toEqual(lines.slice(1, 8));
+  });
+});
+
+describe('GitAnalyzer tree conflicts', () => {
+  const analyze = async () => new GitAnalyzer(repo!.path).analyzeConflicts();
+
+  it('detects a file modified on our side and deleted on theirs', async () => {
+    repo = conflictedMerge({ 'a.txt': LINES }, { 'a.txt': LINES.replace('line 3', 'current 3') }, { 'a.txt': null });
+
+    expect(await analyze()).toMatchObject([
+      { file: 'a.txt', type: ConflictType.DELETED_BY_THEM, paths: { base: 'a.txt', current: 'a.txt' } },
+    ]);
+  });
+
+  it('detects a file deleted on our side and modified on theirs', async () => {
+    repo = conflictedMerge({ 'a.txt': LINES }, { 'a.txt': null }, { 'a.txt': LINES.replace('line 3', 'incoming 3') });
+
+    expect(await analyze()).toMatchObject([{ file: 'a.txt', type: ConflictType.DELETED_BY_US }]);
+  });
+
+  it('points a deletion at the path the other side renamed the file to', async () => {
+    repo = conflictedMerge(
+      { 'a.txt': LINES },
+      { 'a.txt': LINES.replace('line 0', 'current 0') },
+      // Changed too much for git to see a rename, not for the analyzer
+      { 'a.txt': null, 'b.txt': LINES.replace(/line [4-9]/g, line => line.toUpperCase()) }
+    );
+
+    expect(await analyze()).toMatchObject([
+      { file: 'a.txt', type: ConflictType.DELETED_BY_THEM, paths: { current: 'a.txt', incoming: 'b.txt' } },
+    ]);
+  });
+
+  it('reports a rename on both sides once, on the original path', async () => {
+    repo = conflictedMerge(
+      { 'old.txt': LINES },
+      { 'old.txt': null, 'current.txt': LINES },
+      { 'old.txt': null, 'incoming.txt': LINES }
+    );
+
+    expect(await analyze()).toMatchObject([
+      {
+        file: 'old.txt',
+        type: ConflictType.RENAME_RENAME,
+        paths: { base: 'old.txt', current: 'current.txt', incoming: 'incoming.txt' },
+      },
+    ]);
+  });
+
+  it('detects a file renamed on our side and deleted on theirs', async () => {
+    repo = conflictedMerge({ 'old.txt': LINES }, { 'old.txt': null, 'new.txt': LINES }, { 'old.txt': null });
+
+    expect(await analyze()).toMatchObject([
+      { file: 'new.txt', type: ConflictType.RENAME_DELETE, paths: { base: 'old.txt', current: 'new.txt' } },
+    ]);
+  });
+
+  it('analyzes a file added on both sides as a text conflict without a base', async () => {
+    repo = conflictedMerge({ 'other.txt': 'x\n' }, { 'a.txt': 'current\n' }, { 'a.txt': 'incoming\n' });
+
+    const [conflict] = await analyze();
+
+    expect(conflict).toMatchObject({ file: 'a.txt', type: ConflictType.ADD_ADD });
+    expect(conflict.versions).toEqual({ current: 'current\n', incoming: 'incoming\n' });
+    expect(conflict.hunks).toHaveLength(1);
+  });
+});
+
+describe('parseNumstat', () => {
+  it('reads counts, a rename as its pair of paths and binary files', () => {
+    // `git log -z --numstat` puts a rename's paths in their own fields instead of `src/{old.ts => new.ts}`
+    const stats = '\n3\t1\tsrc/app.ts\x002\t0\t\x00src/old.ts\x00src/new.ts\x00-\t-\tlogo.png\x00';
+
+    expect(parseNumstat(stats)).toEqual([
+      { path: 'src/app.ts', insertions: 3, deletions: 1, binary: false },
+      { path: 'src/new.ts', oldPath: 'src/old.ts', insertions: 2, deletions: 0, binary: false },
+      { path: 'logo.png', insertions: 0, deletions: 0, binary: true },
+    ]);
+  });
+
+  it('reads a commit without file changes as none', () => {
+    expect(parseNumstat('')).toEqual([]);
+  });
+});
+
+describe('GitAnalyzer.getCommitHistory', () => {
+  const subjects = async (options: Parameters<GitAnalyzer['getCommitHistory']>[0]) =>
+    (await new GitAnalyzer(repo!.path).getCommitHistory(options)).map(commit => commit.message);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  /** Dates the next commits on the given day of January 2024, so the log order is fixed */
+  const onDay = (day: number) => {
+    const date = `2024-01-0${day}T12:00:00Z`;
+    vi.stubEnv('GIT_AUTHOR_DATE', date);
+    vi.stubEnv('GIT_COMMITTER_DATE', date);
+  };
+
+  /** main: base, rename, logo, then a merge of feature: docs by Docs Writer; one commit a day */
+  function historyRepo(): TestRepo {
+    const repo = new TestRepo();
+    onDay(1);
+    repo.commit('base', { 'src/old.ts': LINES, 'README.md': 'readme\n' });
+    onDay(2);
+    repo.git('mv', 'src/old.ts', 'src/new.ts');
+    repo.commit('rename', { 'src/new.ts': LINES.replace('line 9', 'line nine') });
+    onDay(3);
+    repo.commit('logo', { 'logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]) });
+    repo.git('checkout', '-q', '-b', 'feature');
+    onDay(4);
+    repo.write('README.md', 'readme\nmore\n');
+    repo.git('commit', '-q', '-am', 'docs', '--author=Docs Writer <docs@example.com>');
+    repo.git('checkout', '-q', 'main');
+    onDay(5);
+    repo.git('merge', '-q', '--no-ff', '--no-edit', 'feature');
+    return repo;
+  }
+
+  it('reads the files, line counts and renames of each commit in one pass', async () => {
+    repo = historyRepo();
+
+    const [, , logo, rename] = await new GitAnalyzer(repo.path).getCommitHistory();
+
+    expect(rename).toMatchObject({
+      message: 'rename',
+      files: ['src/new.ts'],
+      insertions: 1,
+      deletions: 1,
+      fileStats: [{ path: 'src/new.ts', oldPath: 'src/old.ts', insertions: 1, deletions: 1, binary: false }],
+    });
+    expect(logo.fileStats).toEqual([{ path: 'logo.png', insertions: 0, deletions: 0, binary: true }]);
+  });
+
+  it('reports a rename as a delete and an add when renames are off', async () => {
+    repo = historyRepo();
+
+    const [rename] = await new GitAnalyzer(repo.path).getCommitHistory({ range: 'HEAD~3..HEAD~2', renames: false });
+
+    expect(rename.fileStats).toEqual([
+      { path: 'src/new.ts', insertions: 10, deletions: 0, binary: false },
+      { path: 'src/old.ts', insertions: 0, deletions: 10, binary: false },
+    ]);
+  });
+
+  it('filters by limit, range, path, author, dates and merges', async () => {
+    repo = historyRepo();
+
+    expect(await subjects(2)).toEqual(["Merge branch 'feature'", 'docs']);
+    expect(await subjects({ range: 'HEAD~3..HEAD', reverse: true })).toEqual([
+      'rename',
+      'logo',
+      'docs',
+      "Merge branch 'feature'",
+    ]);
+    expect(await subjects({ paths: ['src'] })).toEqual(['rename', 'base']);
+    expect(await subjects({ author: 'Docs Writer' })).toEqual(['docs']);
+    expect(await subjects({ since: '2024-01-02T00:00:00Z', until: '2024-01-03T23:00:00Z' })).toEqual(['logo', 'rename']);
+    expect(await subjects({ noMerges: true })).toEqual(['docs', 'logo', 'rename', 'base']);
+    expect(await subjects({ firstParent: true })).toEqual(["Merge branch 'feature'", 'logo', 'rename', 'base']);
+  });
+
+  it('counts a merge against its first parent when following first parents', async () => {
+    repo = historyRepo();
+
+    const [merge] = await new GitAnalyzer(repo.path).getCommitHistory({ firstParent: true, limit: 1 });
+
+    expect(merge.fileStats).toEqual([{ path: 'README.md', insertions: 1, deletions: 0, binary: false }]);
+  });
+});
@@ -4,11 +4,16 @@ import {
   ConflictType,
   ConflictComplexity,
   ConflictHunk,
+  ConflictVersions,
+  ConflictPaths,
+  BinaryFileInfo,
   GitRepository,
   GitStatus,
   GitRemote,
   CommitSuggestion,
   GitCommit,
+  GitFileStat,
+  GitOperation,
 } from '@smugit/shared';
 import {
   analyzeConflictComplexity,
@@ -20,13 +25,81 @@ import {
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+import { mergeHunkThreeWay } from './three-way-merge';
+import { isLockfile, looksBinary, readImageDimensions } from './binary-info';
+import { formatStructuredPath, mergeStructuredFile } from './structured-merge';
+import { describeManifestConflict, isPackageManifest, mergePackageManifest } from './package-manifest';
+import { ASTConflictResolver, isScriptFile } from './ast-resolver';
+import { ResolutionMemory } from './learned-resolutions';
+import { OperationManager } from './operation';
+import { ResolutionJournal } from './journal';
+import {
+  DEFAULT_MARKER_SIZE,
+  buildHunksFromRegions,
+  locateConflictBlocks,
+  mergeConflictVersions,
+  parseConflictHunks,
+  renderMergeRegions,
+} from './conflict-content';
+
+interface MergeRenames {
+  current: Map<string, string>;
+  incoming: Map<string, string>;
+}
+
+interface TreeConflictInfo {
+  type: ConflictType;
+  paths: ConflictPaths;
+}
+
+export interface GitAnalyzerOptions {
+  /** Read conflicts from this index file instead of the repository's, e.g. one built from a simulated merge */
+  indexFile?: string;
+  /** Commit being merged into, when it is not HEAD */
+  currentRev?: string;
+  /** Commit being merged in, when it is not MERGE_HEAD */
+  incomingRev?: string;
+}
+
+export interface CommitHistoryOptions {
+  /** Most commits to read */
+  limit?: number;
+  /** Revision range such as main..HEAD; defaults to HEAD */
+  range?: string;
+  /** Only commits touching these paths */
+  paths?: string[];
+  /** Only commits whose author matches this pattern */
+  author?: string;
+  /** Dates git understands, e.g. "2 weeks ago" or 2024-05-01 */
+  since?: string;
+  until?: string;
+  /** Follow only the first parent of merges; merges then count their changes against it */
+  firstParent?: boolean;
+  noMerges?: boolean;
+  /** Oldest first */
+  reverse?: boolean;
+  /** Report a rename as one file with its old path instead of a delete and an add; on by default */
+  renames?: boolean;
+}
+
 export class GitAnalyzer {
   private git: SimpleGit;
   private repoPath: string;
+  private currentRev: string;
+  private incomingRev?: string;
+  private readsWorkingTree: boolean;
 
-  constructor(repoPath: string = process.cwd()) {
+  constructor(repoPath: string = process.cwd(), options: GitAnalyzerOptions = {}) {
     this.repoPath = repoPath;
     this.git = simpleGit(repoPath);
+    this.currentRev = options.currentRev ?? 'HEAD';
+    this.incomingRev = options.incomingRev;
+    // Conflicts in a scratch index have no working tree copy
+    this.readsWorkingTree = !options.indexFile;
+
+    if (options.indexFile) {
+      this.git.env({ ...process.env, GIT_INDEX_FILE: options.indexFile });
+    }
   }
 
   /**
@@ -45,26 +118,47 @@ export class GitAnalyzer {
         url: remote.refs.fetch,
       })),
       status: this.parseGitStatus(status),
+      operation: await this.getOperation(),
     };
   }
 
+  /**
+   * The merge, rebase, cherry-pick or revert that stopped on conflicts, if any
+   */
+  async getOperation(): Promise<GitOperation | undefined> {
+    return new OperationManager(this.repoPath).detect();
+  }
+
   /**
    * Detects and analyzes merge conflicts
    */
   async analyzeConflicts(): Promise<GitConflict[]> {
-    const status = await this.git.status();
-    const conflictedFiles = status.conflicted;
+    const entries = await this.readUnmergedEntries();
 
-    if (conflictedFiles.length === 0) {
+    if (entries.size === 0) {
       return [];
     }
 
+    const renames = await this.detectMergeRenames();
+    const treeConflicts = this.classifyTreeConflicts(entries, renames);
     const conflicts: GitConflict[] = [];
 
-    for (const file of conflictedFiles) {
+    for (const file of entries.keys()) {
+      const treeConflict = treeConflicts.get(file);
+      if (treeConflict === null) {
+        continue; // Covered by a rename/rename conflict on the original path
+      }
+
       try {
-        const conflict = await this.analyzeFileConflict(file);
-        conflicts.push(conflict);
+        if (treeConflict && treeConflict.type !== ConflictType.ADD_ADD) {
+          conflicts.push(await this.analyzeTreeConflict(file, treeConflict.type, treeConflict.paths));
+        } else if (isLockfile(file)) {
+          conflicts.push(await this.analyzeLockfileConflict(file));
+        } else if (await this.isBinaryConflict(file)) {
+          conflicts.push(await this.analyzeBinaryConflict(file));
+        } else {
+          conflicts.push(await this.analyzeFileConflict(file, treeConflict?.type));
+        }
       } catch (error) {
         console.warn(`Failed to analyze conflict in ${file}:`, error);
       }
@@ -73,15 +167,357 @@ export class GitAnalyzer {
     return conflicts;
   }
 
+  /**
+   * Lists `file:line` for conflict markers left in staged files, which git no
+   * longer reports as unmerged
+   */
+  async findLeftoverMarkers(): Promise<string[]> {
+    let output: string;
+    try {
+      output = await this.git.raw(['diff', '--cached', '--check']);
+    } catch (error) {
+      // --check exits non-zero when it finds problems; the report is the message
+      output = error instanceof Error ? error.message : String(error);
+    }
+
+    return output
+      .split('\n')
+      .filter(line => line.includes('leftover conflict marker'))
+      .map(line => line.replace(/: leftover conflict marker$/, ''));
+  }
+
+  /**
+   * Commit message concluding a merge, listing how smugit resolved each file
+   * according to the journal
+   */
+  async generateMergeMessage(operation: GitOperation): Promise<string> {
+    const head = (await this.git.raw(['rev-parse', 'HEAD'])).trim();
+    const mergeHead = (await this.git.raw(['rev-parse', '-q', '--verify', 'MERGE_HEAD'])).trim();
+    const strategies = new Map<string, Set<string>>();
+
+    for (const entry of await new ResolutionJournal(this.repoPath).read()) {
+      if (entry.head === head && entry.mergeHeads?.[0] === mergeHead) {
+        strategies.set(entry.file, (strategies.get(entry.file) ?? new Set<string>()).add(entry.strategy));
+      }
+    }
+
+    const subject = `Merge ${operation.incoming} into ${operation.current}`;
+    if (strategies.size === 0) {
+      return subject;
+    }
+
+    const lines = [...strategies].map(([file, used]) => `- ${file}: ${[...used].join(', ')}`);
+    return `${subject}\n\nResolved conflicts:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Finds the conflict blocks still marked in a file's working tree copy, e.g.
+   * after it was edited by hand
+   */
+  async findRemainingHunks(filePath: string): Promise<ConflictHunk[]> {
+    const content = await fs.readFile(path.join(this.repoPath, filePath), 'utf-8');
+    return parseConflictHunks(content, await this.getConflictMarkerSize(filePath));
+  }
+
+  /**
+   * Lists unmerged index entries as a map of path to the stages present
+   */
+  private async readUnmergedEntries(): Promise<Map<string, Set<number>>> {
+    const output = await this.git.raw(['ls-files', '-u', '-z']);
+    const entries = new Map<string, Set<number>>();
+
+    output
+      .split('\0')
+      .filter(Boolean)
+      .forEach(entry => {
+        const [info, file] = entry.split('\t');
+        const stage = Number(info.split(' ')[2]);
+        const stages = entries.get(file) ?? new Set<number>();
+        stages.add(stage);
+        entries.set(file, stages);
+      });
+
+    return entries;
+  }
+
+  /**
+   * Finds files renamed on each side of an in-progress merge, keyed by their original path
+   */
+  private async detectMergeRenames(): Promise<MergeRenames> {
+    const renames: MergeRenames = { current: new Map(), incoming: new Map() };
+    const incomingRev = await this.getIncomingRev();
+
+    if (!incomingRev) {
+      return renames;
+    }
+
+    const mergeBase = (await this.git.raw(['merge-base', this.currentRev, incomingRev])).trim();
+    if (!mergeBase) {
+      return renames;
+    }
+
+    renames.current = await this.readRenames(mergeBase, this.currentRev);
+    renames.incoming = await this.readRenames(mergeBase, incomingRev);
+    return renames;
+  }
+
+  private async getIncomingRev(): Promise<string> {
+    return this.incomingRev ?? (await this.git.raw(['rev-parse', '-q', '--verify', 'MERGE_HEAD'])).trim();
+  }
+
+  private async readRenames(from: string, to: string): Promise<Map<string, string>> {
+    // A lower similarity threshold than git's merge also catches heavily edited moves
+    const output = await this.git.raw([
+      'diff', '-z', '--name-status', '--find-renames=30%', '--diff-filter=R', from, to,
+    ]);
+    const fields = output.split('\0').filter(Boolean);
+    const renames = new Map<string, string>();
+
+    for (let index = 0; index + 2 < fields.length; index += 3) {
+      renames.set(fields[index + 1], fields[index + 2]);
+    }
+
+    return renames;
+  }
+
+  /**
+   * Classifies unmerged paths whose stages show a delete, rename or add on one side.
+   * Paths mapped to null belong to a rename/rename conflict reported on the original path.
+   */
+  private classifyTreeConflicts(
+    entries: Map<string, Set<number>>,
+    renames: MergeRenames
+  ): Map<string, TreeConflictInfo | null> {
+    const classified = new Map<string, TreeConflictInfo | null>();
+    const renamedFrom = (side: Map<string, string>, file: string) =>
+      [...side.entries()].find(([, target]) => target === file)?.[0];
+
+    // Both sides renamed the same file: git leaves only the base stage on the original path
+    for (const [file, stages] of entries) {
+      if (stages.size === 1 && stages.has(1)) {
+        const paths = {
+          base: file,
+          current: renames.current.get(file),
+          incoming: renames.incoming.get(file),
+        };
+        classified.set(file, { type: ConflictType.RENAME_RENAME, paths });
+        if (paths.current) classified.set(paths.current, null);
+        if (paths.incoming) classified.set(paths.incoming, null);
+      }
+    }
+
+    for (const [file, stages] of entries) {
+      if (classified.has(file) || (stages.has(2) && stages.has(3) && stages.has(1))) {
+        continue;
+      }
+
+      if (stages.has(2) && stages.has(3)) {
+        classified.set(file, { type: ConflictType.ADD_ADD, paths: {} });
+      } else if (stages.has(2)) {
+        const source = renamedFrom(renames.current, file);
+        classified.set(
+          file,
+          source
+            ? { type: ConflictType.RENAME_DELETE, paths: { base: source, current: file } }
+            : {
+                type: ConflictType.DELETED_BY_THEM,
+                paths: { base: file, current: file, incoming: renames.incoming.get(file) },
+              }
+        );
+      } else if (stages.has(3)) {
+        const source = renamedFrom(renames.incoming, file);
+        classified.set(
+          file,
+          source
+            ? { type: ConflictType.RENAME_DELETE, paths: { base: source, incoming: file } }
+            : {
+                type: ConflictType.DELETED_BY_US,
+                paths: { base: file, current: renames.current.get(file), incoming: file },
+              }
+        );
+      }
+    }
+
+    return classified;
+  }
+
+  /**
+   * Builds a conflict for a file whose existence or path differs between branches
+   */
+  private async analyzeTreeConflict(
+    filePath: string,
+    type: ConflictType,
+    paths: ConflictPaths
+  ): Promise<GitConflict> {
+    const versions: ConflictVersions = {};
+    const base = await this.readIndexStage(filePath, 1);
+    const current = paths.current ? await this.readIndexStage(paths.current, 2) : undefined;
+    const incoming = paths.incoming ? await this.readIndexStage(paths.incoming, 3) : undefined;
+
+    if (base !== undefined) versions.base = base;
+    if (current !== undefined) versions.current = current;
+    if (incoming !== undefined) versions.incoming = incoming;
+
+    return {
+      file: filePath,
+      type,
+      hunks: [],
+      complexity: ConflictComplexity.MODERATE,
+      explanation: generateConflictExplanation(type, filePath, current ?? '', incoming ?? '', paths),
+      autoResolvable: false,
+      versions,
+      paths,
+    };
+  }
+
+  /**
+   * Builds a conflict for a generated lockfile, which is regenerated instead of merged
+   */
+  private async analyzeLockfileConflict(filePath: string): Promise<GitConflict> {
+    const complexity = ConflictComplexity.SIMPLE;
+
+    return {
+      file: filePath,
+      type: ConflictType.LOCKFILE,
+      hunks: [],
+      complexity,
+      explanation: generateConflictExplanation(ConflictType.LOCKFILE, filePath, '', ''),
+      autoResolvable: isAutoResolvable(ConflictType.LOCKFILE, complexity),
+      versions: await this.readConflictVersions(filePath),
+    };
+  }
+
+  private async isBinaryConflict(filePath: string): Promise<boolean> {
+    if (looksBinary(filePath)) {
+      return true;
+    }
+
+    const [current, incoming] = await Promise.all([
+      this.readIndexStageBuffer(filePath, 2),
+      this.readIndexStageBuffer(filePath, 3),
+    ]);
+
+    return looksBinary(filePath, current) || looksBinary(filePath, incoming);
+  }
+
+  /**
+   * Builds a conflict for a binary file, with metadata to help pick a side
+   */
+  private async analyzeBinaryConflict(filePath: string): Promise<GitConflict> {
+    const incomingRev = await this.getIncomingRev();
+    const [current, incoming] = await Promise.all([
+      this.describeBinarySide(filePath, 2, this.currentRev),
+      this.describeBinarySide(filePath, 3, incomingRev || undefined),
+    ]);
+
+    return {
+      file: filePath,
+      type: ConflictType.BINARY,
+      hunks: [],
+      complexity: ConflictComplexity.MODERATE,
+      explanation: generateConflictExplanation(ConflictType.BINARY, filePath, '', ''),
+      autoResolvable: false,
+      binary: {
+        ...(current ? { current } : {}),
+        ...(incoming ? { incoming } : {}),
+      },
+    };
+  }
+
+  private async describeBinarySide(
+    filePath: string,
+    stage: 2 | 3,
+    rev?: string
+  ): Promise<BinaryFileInfo | undefined> {
+    const content = await this.readIndexStageBuffer(filePath, stage);
+    if (!content) {
+      return undefined;
+    }
+
+    const info: BinaryFileInfo = { size: content.length };
+    const dimensions = readImageDimensions(content);
+    if (dimensions) {
+      info.dimensions = dimensions;
+    }
+
+    if (rev) {
+      const log = await this.git.raw(['log', '-1', '--format=%an%x00%h%x00%ar', rev, '--', filePath]);
+      const [author, commit, changed] = log.trim().split('\0');
+      if (author) {
+        info.lastAuthor = author;
+        info.lastCommit = commit;
+        info.lastChanged = changed;
+      }
+    }
+
+    return info;
+  }
+
+  private async readIndexStageBuffer(filePath: string, stage: 2 | 3): Promise<Buffer | undefined> {
+    try {
+      return await this.git.binaryCatFile(['blob', `:${stage}:${filePath}`]);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Analyzes a specific file's conflicts
    */
-  private async analyzeFileConflict(filePath: string): Promise<GitConflict> {
-    const fullPath = path.join(this.repoPath, filePath);
-    const content = await fs.readFile(fullPath, 'utf-8');
+  private async analyzeFileConflict(filePath: string, forcedType?: ConflictType): Promise<GitConflict> {
+    const workingContent = this.readsWorkingTree
+      ? await fs.readFile(path.join(this.repoPath, filePath), 'utf-8').catch(() => undefined)
+      : undefined;
+
+    return this.describeFileConflict(
+      filePath,
+      await this.readConflictVersions(filePath),
+      forcedType,
+      await this.getConflictMarkerSize(filePath),
+      workingContent
+    );
+  }
+
+  /**
+   * Analyzes a text conflict from versions supplied by the caller, such as the
+   * temporary files git hands a merge driver
+   */
+  async analyzeVersions(
+    filePath: string,
+    versions: ConflictVersions,
+    markerSize: number = DEFAULT_MARKER_SIZE
+  ): Promise<GitConflict> {
+    return this.describeFileConflict(filePath, versions, undefined, markerSize);
+  }
 
-    const hunks = this.parseConflictHunks(content);
-    const type = this.detectConflictType(filePath, content);
+  private async describeFileConflict(
+    filePath: string,
+    versions: ConflictVersions,
+    forcedType?: ConflictType,
+    markerSize: number = DEFAULT_MARKER_SIZE,
+    workingContent?: string
+  ): Promise<GitConflict> {
+    const regions = mergeConflictVersions(versions);
+
+    let hunks: ConflictHunk[];
+    let content: string;
+
+    if (regions) {
+      hunks = buildHunksFromRegions(regions, versions.base !== undefined, undefined, markerSize);
+      content = renderMergeRegions(regions, hunks, () => undefined);
+      if (workingContent !== undefined) {
+        hunks = this.placeHunks(hunks, versions, workingContent, markerSize);
+      }
+    } else {
+      // No usable index stages: fall back to parsing markers in the working tree
+      const fullPath = path.join(this.repoPath, filePath);
+      content = workingContent ?? (await fs.readFile(fullPath, 'utf-8'));
+      hunks = parseConflictHunks(content, await this.getConflictMarkerSize(filePath));
+    }
+
+    hunks = hunks.map(hunk => this.describeHunk(hunk));
+
+    const type = forcedType ?? this.detectConflictType(filePath, content, hunks);
     const complexity = this.determineOverallComplexity(hunks);
     const baseAutoResolvable = isAutoResolvable(type, complexity);
     const contentAutoResolvable =
@@ -89,122 +525,228 @@ export class GitAnalyzer {
         ? this.canAutoResolveContent(hunks)
         : false;
 
+    const threeWay = hunks.map(hunk => mergeHunkThreeWay(hunk));
+    const threeWayAutoResolvable =
+      (hunks.length > 0 || regions !== undefined) && threeWay.every(result => result.clean);
+    const doubleEdits = threeWay.reduce((total, result) => total + result.doubleEdits, 0);
+    const isManifest = isPackageManifest(filePath);
+    const structured =
+      regions && !threeWayAutoResolvable
+        ? isManifest
+          ? mergePackageManifest(filePath, versions)
+          : mergeStructuredFile(filePath, versions)
+        : undefined;
+    const syntactic =
+      regions && !threeWayAutoResolvable && isScriptFile(filePath)
+        ? new ASTConflictResolver().mergeVersions(filePath, versions)
+        : undefined;
+
+    const memory = new ResolutionMemory(this.repoPath);
+    const learned =
+      hunks.length > 0 && (await memory.isEnabled()) ? await Promise.all(hunks.map(hunk => memory.lookup(hunk))) : [];
+    const learnedCount = learned.filter(Boolean).length;
+    const replayable = learnedCount > 0 && learnedCount === hunks.length;
+
+    let explanation = generateConflictExplanation(
+      type,
+      filePath,
+      hunks.map(h => h.currentContent).join('\n'),
+      hunks.map(h => h.incomingContent).join('\n')
+    );
+
+    if (threeWayAutoResolvable) {
+      explanation += ' Each block was changed on only one side since the merge base.';
+    } else if (doubleEdits > 0) {
+      explanation += ` ${doubleEdits} block(s) were edited on both sides since the merge base.`;
+    }
+
+    if (structured?.content !== undefined) {
+      explanation += ' The edits touch different keys and can be merged structurally.';
+    } else if (structured && structured.conflicts.length > 0 && isManifest) {
+      explanation += ` ${structured.conflicts.map(describeManifestConflict).join('. ')}.`;
+    } else if (structured && structured.conflicts.length > 0) {
+      const keys = structured.conflicts.map(conflict => formatStructuredPath(conflict.path));
+      explanation += ` Conflicting keys: ${keys.join(', ')}.`;
+    }
+
+    if (syntactic?.success) {
+      explanation += ' The edits touch different declarations or members and can be merged syntactically.';
+    } else if (syntactic?.conflicts?.length) {
+      explanation += ` Conflicting members: ${syntactic.conflicts.join('; ')}.`;
+    }
+
+    if (replayable) {
+      explanation += ' Every block was resolved the same way before and the resolution can be replayed.';
+    } else if (learnedCount > 0) {
+      explanation += ` ${learnedCount} of ${hunks.length} block(s) were resolved the same way before.`;
+    }
+
     return {
       file: filePath,
       type,
       hunks,
       complexity,
-      explanation: generateConflictExplanation(
-        type,
-        filePath,
-        hunks.map(h => h.currentContent).join('\n'),
-        hunks.map(h => h.incomingContent).join('\n')
-      ),
-      autoResolvable: baseAutoResolvable || contentAutoResolvable,
+      explanation,
+      autoResolvable:
+        replayable ||
+        (structured
+          ? structured.content !== undefined
+          : baseAutoResolvable || contentAutoResolvable || threeWayAutoResolvable || syntactic?.success === true),
+      ...(regions ? { versions } : {}),
     };
   }
 
   /**
-   * Parses conflict markers in file content
+   * Points hunks built from the index stages at the lines of their blocks in the
+   * working tree, leaving out those no longer marked there, e.g. resolved by an
+   * earlier pass. The hunks take the marker lines git wrote, so blocks written
+   * back keep its labels and conflict style. When the marked blocks do not line
+   * up with the merge, the blocks themselves become the hunks.
    */
-  private parseConflictHunks(content: string): ConflictHunk[] {
-    const lines = content.split('\n');
-    const hunks: ConflictHunk[] = [];
-    let i = 0;
-
-    while (i < lines.length) {
-      const line = lines[i];
-
-      // Look for conflict start marker
-      if (line.startsWith('<<<<<<<')) {
-        const startLine = i;
-        const currentContent: string[] = [];
-        const incomingContent: string[] = [];
-        let baseContent = '';
-        let separatorLine = -1;
-        let endLine = -1;
-
-        i++; // Move past start marker
-
-        // Collect current content (until separator)
-        while (i < lines.length && !lines[i].startsWith('=======')) {
-          if (lines[i].startsWith('|||||||')) {
-            // Handle 3-way merge with base
-            i++;
-            const baseLines: string[] = [];
-            while (i < lines.length && !lines[i].startsWith('=======')) {
-              baseLines.push(lines[i]);
-              i++;
-            }
-            baseContent = baseLines.join('\n');
-          } else {
-            currentContent.push(lines[i]);
-          }
-          i++;
-        }
+  private placeHunks(
+    hunks: ConflictHunk[],
+    versions: ConflictVersions,
+    content: string,
+    markerSize: number
+  ): ConflictHunk[] {
+    const { spans, unmatchedBlocks } = locateConflictBlocks(hunks, versions, content);
+
+    if (unmatchedBlocks > 0) {
+      return parseConflictHunks(content, markerSize);
+    }
+    if (spans.length === 0) {
+      // No markers left, e.g. resolved by hand but not staged yet
+      return hunks;
+    }
 
-        if (i < lines.length && lines[i].startsWith('=======')) {
-          separatorLine = i;
-          i++; // Move past separator
-
-          // Collect incoming content (until end marker)
-          while (i < lines.length && !lines[i].startsWith('>>>>>>>')) {
-            incomingContent.push(lines[i]);
-            i++;
-          }
-
-          if (i < lines.length && lines[i].startsWith('>>>>>>>')) {
-            endLine = i;
-
-            hunks.push({
-              startLine: startLine + 1, // Convert to 1-based
-              endLine: endLine + 1,
-              baseContent,
-              currentContent: currentContent.join('\n'),
-              incomingContent: incomingContent.join('\n'),
-              conflictMarkers: {
-                start: lines[startLine],
-                separator: lines[separatorLine],
-                end: lines[endLine],
-              },
-            });
-          }
-        }
-      }
+    return spans.flatMap(span =>
+      span.hunks.map(index => ({
+        ...hunks[index],
+        startLine: span.startLine,
+        endLine: span.endLine,
+        conflictMarkers: span.markers,
+      }))
+    );
+  }
 
-      i++;
+  /**
+   * Reads the base, current and incoming blobs of a conflicted file from the index
+   */
+  private async readConflictVersions(filePath: string): Promise<ConflictVersions> {
+    const output = await this.git.raw(['ls-files', '-u', '-z', '--', filePath]);
+    const stages = new Set(
+      output
+        .split('\0')
+        .filter(Boolean)
+        .map(entry => Number(entry.split('\t')[0].split(' ')[2]))
+    );
+
+    const versions: ConflictVersions = {};
+    if (stages.has(1)) versions.base = await this.readIndexStage(filePath, 1);
+    if (stages.has(2)) versions.current = await this.readIndexStage(filePath, 2);
+    if (stages.has(3)) versions.incoming = await this.readIndexStage(filePath, 3);
+
+    return versions;
+  }
+
+  /**
+   * Reads a conflicted file's blob from an index stage (1 = base, 2 = ours, 3 = theirs)
+   */
+  private async readIndexStage(filePath: string, stage: 1 | 2 | 3): Promise<string | undefined> {
+    try {
+      return await this.git.show([`:${stage}:${filePath}`]);
+    } catch {
+      return undefined;
     }
+  }
 
-    return hunks;
+  /**
+   * Reads the conflict-marker-size attribute for a file, defaulting to git's 7
+   */
+  private async getConflictMarkerSize(filePath: string): Promise<number> {
+    const output = await this.git.raw(['check-attr', 'conflict-marker-size', '--', filePath]);
+    const size = Number.parseInt(output.trim().split(': ').pop() ?? '', 10);
+    return Number.isFinite(size) && size > 0 ? size : DEFAULT_MARKER_SIZE;
   }
 
   /**
-   * Detects the type of conflict based on file and content analysis
+   * Classifies, rates and explains a single conflict block
    */
-  private detectConflictType(_filePath: string, content: string): ConflictType {
-    // Check for import/require conflicts
-    if (content.includes('import ') || content.includes('require(')) {
-      return ConflictType.IMPORT;
+  private describeHunk(hunk: ConflictHunk): ConflictHunk {
+    const type = this.detectContentType(hunk.currentContent, hunk.incomingContent);
+    const lines = hunk.startLine === hunk.endLine ? `Line ${hunk.startLine}` : `Lines ${hunk.startLine}-${hunk.endLine}`;
+    let explanation: string;
+
+    switch (type) {
+      case ConflictType.WHITESPACE:
+        explanation = `${lines} differ only in whitespace.`;
+        break;
+      case ConflictType.IMPORT:
+        explanation = `${lines}: both sides changed import statements.`;
+        break;
+      case ConflictType.STRUCTURAL:
+        explanation = `${lines}: both sides changed a class, function, interface or enum declaration.`;
+        break;
+      default:
+        explanation = `${lines}: both sides changed the same lines.`;
     }
 
-    // Check for whitespace-only conflicts
-    const conflictBlocks = content.match(/<<<<<<< .*?\n(.*?)\n=======\n(.*?)\n>>>>>>> .*?\n/gs);
-    if (conflictBlocks) {
-      const hasOnlyWhitespace = conflictBlocks.every(block => {
-        const [, current, incoming] = block.match(/<<<<<<< .*?\n(.*?)\n=======\n(.*?)\n>>>>>>> .*?\n/s) || [];
-        return current?.replace(/\s+/g, ' ').trim() === incoming?.replace(/\s+/g, ' ').trim();
-      });
+    if (hunk.hasBase && mergeHunkThreeWay(hunk).clean) {
+      explanation += ' Each part was changed on only one side since the merge base.';
+    }
 
-      if (hasOnlyWhitespace) {
-        return ConflictType.WHITESPACE;
-      }
+    return {
+      ...hunk,
+      type,
+      complexity: analyzeConflictComplexity(hunk.currentContent, hunk.incomingContent),
+      explanation,
+    };
+  }
+
+  /**
+   * Detects the type of a file's conflict from its blocks. Files that mix kinds of
+   * blocks are content conflicts, unless a declaration is involved.
+   */
+  private detectConflictType(_filePath: string, content: string, hunks: ConflictHunk[]): ConflictType {
+    if (hunks.length === 0) {
+      return this.detectContentType(content, '');
+    }
+
+    const types = new Set(hunks.map(hunk => hunk.type ?? this.detectContentType(hunk.currentContent, hunk.incomingContent)));
+
+    if (types.size === 1) {
+      return [...types][0];
+    }
+
+    return types.has(ConflictType.STRUCTURAL) ? ConflictType.STRUCTURAL : ConflictType.CONTENT;
+  }
+
+  /**
+   * Detects the type of conflict between two versions of a block
+   */
+  private detectContentType(current: string, incoming: string): ConflictType {
+    // Check for whitespace-only conflicts
+    if (current.replace(/\s+/g, ' ').trim() === incoming.replace(/\s+/g, ' ').trim()) {
+      return ConflictType.WHITESPACE;
     }
 
-    // Check for structural changes (class, function declarations)
-    if (content.includes('class ') || content.includes('function ') || content.includes('interface ')) {
+    const conflictText = `${current}\n${incoming}`;
+
+    // Check for structural changes (class, function, interface declarations)
+    if (/\b(?:class|function|interface|enum)\s+[\w$]/.test(conflictText)) {
       return ConflictType.STRUCTURAL;
     }
 
+    // Check for import/require conflicts: every conflicting line must be an import
+    const conflictLines = conflictText.split('\n').filter(line => line.trim());
+    const onlyImports = conflictLines.every(
+      line => line.trim().startsWith('import ') || line.includes('require(')
+    );
+
+    if (conflictLines.length > 0 && onlyImports) {
+      return ConflictType.IMPORT;
+    }
+
     // Default to content conflict
     return ConflictType.CONTENT;
   }
@@ -215,8 +757,8 @@ export class GitAnalyzer {
   private determineOverallComplexity(hunks: ConflictHunk[]): ConflictComplexity {
     if (hunks.length === 0) return ConflictComplexity.TRIVIAL;
 
-    const complexities = hunks.map(hunk =>
-      analyzeConflictComplexity(hunk.currentContent, hunk.incomingContent)
+    const complexities = hunks.map(
+      hunk => hunk.complexity ?? analyzeConflictComplexity(hunk.currentContent, hunk.incomingContent)
     );
 
     // Return the highest complexity found
@@ -404,19 +946,80 @@ export class GitAnalyzer {
   }
 
   /**
-   * Gets commit history for rebase analysis
+   * Reads commits with the files each one changes and their line counts, in a
+   * single `git log --numstat` pass. A number is taken as the limit.
    */
-  async getCommitHistory(limit: number = 10): Promise<GitCommit[]> {
-    const log = await this.git.log({ maxCount: limit });
-
-    return log.all.map((commit): GitCommit => ({
-      hash: commit.hash,
-      author: commit.author_name,
-      date: commit.date,
-      message: commit.message,
-      files: [], // Would need additional git call to get files
-      insertions: 0, // Would need additional parsing
-      deletions: 0, // Would need additional parsing
-    }));
+  async getCommitHistory(options: number | CommitHistoryOptions = 10): Promise<GitCommit[]> {
+    const filters: CommitHistoryOptions = typeof options === 'number' ? { limit: options } : options;
+    const { limit, range, paths, since, until, firstParent, noMerges, reverse, renames = true } = filters;
+
+    const output = await this.git.raw([
+      'log',
+      '-z',
+      '--numstat',
+      '--format=%x1e%H%x1f%an%x1f%aI%x1f%B%x1f',
+      renames ? '--find-renames' : '--no-renames',
+      ...(limit !== undefined ? [`--max-count=${limit}`] : []),
+      ...(filters.author ? [`--author=${filters.author}`] : []),
+      ...(since ? [`--since=${since}`] : []),
+      ...(until ? [`--until=${until}`] : []),
+      ...(firstParent ? ['--first-parent', '--diff-merges=first-parent'] : []),
+      ...(noMerges ? ['--no-merges'] : []),
+      ...(reverse ? ['--reverse'] : []),
+      range ?? 'HEAD',
+      '--',
+      ...(paths ?? []),
+    ]);
+
+    return output
+      .split('\x1e')
+      .filter(Boolean)
+      .map(record => {
+        const [hash, author, date, message, stats = ''] = record.split('\x1f');
+        const fileStats = parseNumstat(stats);
+
+        return {
+          hash,
+          author,
+          date,
+          message: message.trim(),
+          files: fileStats.map(stat => stat.path),
+          insertions: fileStats.reduce((total, stat) => total + stat.insertions, 0),
+          deletions: fileStats.reduce((total, stat) => total + stat.deletions, 0),
+          fileStats,
+        };
+      });
+  }
+}
+
+/**
+ * Parses `git log -z --numstat` lines. A rename leaves the path empty and
+ * follows with the old and new paths; binary files count "-" lines.
+ */
+export function parseNumstat(stats: string): GitFileStat[] {
+  const fields = stats.split('\0').map(field => field.replace(/^\n/, ''));
+  const files: GitFileStat[] = [];
+
+  for (let index = 0; index < fields.length; index++) {
+    const [insertions, deletions, file] = fields[index].split('\t');
+    if (deletions === undefined) {
+      continue;
+    }
+
+    const binary = insertions === '-' && deletions === '-';
+    const stat: GitFileStat = {
+      path: file,
+      insertions: binary ? 0 : Number(insertions),
+      deletions: binary ? 0 : Number(deletions),
+      binary,
+    };
+
+    if (file === '') {
+      stat.oldPath = fields[++index];
+      stat.path = fields[++index];
+    }
+    files.push(stat);
   }
+
+  return files;
 }
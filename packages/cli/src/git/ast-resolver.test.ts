@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+
+import { ASTConflictResolver } from './ast-resolver';
+
+const merge = (base: string, current: string, incoming: string, filePath = 'app.ts') =>
+  new ASTConflictResolver().mergeVersions(filePath, { base, current, incoming });
+
+describe('ASTConflictResolver.mergeVersions', () => {
+  it('keeps declarations added on each side', () => {
+    const result = merge(
+      'export function a() {}\n',
+      'export function a() {}\n\nexport function b() {}\n',
+      'export function a() {}\n\nexport function c() {}\n'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.fileContent).toContain('function b()');
+    expect(result.fileContent).toContain('function c()');
+  });
+
+  describe('functions', () => {
+    it('merges edits to different statements of a function body', () => {
+      const result = merge(
+        'function f() {\n  a();\n  b();\n  c();\n}\n',
+        'function f() {\n  a0();\n  a();\n  b();\n  c();\n}\n',
+        'function f() {\n  a();\n  b();\n  c();\n  d();\n}\n'
+      );
+
+      expect(result.fileContent).toBe('function f() {\n  a0();\n  a();\n  b();\n  c();\n  d();\n}\n');
+      expect(result.notes).toEqual(['Merged the edits to function f statement by statement']);
+    });
+
+    it('conflicts instead of bringing back a statement one side deleted next to an addition', () => {
+      const result = merge(
+        'function f() {\n  a();\n  b();\n}\n',
+        'function f() {\n  b();\n}\n',
+        'function f() {\n  a();\n  x();\n  b();\n}\n'
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts).toEqual(['function f was changed on both sides']);
+    });
+
+    it('conflicts when both sides change the same statement', () => {
+      const result = merge('function f() {\n  a();\n}\n', 'function f() {\n  a(1);\n}\n', 'function f() {\n  a(2);\n}\n');
+
+      expect(result.conflicts).toEqual(['function f was changed on both sides']);
+    });
+  });
+
+  describe('classes', () => {
+    const base = 'class A {\n  m() {\n    a();\n    b();\n    c();\n  }\n}\n';
+
+    it('merges methods member by member', () => {
+      const result = merge(
+        base,
+        'class A {\n  m() {\n    a();\n    b();\n    c();\n    d();\n  }\n}\n',
+        'class A {\n  m() {\n    a();\n    b();\n    c();\n  }\n  n() {}\n}\n'
+      );
+
+      expect(result.fileContent).toBe('class A {\n  m() {\n    a();\n    b();\n    c();\n    d();\n  }\n  n() {}\n}\n');
+    });
+
+    it('merges a method changed on both sides statement by statement, taking the one changed signature', () => {
+      const result = merge(
+        base,
+        'class A {\n  m() {\n    z();\n    a();\n    b();\n    c();\n  }\n}\n',
+        'class A {\n  m(x) {\n    a();\n    b();\n    c();\n    y();\n  }\n}\n'
+      );
+
+      expect(result.fileContent).toBe('class A {\n  m(x) {\n    z();\n    a();\n    b();\n    c();\n    y();\n  }\n}\n');
+    });
+  });
+
+  describe('enums', () => {
+    it('conflicts when both sides add members numbered implicitly', () => {
+      const result = merge('enum E {\n  A,\n}\n', 'enum E {\n  A,\n  B,\n}\n', 'enum E {\n  A,\n  C,\n}\n');
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts).toEqual([
+        'enum E: both sides added members, and merging `B`, `C` without explicit values would renumber them',
+      ]);
+    });
+
+    it('merges members added with explicit values', () => {
+      const result = merge(
+        'enum E {\n  A = 0,\n}\n',
+        'enum E {\n  A = 0,\n  B = 1,\n}\n',
+        'enum E {\n  A = 0,\n  C = 2,\n}\n'
+      );
+
+      expect(result.fileContent).toBe('enum E {\n  A = 0,\n  B = 1,\n  C = 2,\n}\n');
+    });
+
+    it('keeps members added on one side only', () => {
+      const result = merge('enum E {\n  A,\n}\n', 'enum E {\n  A,\n  B,\n}\n', 'enum E {\n  A,\n}\nconst z = 1;\n');
+
+      expect(result.fileContent).toBe('enum E {\n  A,\n  B,\n}\nconst z = 1;\n');
+    });
+  });
+
+  it('merges interfaces member by member', () => {
+    const result = merge(
+      'interface User {\n  id: string;\n}\n',
+      'interface User {\n  id: string;\n  name: string;\n}\n',
+      'interface User {\n  id: string;\n  email: string;\n}\n'
+    );
+
+    expect(result.fileContent).toBe('interface User {\n  id: string;\n  name: string;\n  email: string;\n}\n');
+  });
+
+  it('parses JSX in .tsx files', () => {
+    const result = merge(
+      'export const A = () => <div />;\n',
+      'export const A = () => <div />;\nexport const B = () => <span />;\n',
+      'export const A = () => <div />;\nexport const C = () => <p />;\n',
+      'view.tsx'
+    );
+
+    expect(result.success).toBe(true);
+  });
+});
@@ -1,292 +1,456 @@
-import { parse } from '@babel/parser';
-import traverse from '@babel/traverse';
-import generate from '@babel/generator';
+import * as path from 'path';
+import { parse, ParserPlugin } from '@babel/parser';
 import * as t from '@babel/types';
-import { GitConflict, ConflictHunk } from '@smugit/shared';
-import { extractClassDeclarations, mergeClassDeclarations, extractOtherStatements } from './class-merger';
+import { GitConflict, ConflictHunk, ConflictVersions } from '@smugit/shared';
+import {
+  DeclarationSide,
+  memberStart,
+  mergeClassDeclarations,
+  mergeFunctionBodies,
+  mergeKeyedSources,
+  MergeReport,
+  normalizedCode,
+  SourceNode,
+  toSourceNodes,
+} from './class-merger';
+import {
+  mergeEnumDeclarations,
+  mergeInterfaceDeclarations,
+  mergeObjectLiterals,
+  mergeTypeAliasDeclarations,
+  objectLiteralOf,
+} from './declaration-merger';
 
 export interface ASTResolutionResult {
   success: boolean;
   resolvedContent?: string;
+  /** The whole merged file, when the conflict carried index-stage versions */
+  fileContent?: string;
+  /** Resolved text for each hunk, in order */
+  hunkContents?: string[];
+  notes?: string[];
+  /** Declarations or members both sides changed in ways that cannot be combined */
+  conflicts?: string[];
   error?: string;
 }
 
+const TYPESCRIPT_EXTENSIONS = new Set(['.ts', '.mts', '.cts']);
+const TSX_EXTENSIONS = new Set(['.tsx']);
+const JAVASCRIPT_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs']);
+
+/**
+ * Checks whether a file can be parsed as JavaScript or TypeScript
+ */
+export function isScriptFile(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return TYPESCRIPT_EXTENSIONS.has(extension) || TSX_EXTENSIONS.has(extension) || JAVASCRIPT_EXTENSIONS.has(extension);
+}
+
+/**
+ * Picks Babel parser plugins by extension. JSX stays off for `.ts` files, where
+ * `<T>value` is a type assertion rather than an element.
+ */
+export function getParserPlugins(filePath: string): ParserPlugin[] {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (TYPESCRIPT_EXTENSIONS.has(extension)) {
+    return ['typescript', 'decorators-legacy'];
+  }
+
+  if (TSX_EXTENSIONS.has(extension)) {
+    return ['typescript', 'jsx', 'decorators-legacy'];
+  }
+
+  return ['jsx', 'decorators-legacy'];
+}
+
+type StatementSource = SourceNode<t.Statement>;
+
 export class ASTConflictResolver {
   /**
-   * Attempts to resolve a structural conflict using AST analysis
+   * Attempts to resolve a structural conflict using AST analysis. Whole-file
+   * versions from the index are merged in one pass, which also covers hunks that
+   * are fragments of a class body; otherwise each hunk is merged on its own.
    */
   async resolveStructuralConflict(conflict: GitConflict): Promise<ASTResolutionResult> {
-    try {
-      // For now, handle single hunk conflicts (most common case)
-      if (conflict.hunks.length !== 1) {
-        return {
-          success: false,
-          error: 'Multi-hunk AST resolution not yet supported',
-        };
+    const plugins = getParserPlugins(conflict.file);
+
+    if (conflict.versions) {
+      const merged = this.mergeVersions(conflict.file, conflict.versions);
+
+      // Member-level clashes found in the whole file are what a person has to decide
+      if (merged.success || merged.conflicts?.length) {
+        return merged;
       }
+    }
 
-      const hunk = conflict.hunks[0];
-      return this.resolveHunkWithAST(hunk);
-    } catch (error) {
+    if (conflict.hunks.length === 0) {
       return {
         success: false,
-        error: `AST resolution failed: ${error}`,
+        error: 'No conflict hunks to merge',
       };
     }
-  }
 
-  /**
-   * Resolves a single conflict hunk using AST analysis
-   */
-  private async resolveHunkWithAST(hunk: ConflictHunk): Promise<ASTResolutionResult> {
-    try {
-      // Clean up the content by converting literal \n to actual newlines
-      const cleanCurrentContent = this.cleanConflictContent(hunk.currentContent);
-      const cleanIncomingContent = this.cleanConflictContent(hunk.incomingContent);
+    const hunkContents: string[] = [];
+    const notes: string[] = [];
 
-      const currentAST = this.parseCode(cleanCurrentContent);
-      const incomingAST = this.parseCode(cleanIncomingContent);
+    for (const [index, hunk] of conflict.hunks.entries()) {
+      const result = this.resolveHunkWithAST(hunk, plugins);
 
-      if (!currentAST || !incomingAST) {
+      if (!result.success || result.resolvedContent === undefined) {
         return {
           success: false,
-          error: 'Failed to parse conflict content as JavaScript',
+          conflicts: result.conflicts,
+          error: `Hunk ${index + 1}: ${result.error ?? 'could not be merged'}`,
         };
       }
 
-      // Attempt intelligent merge of declarations
-      const mergedAST = this.mergeDeclarations(currentAST, incomingAST);
+      hunkContents.push(result.resolvedContent);
+      notes.push(...(result.notes ?? []));
+    }
 
-      if (mergedAST) {
-        const resolvedCode = generate(mergedAST).code;
-        return {
-          success: true,
-          resolvedContent: resolvedCode,
-        };
-      }
+    return {
+      success: true,
+      resolvedContent: hunkContents.length === 1 ? hunkContents[0] : undefined,
+      hunkContents,
+      notes,
+    };
+  }
 
+  /**
+   * Merges whole-file versions declaration by declaration. On failure the result
+   * lists the declarations or members both sides changed incompatibly.
+   */
+  mergeVersions(filePath: string, versions: ConflictVersions): ASTResolutionResult {
+    if (versions.current === undefined || versions.incoming === undefined) {
+      return { success: false, error: 'Both sides of the file are needed' };
+    }
+
+    const merged = this.mergeSources(versions.base, versions.current, versions.incoming, getParserPlugins(filePath));
+
+    if (merged.content === undefined) {
+      return { success: false, conflicts: merged.conflicts, error: merged.error };
+    }
+
+    return { success: true, fileContent: merged.content, notes: merged.notes };
+  }
+
+  /**
+   * Checks that a whole file still parses after resolution
+   */
+  isValidSource(code: string, filePath: string): boolean {
+    return this.parseCode(code, getParserPlugins(filePath)) !== null;
+  }
+
+  /**
+   * Resolves a single conflict hunk by merging its top-level statements
+   */
+  private resolveHunkWithAST(hunk: ConflictHunk, plugins: ParserPlugin[]): ASTResolutionResult {
+    const merged = this.mergeSources(
+      hunk.hasBase ? hunk.baseContent : undefined,
+      hunk.currentContent,
+      hunk.incomingContent,
+      plugins
+    );
+
+    if (merged.content === undefined) {
       return {
         success: false,
-        error: 'No resolution strategy found for this structural conflict',
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `AST processing error: ${error}`,
+        conflicts: merged.conflicts,
+        error: merged.error,
       };
     }
+
+    return {
+      success: true,
+      resolvedContent: merged.content,
+      notes: merged.notes,
+    };
   }
 
   /**
-   * Cleans conflict content by converting literal escape sequences to actual characters
+   * Merges three versions of a piece of code statement by statement, keeping the
+   * spacing and comments around each statement from the side it came from
    */
-  private cleanConflictContent(content: string): string {
-    return content
-      .replace(/\\n/g, '\n')
-      .replace(/\\t/g, '\t')
-      .replace(/\\r/g, '\r')
-      .trim();
+  private mergeSources(
+    base: string | undefined,
+    current: string,
+    incoming: string,
+    plugins: ParserPlugin[]
+  ): MergeReport & { content?: string; error?: string } {
+    const currentAST = this.parseCode(current, plugins);
+    const incomingAST = this.parseCode(incoming, plugins);
+    const report: MergeReport = { notes: [], conflicts: [] };
+
+    if (!currentAST || !incomingAST) {
+      return { ...report, error: 'Conflict sides are not complete statements' };
+    }
+
+    // Without a parseable base, statements only on one side are treated as additions
+    const baseAST = base === undefined ? null : this.parseCode(base, plugins);
+    const currentStatements = this.toStatements(currentAST, current);
+    const incomingStatements = this.toStatements(incomingAST, incoming);
+
+    const merged = mergeKeyedSources(
+      baseAST && base !== undefined ? this.toStatements(baseAST, base) : undefined,
+      currentStatements,
+      incomingStatements,
+      (currentEntry, incomingEntry, baseEntry) => this.mergeDeclarations(currentEntry, incomingEntry, baseEntry, report),
+      key => report.conflicts.push(`\`${this.describeStatementKey(key)}\` was removed on one side and changed on the other`)
+    );
+
+    if (!merged) {
+      return { ...report, error: 'Both sides changed the same declaration in ways that cannot be combined' };
+    }
+
+    const gaps = new Map([...this.statementGaps(incomingStatements), ...this.statementGaps(currentStatements)]);
+    const first = currentStatements[0];
+    const last = currentStatements[currentStatements.length - 1];
+    const leading = first ? current.slice(0, memberStart(first.node)) : '';
+    const trailing = last ? current.slice(last.node.end ?? current.length) : current;
+
+    const body = merged
+      .map((entry, index) => `${index === 0 ? '' : gaps.get(entry.key) ?? '\n\n'}${entry.source}`)
+      .join('');
+
+    return { ...report, content: `${leading}${body}${trailing}` };
   }
 
   /**
-   * Safely parses JavaScript code into AST
+   * Whitespace before each statement, so merged output keeps blank-line grouping
    */
-  private parseCode(code: string): t.File | null {
+  private statementGaps(statements: StatementSource[]): Array<[string, string]> {
+    return statements.slice(1).map((statement, index) => {
+      const previousEnd = statements[index].node.end ?? 0;
+      return [statement.key, statement.origin.slice(previousEnd, memberStart(statement.node))];
+    });
+  }
+
+  /**
+   * Safely parses JavaScript or TypeScript code into AST
+   */
+  private parseCode(code: string, plugins: ParserPlugin[]): t.File | null {
     try {
       return parse(code, {
         sourceType: 'module',
         allowImportExportEverywhere: true,
         allowReturnOutsideFunction: true,
-        plugins: [
-          'jsx',
-          'typescript',
-          'decorators-legacy',
-          'objectRestSpread',
-          'functionBind',
-          'asyncGenerators',
-          'functionSent',
-          'dynamicImport',
-        ],
+        plugins,
       });
-    } catch (error) {
-      console.warn('Failed to parse as JavaScript:', error);
+    } catch {
       return null;
     }
   }
 
+  private toStatements(ast: t.File, origin: string): StatementSource[] {
+    return toSourceNodes(ast.program.body, origin, statement => this.statementKey(statement));
+  }
+
   /**
-   * Merges all declarations from two ASTs intelligently
+   * Names a top-level statement so the same declaration pairs up across sides
    */
-  private mergeDeclarations(currentAST: t.File, incomingAST: t.File): t.File | null {
-    try {
-      // Try to merge class declarations first (most common case)
-      const currentClasses = extractClassDeclarations(currentAST);
-      const incomingClasses = extractClassDeclarations(incomingAST);
-
-      if (currentClasses.length > 0 || incomingClasses.length > 0) {
-        const mergedClasses = mergeClassDeclarations(currentClasses, incomingClasses);
-        if (mergedClasses.length > 0) {
-          // Also get any other top-level declarations (exports, etc.)
-          const otherStatements = extractOtherStatements(currentAST, incomingAST);
-
-          const mergedAST = t.file(
-            t.program([...mergedClasses, ...otherStatements], [], 'module'),
-            [],
-            []
-          );
-          return mergedAST;
-        }
-      }
+  private statementKey(statement: t.Statement): string {
+    if (t.isImportDeclaration(statement)) {
+      return `import:${statement.importKind ?? 'value'}:${statement.source.value}`;
+    }
 
-      // Fall back to function declaration merging
-      return this.mergeFunctionDeclarations(currentAST, incomingAST);
-    } catch (error) {
-      console.warn('Declaration merge failed:', error);
-      return null;
+    if (t.isExportDefaultDeclaration(statement)) {
+      return 'export:default';
     }
-  }
 
-  /**
-   * Merges function declarations from two ASTs intelligently
-   */
-  private mergeFunctionDeclarations(currentAST: t.File, incomingAST: t.File): t.File | null {
-    try {
-      // Extract function declarations from both sides
-      const currentFunctions = this.extractFunctionDeclarations(currentAST);
-      const incomingFunctions = this.extractFunctionDeclarations(incomingAST);
-
-      // Find functions with the same name
-      const functionsByName = new Map<string, {
-        current?: t.FunctionDeclaration;
-        incoming?: t.FunctionDeclaration;
-      }>();
-
-      currentFunctions.forEach(func => {
-        const name = func.id?.name || 'anonymous';
-        functionsByName.set(name, { current: func });
-      });
+    const declaration = this.unwrapExport(statement);
 
-      incomingFunctions.forEach(func => {
-        const name = func.id?.name || 'anonymous';
-        const existing = functionsByName.get(name);
-        if (existing) {
-          existing.incoming = func;
-        } else {
-          functionsByName.set(name, { incoming: func });
-        }
-      });
+    if ((t.isClassDeclaration(declaration) || t.isFunctionDeclaration(declaration)) && declaration.id) {
+      return `${t.isClassDeclaration(declaration) ? 'class' : 'function'}:${declaration.id.name}`;
+    }
 
-      // Try to merge functions with same name
-      const mergedFunctions: t.FunctionDeclaration[] = [];
-
-      for (const [name, { current, incoming }] of functionsByName) {
-        if (current && incoming) {
-          // Both sides have the function - try to merge
-          const merged = this.mergeFunctionSignatures(current, incoming);
-          if (merged) {
-            mergedFunctions.push(merged);
-          } else {
-            // Can't merge - use a heuristic (prefer incoming for now)
-            mergedFunctions.push(incoming);
-          }
-        } else if (current) {
-          mergedFunctions.push(current);
-        } else if (incoming) {
-          mergedFunctions.push(incoming);
-        }
-      }
+    if (t.isTSDeclareFunction(declaration) && declaration.id) {
+      return `function-overload:${declaration.id.name}`;
+    }
 
-      // Create new AST with merged functions
-      const mergedAST = t.file(
-        t.program(mergedFunctions, [], 'module'),
-        [],
-        []
-      );
+    if (t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration) || t.isTSEnumDeclaration(declaration)) {
+      return `type:${declaration.id.name}`;
+    }
 
-      return mergedAST;
-    } catch (error) {
-      console.warn('Function merge failed:', error);
-      return null;
+    if (t.isVariableDeclaration(declaration)) {
+      const names = declaration.declarations.map(declarator => normalizedCode(declarator.id));
+      return `var:${names.join(',')}`;
+    }
+
+    return `stmt:${normalizedCode(statement)}`;
+  }
+
+  private unwrapExport(statement: t.Statement): t.Node {
+    if (t.isExportNamedDeclaration(statement) && statement.declaration) {
+      return statement.declaration;
     }
+    return statement;
   }
 
   /**
-   * Extracts function declarations from an AST
+   * Merges a declaration both sides changed. Returns null when it cannot be
+   * combined, recording why in the report.
    */
-  private extractFunctionDeclarations(ast: t.File): t.FunctionDeclaration[] {
-    const functions: t.FunctionDeclaration[] = [];
+  private mergeDeclarations(
+    current: StatementSource,
+    incoming: StatementSource,
+    base: StatementSource | undefined,
+    report: MergeReport
+  ): string | null {
+    const label = this.describeStatementKey(current.key);
+
+    // Adding or dropping `export` on one side is not something to guess about
+    if (current.node.type !== incoming.node.type) {
+      report.conflicts.push(`\`${label}\` was exported on one side only and changed on the other`);
+      return null;
+    }
 
-    traverse(ast, {
-      FunctionDeclaration(path) {
-        functions.push(path.node);
-      },
-    });
+    const sideOf = <T extends t.Node>(entry: StatementSource, is: (node: t.Node) => node is T) => {
+      const declaration = this.unwrapExport(entry.node);
+      return is(declaration) ? { declaration, statement: entry.node, origin: entry.origin } : undefined;
+    };
+    const sides = <T extends t.Node>(is: (node: t.Node) => node is T) => {
+      const currentSide = sideOf(current, is);
+      const incomingSide = sideOf(incoming, is);
+      return currentSide && incomingSide
+        ? ([currentSide, incomingSide, base ? sideOf(base, is) : undefined] as const)
+        : undefined;
+    };
+
+    const classes = sides(t.isClassDeclaration);
+    if (classes) {
+      return mergeClassDeclarations(...classes, report);
+    }
 
-    return functions;
-  }
+    const interfaces = sides(t.isTSInterfaceDeclaration);
+    if (interfaces) {
+      return mergeInterfaceDeclarations(...interfaces, report);
+    }
 
-  /**
-   * Attempts to merge two function signatures intelligently
-   */
-  private mergeFunctionSignatures(
-    current: t.FunctionDeclaration,
-    incoming: t.FunctionDeclaration
-  ): t.FunctionDeclaration | null {
-    try {
-      // Check if they have the same name
-      const currentName = current.id?.name;
-      const incomingName = incoming.id?.name;
+    const enums = sides(t.isTSEnumDeclaration);
+    if (enums) {
+      return mergeEnumDeclarations(...enums, report);
+    }
 
-      if (currentName !== incomingName) {
-        return null;
-      }
+    const typeAliases = sides(t.isTSTypeAliasDeclaration);
+    if (typeAliases) {
+      return mergeTypeAliasDeclarations(...typeAliases, report);
+    }
 
-      // Merge parameters - prefer incoming if they added parameters
-      const currentParams = current.params.length;
-      const incomingParams = incoming.params.length;
+    const functions = sides(t.isFunctionDeclaration);
+    if (functions) {
+      return this.mergeFunctionDeclarations(...functions, report);
+    }
 
-      let mergedFunction: t.FunctionDeclaration;
+    if (t.isImportDeclaration(current.node) && t.isImportDeclaration(incoming.node)) {
+      return this.mergeImportSpecifiers(current.node, incoming.node, report);
+    }
 
-      if (incomingParams >= currentParams) {
-        // Incoming has same or more parameters - use incoming
-        mergedFunction = { ...incoming };
-      } else {
-        // Current has more parameters - use current
-        mergedFunction = { ...current };
+    const objects = this.objectLiteralSides(current, incoming, base);
+    if (objects) {
+      const merged = mergeObjectLiterals(...objects, label, report);
+      if (merged !== null) {
+        report.notes.push(`Merged ${label} property by property`);
       }
+      return merged;
+    }
 
-      // Try to merge function bodies if they're simple additions
-      const mergedBody = this.mergeFunctionBodies(current.body, incoming.body);
-      if (mergedBody) {
-        mergedFunction.body = mergedBody;
-      }
+    report.conflicts.push(`\`${label}\` was changed on both sides`);
+    return null;
+  }
 
-      return mergedFunction;
-    } catch (error) {
-      console.warn('Function signature merge failed:', error);
+  /**
+   * Pairs up `const x = { ... }` or `export default { ... }` statements whose
+   * text outside the object literal is the same on both sides
+   */
+  private objectLiteralSides(
+    current: StatementSource,
+    incoming: StatementSource,
+    base: StatementSource | undefined
+  ): [DeclarationSide<t.ObjectExpression>, DeclarationSide<t.ObjectExpression>, DeclarationSide<t.ObjectExpression> | undefined] | undefined {
+    const sideOf = (entry: StatementSource): DeclarationSide<t.ObjectExpression> | undefined => {
+      const object = objectLiteralOf(this.unwrapExport(entry.node));
+      return object ? { declaration: object, statement: entry.node, origin: entry.origin } : undefined;
+    };
+    const outline = (side: DeclarationSide<t.ObjectExpression>) =>
+      side.origin.slice(side.statement.start ?? 0, side.declaration.start ?? 0) +
+      side.origin.slice(side.declaration.end ?? 0, side.statement.end ?? 0);
+
+    const currentSide = sideOf(current);
+    const incomingSide = sideOf(incoming);
+
+    if (!currentSide || !incomingSide || outline(currentSide).replace(/\s+/g, ' ') !== outline(incomingSide).replace(/\s+/g, ' ')) {
+      return undefined;
+    }
+
+    return [currentSide, incomingSide, base ? sideOf(base) : undefined];
+  }
+
+  /**
+   * Turns a statement key back into something readable, e.g. `class:Foo` -> `class Foo`
+   */
+  private describeStatementKey(key: string): string {
+    const [kind, ...rest] = key.replace(/#\d+$/, '').split(':');
+    const name = rest.join(':');
+
+    switch (kind) {
+      case 'import':
+        return `import from '${rest.slice(1).join(':')}'`;
+      case 'export':
+        return 'export default';
+      case 'class':
+      case 'function':
+      case 'type':
+        return `${kind} ${name}`;
+      case 'function-overload':
+        return `function ${name}`;
+      case 'var':
+        return name;
+      default:
+        return name.length > 40 ? `${name.slice(0, 37)}...` : name;
+    }
+  }
+
+  /**
+   * Merges a function both sides edited statement by statement against the base
+   */
+  private mergeFunctionDeclarations(
+    current: DeclarationSide<t.FunctionDeclaration>,
+    incoming: DeclarationSide<t.FunctionDeclaration>,
+    base: DeclarationSide<t.FunctionDeclaration> | undefined,
+    report: MergeReport
+  ): string | null {
+    const name = `function ${current.declaration.id?.name ?? 'declaration'}`;
+    const merged = mergeFunctionBodies(current, incoming, base);
+
+    if (merged === null) {
+      report.conflicts.push(`${name} was changed on both sides`);
       return null;
     }
+
+    report.notes.push(`Merged the edits to ${name} statement by statement`);
+    return merged;
   }
 
   /**
-   * Attempts to merge function bodies
+   * Combines the specifiers of two imports from the same module
    */
-  private mergeFunctionBodies(
-    currentBody: t.BlockStatement,
-    incomingBody: t.BlockStatement
-  ): t.BlockStatement | null {
-    try {
-      // Simple heuristic: if one body is a subset of the other, use the larger one
-      const currentStmts = currentBody.body.length;
-      const incomingStmts = incomingBody.body.length;
-
-      // For now, just return the larger function body
-      // In the future, we could do more sophisticated merging
-      return incomingStmts >= currentStmts ? incomingBody : currentBody;
-    } catch (error) {
-      console.warn('Function body merge failed:', error);
+  private mergeImportSpecifiers(
+    current: t.ImportDeclaration,
+    incoming: t.ImportDeclaration,
+    report: MergeReport
+  ): string | null {
+    const localNames = new Set(current.specifiers.map(specifier => specifier.local.name));
+    const added = incoming.specifiers.filter(specifier => !localNames.has(specifier.local.name));
+
+    const hasNamespace = [...current.specifiers, ...added].some(specifier => t.isImportNamespaceSpecifier(specifier));
+    if (hasNamespace && current.specifiers.length + added.length > 1) {
+      report.conflicts.push(`imports from '${current.source.value}' mix a namespace import with named imports`);
       return null;
     }
+
+    report.notes.push(`Combined imports from '${current.source.value}'`);
+    return normalizedCode({ ...current, specifiers: [...current.specifiers, ...added] });
   }
 
   /**
@@ -294,9 +458,9 @@ export class ASTConflictResolver {
    */
   isFunctionConflict(hunk: ConflictHunk): boolean {
     const hasCurrentFunction = hunk.currentContent.includes('function ') ||
-                               hunk.currentContent.match(/\w+\s*\([^)]*\)\s*\{/);
+                               /\w+\s*\([^)]*\)\s*\{/.test(hunk.currentContent);
     const hasIncomingFunction = hunk.incomingContent.includes('function ') ||
-                                hunk.incomingContent.match(/\w+\s*\([^)]*\)\s*\{/);
+                                /\w+\s*\([^)]*\)\s*\{/.test(hunk.incomingContent);
 
     return hasCurrentFunction && hasIncomingFunction;
   }
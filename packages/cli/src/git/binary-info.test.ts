@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatBytes, isLockfile, lockfileInstallCommand, looksBinary, readImageDimensions } from './binary-info';
+
+/** The PNG signature and the start of an IHDR chunk */
+function pngHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(24);
+  header.writeUInt32BE(0x89504e47, 0);
+  header.writeUInt32BE(0x0d0a1a0a, 4);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+describe('isLockfile', () => {
+  it('recognizes lockfiles by name in any directory', () => {
+    expect(isLockfile('package-lock.json')).toBe(true);
+    expect(isLockfile('packages/web/yarn.lock')).toBe(true);
+    expect(isLockfile('pnpm-lock.yaml')).toBe(true);
+    expect(isLockfile('package.json')).toBe(false);
+  });
+
+  it('names the install that regenerates each lockfile', () => {
+    expect(lockfileInstallCommand('apps/site/package-lock.json')).toBe('npm install');
+    expect(lockfileInstallCommand('yarn.lock')).toBe('yarn install');
+    expect(lockfileInstallCommand('pnpm-lock.yaml')).toBe('pnpm install');
+    expect(lockfileInstallCommand('Cargo.lock')).toBeUndefined();
+  });
+});
+
+describe('looksBinary', () => {
+  it('goes by extension, then by a NUL byte in the content', () => {
+    expect(looksBinary('logo.PNG')).toBe(true);
+    expect(looksBinary('data.bin', Buffer.from([1, 0, 2]))).toBe(true);
+    expect(looksBinary('notes.txt', Buffer.from('plain text'))).toBe(false);
+    expect(looksBinary('notes.txt')).toBe(false);
+  });
+});
+
+describe('readImageDimensions', () => {
+  it('reads PNG, GIF and JPEG headers', () => {
+    expect(readImageDimensions(pngHeader(640, 480))).toEqual({ width: 640, height: 480 });
+
+    const gif = Buffer.from('GIF89a\x20\x00\x10\x00', 'latin1');
+    expect(readImageDimensions(gif)).toEqual({ width: 32, height: 16 });
+
+    // SOI, an APP0 segment, then a baseline start-of-frame with height 200 and width 300
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0xc8, 0x01, 0x2c, 0x03,
+    ]);
+    expect(readImageDimensions(jpeg)).toEqual({ width: 300, height: 200 });
+  });
+
+  it('returns undefined for anything else', () => {
+    expect(readImageDimensions(Buffer.from('not an image at all, really'))).toBeUndefined();
+  });
+});
+
+describe('formatBytes', () => {
+  it('picks a unit', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.0 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
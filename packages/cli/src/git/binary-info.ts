@@ -0,0 +1,87 @@
+import * as path from 'path';
+
+// Lockfile names with the install that regenerates each
+const LOCKFILE_INSTALLS = new Map([
+  ['package-lock.json', 'npm install'],
+  ['npm-shrinkwrap.json', 'npm install'],
+  ['yarn.lock', 'yarn install'],
+  ['pnpm-lock.yaml', 'pnpm install'],
+]);
+
+const BINARY_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.bmp', '.avif',
+  '.woff', '.woff2', '.ttf', '.otf', '.eot',
+  '.pdf', '.zip', '.gz', '.tgz', '.jar', '.wasm', '.mp3', '.mp4', '.mov',
+]);
+
+/**
+ * Checks whether a file is a package manager lockfile that should be regenerated
+ */
+export function isLockfile(filePath: string): boolean {
+  return LOCKFILE_INSTALLS.has(path.basename(filePath));
+}
+
+/**
+ * The package manager command that rewrites a lockfile to match its manifest
+ */
+export function lockfileInstallCommand(filePath: string): string | undefined {
+  return LOCKFILE_INSTALLS.get(path.basename(filePath));
+}
+
+/**
+ * Uses git's heuristic (a NUL byte in the first 8000 bytes) plus known binary extensions
+ */
+export function looksBinary(filePath: string, content?: Buffer): boolean {
+  if (BINARY_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    return true;
+  }
+
+  return content !== undefined && content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Reads width and height from PNG, GIF or JPEG headers
+ */
+export function readImageDimensions(content: Buffer): { width: number; height: number } | undefined {
+  // PNG: signature then IHDR with big-endian width/height
+  if (content.length >= 24 && content.readUInt32BE(0) === 0x89504e47) {
+    return { width: content.readUInt32BE(16), height: content.readUInt32BE(20) };
+  }
+
+  // GIF: "GIF8" then little-endian logical screen size
+  if (content.length >= 10 && content.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: content.readUInt16LE(6), height: content.readUInt16LE(8) };
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (content.length >= 4 && content[0] === 0xff && content[1] === 0xd8) {
+    let offset = 2;
+
+    while (offset + 9 < content.length) {
+      if (content[offset] !== 0xff) {
+        return undefined;
+      }
+
+      const marker = content[offset + 1];
+      const length = content.readUInt16BE(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+      if (isStartOfFrame) {
+        return { width: content.readUInt16BE(offset + 7), height: content.readUInt16BE(offset + 5) };
+      }
+
+      offset += 2 + length;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Formats a byte count for display
+ */
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { CHECKPOINT_REF_PREFIX, CheckpointManager } from './checkpoints';
+import { TestRepo, conflictedMerge } from './test-repo';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+const mergeWithConflict = () =>
+  conflictedMerge({ 'app.txt': 'a\nb\nc\n' }, { 'app.txt': 'a\nB1\nc\n' }, { 'app.txt': 'a\nB2\nc\n' });
+
+describe('CheckpointManager', () => {
+  it('records the working tree, the index stages and the merge state under refs/smugit/checkpoints', async () => {
+    repo = mergeWithConflict();
+    repo.write('notes.txt', 'untracked\n');
+    const mergeHead = repo.git('rev-parse', 'MERGE_HEAD').trim();
+
+    const checkpoint = await new CheckpointManager(repo.path).create('before fixing');
+
+    expect(checkpoint.ref).toBe(`${CHECKPOINT_REF_PREFIX}${checkpoint.id}`);
+    expect(repo.git('rev-parse', checkpoint.ref).trim()).toBe(checkpoint.commit);
+    expect(checkpoint).toMatchObject({ label: 'before fixing', kind: 'manual', branch: 'main', conflictedFiles: ['app.txt'] });
+
+    expect(repo.git('ls-tree', '--name-only', `${checkpoint.commit}:index`).split('\n').filter(Boolean)).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+    expect(repo.git('show', `${checkpoint.commit}:index/2/app.txt`)).toBe('a\nB1\nc\n');
+    expect(repo.git('show', `${checkpoint.commit}:worktree/app.txt`)).toBe(repo.read('app.txt'));
+    expect(repo.git('show', `${checkpoint.commit}:worktree/notes.txt`)).toBe('untracked\n');
+
+    const state = JSON.parse(repo.git('show', `${checkpoint.commit}:state.json`));
+    expect(state).toMatchObject({ version: 1, conflictedFiles: ['app.txt'] });
+    expect(state.stateFiles.MERGE_HEAD.trim()).toBe(mergeHead);
+    // The commit being merged stays reachable through the checkpoint
+    expect(repo.git('rev-list', '--parents', '-n', '1', checkpoint.commit)).toContain(mergeHead);
+  });
+
+  it('restores a resolved file, its conflict stages and the merge state', async () => {
+    repo = mergeWithConflict();
+    const manager = new CheckpointManager(repo.path);
+    const conflicted = repo.read('app.txt');
+    const checkpoint = await manager.create();
+
+    repo.write('app.txt', 'a\nB\nc\n');
+    repo.write('extra.txt', 'added after the checkpoint\n');
+    repo.git('add', '-A');
+
+    const safety = await manager.restore(checkpoint);
+
+    expect(repo.read('app.txt')).toBe(conflicted);
+    expect(repo.exists('extra.txt')).toBe(false);
+    expect(repo.git('ls-files', '-u').split('\n').filter(Boolean)).toHaveLength(3);
+    expect(repo.git('rev-parse', '-q', '--verify', 'MERGE_HEAD').trim()).toMatch(/^[0-9a-f]{40}$/);
+    expect(repo.status()).toEqual(['UU app.txt']);
+
+    expect(safety.kind).toBe('pre-restore');
+    expect((await manager.find('latest')).id).toBe(checkpoint.id);
+  });
+
+  it('puts back a merge that was committed only when forced', async () => {
+    repo = mergeWithConflict();
+    const manager = new CheckpointManager(repo.path);
+    const checkpoint = await manager.create();
+
+    repo.write('app.txt', 'a\nB\nc\n');
+    repo.git('add', 'app.txt');
+    repo.git('commit', '-q', '--no-edit');
+
+    await expect(manager.restore(checkpoint)).rejects.toThrow('HEAD moved since checkpoint');
+
+    await manager.restore(checkpoint, { force: true });
+
+    expect(repo.git('rev-parse', 'HEAD').trim()).toBe(checkpoint.head);
+    expect(repo.status()).toEqual(['UU app.txt']);
+    expect(repo.exists('.git/MERGE_HEAD')).toBe(true);
+  });
+});
@@ -0,0 +1,445 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+
+export const CHECKPOINT_REF_PREFIX = 'refs/smugit/checkpoints/';
+
+/** Files in the git directory that describe a merge, cherry-pick or revert in progress */
+const OPERATION_STATE_FILES = ['MERGE_HEAD', 'MERGE_MSG', 'MERGE_MODE', 'AUTO_MERGE', 'CHERRY_PICK_HEAD', 'REVERT_HEAD'];
+
+// Checkpoint commits are private bookkeeping, so they never depend on user.name being set
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'smugit',
+  GIT_AUTHOR_EMAIL: 'smugit@localhost',
+  GIT_COMMITTER_NAME: 'smugit',
+  GIT_COMMITTER_EMAIL: 'smugit@localhost',
+};
+
+/**
+ * `auto` checkpoints are taken before smugit changes files, `pre-restore` ones
+ * right before a restore so it can be reverted too
+ */
+export type CheckpointKind = 'manual' | 'auto' | 'pre-restore';
+
+export interface Checkpoint {
+  id: string;
+  ref: string;
+  commit: string;
+  label: string;
+  kind: CheckpointKind;
+  createdAt: Date;
+  head?: string;
+  branch?: string;
+  /** Paths with unmerged index entries when the checkpoint was taken */
+  conflictedFiles: string[];
+}
+
+export interface RestoreOptions {
+  /** Move HEAD back when commits were made since the checkpoint */
+  force?: boolean;
+}
+
+interface CheckpointState {
+  version: 1;
+  label: string;
+  kind: CheckpointKind;
+  createdAt: string;
+  head?: string;
+  branch?: string;
+  conflictedFiles: string[];
+  /** Contents of MERGE_HEAD, MERGE_MSG and friends, keyed by file name */
+  stateFiles: Record<string, string>;
+}
+
+interface IndexEntry {
+  mode: string;
+  object: string;
+  stage: number;
+  path: string;
+}
+
+/**
+ * Snapshots the working tree, the index (conflict stages included) and the state of
+ * an operation in progress into `refs/smugit/checkpoints/*`, without touching HEAD.
+ *
+ * A checkpoint commit's tree holds `worktree/` (the files on disk), `index/<stage>/`
+ * (every index entry, which also keeps the stage blobs reachable) and `state.json`.
+ */
+export class CheckpointManager {
+  private git: SimpleGit;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.git = simpleGit(repoPath);
+  }
+
+  /**
+   * Records the current working tree, index and operation state
+   */
+  async create(label: string = 'checkpoint', kind: CheckpointKind = 'manual'): Promise<Checkpoint> {
+    const gitDir = await this.getGitDir();
+    const head = await this.revParse('HEAD');
+    const branch = await this.currentBranch();
+    const stateFiles = await this.readStateFiles(gitDir);
+
+    const indexEntries = await this.readIndexEntries();
+    const conflictedFiles = [...new Set(indexEntries.filter(entry => entry.stage > 0).map(entry => entry.path))];
+
+    const state: CheckpointState = {
+      version: 1,
+      label,
+      kind,
+      createdAt: new Date().toISOString(),
+      ...(head ? { head } : {}),
+      ...(branch ? { branch } : {}),
+      conflictedFiles,
+      stateFiles,
+    };
+
+    const worktreeTree = await this.writeWorktreeTree(gitDir);
+    const indexTree = await this.writeIndexTree(gitDir, indexEntries);
+    const stateBlob = (await this.runGit(['hash-object', '-w', '--stdin'], { input: `${JSON.stringify(state, null, 2)}\n` })).trim();
+    const tree = (
+      await this.runGit(['mktree'], {
+        input: [
+          `040000 tree ${indexTree}\tindex`,
+          `100644 blob ${stateBlob}\tstate.json`,
+          `040000 tree ${worktreeTree}\tworktree`,
+        ].join('\n') + '\n',
+      })
+    ).trim();
+
+    // Parents keep HEAD and the commits being merged reachable for as long as the checkpoint exists
+    const parents = await this.operationCommits(head, stateFiles);
+    const commit = (
+      await this.runGit(
+        ['commit-tree', tree, ...parents.flatMap(parent => ['-p', parent]), '-m', `smugit checkpoint: ${label}`],
+        { env: CHECKPOINT_IDENTITY }
+      )
+    ).trim();
+
+    const id = await this.nextId(new Date(state.createdAt));
+    const ref = `${CHECKPOINT_REF_PREFIX}${id}`;
+    await this.git.raw(['update-ref', '-m', `smugit: checkpoint ${label}`, ref, commit]);
+
+    return this.toCheckpoint(id, commit, state);
+  }
+
+  /**
+   * Lists checkpoints, newest first
+   */
+  async list(): Promise<Checkpoint[]> {
+    const output = await this.git.raw([
+      'for-each-ref',
+      '--sort=-refname',
+      '--format=%(refname)%00%(objectname)',
+      CHECKPOINT_REF_PREFIX,
+    ]);
+
+    const checkpoints: Checkpoint[] = [];
+
+    for (const line of output.split('\n').filter(Boolean)) {
+      const [ref, commit] = line.split('\0');
+      const state = await this.readState(commit);
+
+      if (state) {
+        checkpoints.push(this.toCheckpoint(ref.slice(CHECKPOINT_REF_PREFIX.length), commit, state));
+      }
+    }
+
+    return checkpoints;
+  }
+
+  /**
+   * Finds a checkpoint by id (or unique id prefix). `latest` is the newest one that
+   * was not taken automatically before a restore.
+   */
+  async find(id: string): Promise<Checkpoint> {
+    const checkpoints = await this.list();
+
+    if (id === 'latest') {
+      const latest = checkpoints.find(checkpoint => checkpoint.kind !== 'pre-restore');
+      if (!latest) {
+        throw new Error('No checkpoints found');
+      }
+      return latest;
+    }
+
+    const exact = checkpoints.find(checkpoint => checkpoint.id === id);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = checkpoints.filter(checkpoint => checkpoint.id.startsWith(id));
+    if (matches.length !== 1) {
+      throw new Error(matches.length === 0 ? `No checkpoint named ${id}` : `Checkpoint id ${id} is ambiguous`);
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * Puts the working tree, index and operation state back exactly as recorded.
+   * The current state is checkpointed first and returned, so the restore can be undone.
+   */
+  async restore(checkpoint: Checkpoint, options: RestoreOptions = {}): Promise<Checkpoint> {
+    const state = await this.readState(checkpoint.commit);
+    if (!state) {
+      throw new Error(`Checkpoint ${checkpoint.id} is unreadable`);
+    }
+
+    const branch = await this.currentBranch();
+    if (state.branch && branch !== state.branch) {
+      throw new Error(`Checkpoint ${checkpoint.id} was taken on ${state.branch}; switch back to it first`);
+    }
+
+    const head = await this.revParse('HEAD');
+    if (head !== state.head && !options.force) {
+      throw new Error(
+        `HEAD moved since checkpoint ${checkpoint.id} was taken. Re-run with --force to move it back to ${state.head?.slice(0, 7) ?? 'an unborn branch'}.`
+      );
+    }
+
+    const gitDir = await this.getGitDir();
+    const safety = await this.create(`before restoring ${checkpoint.id}`, 'pre-restore');
+
+    if (state.head && head !== state.head) {
+      await this.git.raw(['update-ref', '-m', `smugit: restore checkpoint ${checkpoint.id}`, 'HEAD', state.head]);
+    }
+
+    await this.restoreWorktree(gitDir, checkpoint.commit, safety.commit);
+    await this.restoreIndex(checkpoint.commit);
+    await this.restoreStateFiles(gitDir, state.stateFiles);
+
+    return safety;
+  }
+
+  /**
+   * Deletes all but the newest `keep` checkpoints. Returns the deleted ones.
+   */
+  async prune(keep: number = 0): Promise<Checkpoint[]> {
+    const stale = (await this.list()).slice(Math.max(keep, 0));
+
+    for (const checkpoint of stale) {
+      await this.git.raw(['update-ref', '-d', checkpoint.ref]);
+    }
+
+    return stale;
+  }
+
+  private async writeWorktreeTree(gitDir: string): Promise<string> {
+    // Start from a copy of the real index so unchanged files are not re-hashed
+    const indexFile = await this.tempIndexPath(gitDir);
+    await fs.copyFile(path.join(gitDir, 'index'), indexFile).catch(() => undefined);
+
+    try {
+      const env = { GIT_INDEX_FILE: indexFile };
+      await this.runGit(['add', '-A', '--', '.'], { env });
+      return (await this.runGit(['write-tree'], { env })).trim();
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  private async writeIndexTree(gitDir: string, entries: IndexEntry[]): Promise<string> {
+    const indexFile = await this.tempIndexPath(gitDir);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      if (entries.length > 0) {
+        const input = entries.map(entry => `${entry.mode} ${entry.object}\t${entry.stage}/${entry.path}`).join('\n');
+        await this.runGit(['update-index', '--add', '--index-info'], { env, input: `${input}\n` });
+      }
+      return (await this.runGit(['write-tree'], { env })).trim();
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  private async restoreWorktree(gitDir: string, commit: string, currentCommit: string): Promise<void> {
+    // Files that exist now but not in the checkpoint go away
+    const added = await this.git.raw([
+      'diff-tree', '-r', '-z', '--name-only', '--no-renames', '--diff-filter=A',
+      `${commit}:worktree`, `${currentCommit}:worktree`,
+    ]);
+    const topLevel = await this.getTopLevel();
+
+    for (const file of added.split('\0').filter(Boolean)) {
+      await fs.rm(path.join(topLevel, file), { force: true });
+    }
+
+    const indexFile = await this.tempIndexPath(gitDir);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      await this.runGit(['read-tree', `${commit}:worktree`], { env });
+      await this.runGit(['checkout-index', '-a', '-f'], { env });
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  private async restoreIndex(commit: string): Promise<void> {
+    const listing = await this.git.raw(['ls-tree', '-r', '-z', '--full-tree', `${commit}:index`]);
+    const lines = listing
+      .split('\0')
+      .filter(Boolean)
+      .map(line => {
+        const [info, entryPath] = line.split('\t');
+        const [mode, , object] = info.split(' ');
+        const separator = entryPath.indexOf('/');
+        return `${mode} ${object} ${entryPath.slice(0, separator)}\t${entryPath.slice(separator + 1)}`;
+      });
+
+    await this.git.raw(['read-tree', '--empty']);
+    if (lines.length > 0) {
+      await this.runGit(['update-index', '--index-info'], { input: `${lines.join('\n')}\n` });
+    }
+
+    // Refresh stat data so restored files do not show up as modified; exits 1 while conflicts remain
+    await this.runGit(['update-index', '-q', '--refresh']).catch(() => undefined);
+  }
+
+  private async restoreStateFiles(gitDir: string, stateFiles: Record<string, string>): Promise<void> {
+    for (const name of OPERATION_STATE_FILES) {
+      const filePath = path.join(gitDir, name);
+
+      if (stateFiles[name] !== undefined) {
+        await fs.writeFile(filePath, stateFiles[name], 'utf-8');
+      } else {
+        await fs.rm(filePath, { force: true });
+      }
+    }
+  }
+
+  private async readStateFiles(gitDir: string): Promise<Record<string, string>> {
+    const stateFiles: Record<string, string> = {};
+
+    for (const name of OPERATION_STATE_FILES) {
+      const content = await fs.readFile(path.join(gitDir, name), 'utf-8').catch(() => undefined);
+      if (content !== undefined) {
+        stateFiles[name] = content;
+      }
+    }
+
+    return stateFiles;
+  }
+
+  private async readIndexEntries(): Promise<IndexEntry[]> {
+    const output = await this.git.raw(['ls-files', '-s', '-z']);
+
+    return output
+      .split('\0')
+      .filter(Boolean)
+      .map(line => {
+        const [info, entryPath] = line.split('\t');
+        const [mode, object, stage] = info.split(' ');
+        return { mode, object, stage: Number(stage), path: entryPath };
+      });
+  }
+
+  private async readState(commit: string): Promise<CheckpointState | undefined> {
+    try {
+      const state = JSON.parse(await this.git.raw(['cat-file', 'blob', `${commit}:state.json`])) as CheckpointState;
+      return state.version === 1 ? state : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async operationCommits(head: string | undefined, stateFiles: Record<string, string>): Promise<string[]> {
+    const commits = [
+      head,
+      ...['MERGE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD'].flatMap(name => (stateFiles[name] ?? '').split('\n')),
+    ]
+      .map(value => value?.trim())
+      .filter((value): value is string => Boolean(value && /^[0-9a-f]{40,64}$/.test(value)));
+
+    return [...new Set(commits)];
+  }
+
+  private toCheckpoint(id: string, commit: string, state: CheckpointState): Checkpoint {
+    return {
+      id,
+      ref: `${CHECKPOINT_REF_PREFIX}${id}`,
+      commit,
+      label: state.label,
+      kind: state.kind,
+      createdAt: new Date(state.createdAt),
+      head: state.head,
+      branch: state.branch,
+      conflictedFiles: state.conflictedFiles,
+    };
+  }
+
+  /**
+   * Ids are sortable timestamps, e.g. 2024-05-01T10-20-30-123Z
+   */
+  private async nextId(createdAt: Date): Promise<string> {
+    const base = createdAt.toISOString().replace(/[:.]/g, '-');
+    let id = base;
+
+    for (let attempt = 1; await this.revParse(`${CHECKPOINT_REF_PREFIX}${id}`); attempt++) {
+      id = `${base}-${attempt}`;
+    }
+
+    return id;
+  }
+
+  private async revParse(rev: string): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['rev-parse', '--verify', '-q', rev])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async currentBranch(): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['symbolic-ref', '-q', '--short', 'HEAD'])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async getGitDir(): Promise<string> {
+    return (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+  }
+
+  private async getTopLevel(): Promise<string> {
+    return (await this.git.raw(['rev-parse', '--show-toplevel'])).trim();
+  }
+
+  private async tempIndexPath(gitDir: string): Promise<string> {
+    const directory = path.join(gitDir, 'smugit');
+    await fs.mkdir(directory, { recursive: true });
+    return path.join(directory, `checkpoint-index-${process.pid}`);
+  }
+
+  /**
+   * Runs git from the top of the work tree with extra environment or stdin,
+   * which simple-git does not pass through
+   */
+  private async runGit(args: string[], options: { env?: Record<string, string>; input?: string } = {}): Promise<string> {
+    const cwd = await this.getTopLevel();
+
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        'git',
+        args,
+        { cwd, env: { ...process.env, ...options.env }, maxBuffer: 64 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+
+      // Git may exit before reading stdin; its exit status reports any real problem
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(options.input);
+    });
+  }
+}
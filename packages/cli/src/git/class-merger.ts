@@ -1,165 +1,425 @@
-import traverse from '@babel/traverse';
-import generate from '@babel/generator';
+import babelGenerate from '@babel/generator';
 import * as t from '@babel/types';
 
+import { isCleanMerge, mergeThreeWay } from './three-way-merge';
+
+// @babel/generator is CommonJS; depending on the loader the default export may still be wrapped
+const generate =
+  (babelGenerate as unknown as { default?: typeof babelGenerate }).default ?? babelGenerate;
+
 /**
- * Extracts class declarations from an AST
+ * A keyed piece of source (a statement or a member) taken from one side of a conflict
  */
-export function extractClassDeclarations(ast: t.File): t.ClassDeclaration[] {
-  const classes: t.ClassDeclaration[] = [];
+export interface KeyedSource {
+  key: string;
+  /** Generated code without comments or formatting, used for comparisons */
+  code: string;
+  /** Original text including leading comments */
+  source: string;
+}
 
-  traverse(ast, {
-    ClassDeclaration(path) {
-      classes.push(path.node);
-    },
-  });
+/**
+ * A node together with the full text of the side it was parsed from
+ */
+export interface SourceNode<T extends t.Node = t.Node> extends KeyedSource {
+  node: T;
+  origin: string;
+}
 
-  return classes;
+export interface MergedSource {
+  key: string;
+  source: string;
 }
 
+export type BothChangedMerger<T extends KeyedSource> = (
+  current: T,
+  incoming: T,
+  base: T | undefined
+) => string | null;
+
 /**
- * Merges class declarations intelligently by combining unique methods and properties
+ * Returns the code of a node without comments, so formatting changes compare equal
  */
-export function mergeClassDeclarations(
-  currentClasses: t.ClassDeclaration[],
-  incomingClasses: t.ClassDeclaration[]
-): t.ClassDeclaration[] {
-  const classesByName = new Map<string, {
-    current?: t.ClassDeclaration;
-    incoming?: t.ClassDeclaration;
-  }>();
-
-  // Group classes by name
-  currentClasses.forEach(cls => {
-    const name = cls.id?.name || 'anonymous';
-    classesByName.set(name, { current: cls });
-  });
+export function normalizedCode(node: t.Node): string {
+  return generate(node, { comments: false }).code;
+}
 
-  incomingClasses.forEach(cls => {
-    const name = cls.id?.name || 'anonymous';
-    const existing = classesByName.get(name);
-    if (existing) {
-      existing.incoming = cls;
-    } else {
-      classesByName.set(name, { incoming: cls });
-    }
-  });
+/**
+ * Slices a node out of its source text, including its leading comments
+ */
+export function sourceOf(node: t.Node, origin: string): string {
+  return origin.slice(memberStart(node), node.end ?? origin.length);
+}
 
-  const mergedClasses: t.ClassDeclaration[] = [];
-
-  for (const [_name, { current, incoming }] of classesByName) {
-    if (current && incoming) {
-      // Both sides have the class - merge their members
-      const merged = mergeClassMembers(current, incoming);
-      mergedClasses.push(merged);
-    } else if (current) {
-      mergedClasses.push(current);
-    } else if (incoming) {
-      mergedClasses.push(incoming);
-    }
-  }
+/**
+ * Wraps nodes as keyed sources. Repeated keys (overloads, duplicate statements)
+ * get an occurrence suffix so they still pair up in order.
+ */
+export function toSourceNodes<T extends t.Node>(
+  nodes: T[],
+  origin: string,
+  keyOf: (node: T) => string
+): SourceNode<T>[] {
+  const seen = new Map<string, number>();
+
+  return nodes.map(node => {
+    const baseKey = keyOf(node);
+    const occurrence = seen.get(baseKey) ?? 0;
+    seen.set(baseKey, occurrence + 1);
 
-  return mergedClasses;
+    return {
+      key: occurrence === 0 ? baseKey : `${baseKey}#${occurrence}`,
+      code: normalizedCode(node),
+      source: sourceOf(node, origin),
+      node,
+      origin,
+    };
+  });
 }
 
 /**
- * Merges members (methods and properties) from two class declarations
+ * Merges two keyed lists against an optional base. Entries changed on one side
+ * take that side; entries changed on both sides go to `mergeBoth`. Returns the
+ * merged sources in order, or null when something cannot be merged.
  */
-function mergeClassMembers(
-  current: t.ClassDeclaration,
-  incoming: t.ClassDeclaration
-): t.ClassDeclaration {
-  const membersByKey = new Map<string, t.ClassMethod | t.ClassProperty>();
+export function mergeKeyedSources<T extends KeyedSource>(
+  base: T[] | undefined,
+  current: T[],
+  incoming: T[],
+  mergeBoth: BothChangedMerger<T>,
+  onRemovedAndChanged?: (key: string) => void
+): MergedSource[] | null {
+  const baseByKey = new Map((base ?? []).map(entry => [entry.key, entry]));
+  const currentByKey = new Map(current.map(entry => [entry.key, entry]));
+  const incomingByKey = new Map(incoming.map(entry => [entry.key, entry]));
+
+  // Keep current order and slot incoming-only entries in after their incoming
+  // neighbour, behind anything current added at the same spot
+  const keys = current.map(entry => entry.key);
+  let anchor = -1;
 
-  // Helper to get a unique key for a class member
-  const getMemberKey = (member: t.ClassMethod | t.ClassProperty): string | null => {
-    if (t.isClassMethod(member) && t.isIdentifier(member.key)) {
-      return `method:${member.key.name}`;
-    } else if (t.isClassProperty(member) && t.isIdentifier(member.key)) {
-      return `property:${member.key.name}`;
+  for (const { key } of incoming) {
+    const existing = keys.indexOf(key);
+    if (existing !== -1) {
+      anchor = existing;
+      continue;
     }
-    return null;
-  };
 
-  // Collect all members from current class
-  current.body.body.forEach((member) => {
-    if (t.isClassMethod(member) || t.isClassProperty(member)) {
-      const key = getMemberKey(member);
-      if (key) {
-        membersByKey.set(key, member);
-      }
+    let position = anchor + 1;
+    while (position < keys.length && !incomingByKey.has(keys[position])) {
+      position++;
     }
-  });
 
-  // Add/override with members from incoming class
-  incoming.body.body.forEach((member) => {
-    if (t.isClassMethod(member) || t.isClassProperty(member)) {
-      const key = getMemberKey(member);
-      if (key) {
-        const existing = membersByKey.get(key);
-        if (existing) {
-          // Both sides have this member - prefer the one with more complexity
-          if (t.isClassMethod(existing) && t.isClassMethod(member)) {
-            const existingStmts = existing.body.body.length;
-            const incomingStmts = member.body.body.length;
-            membersByKey.set(key, incomingStmts >= existingStmts ? member : existing);
-          } else {
-            // For properties, prefer incoming
-            membersByKey.set(key, member);
-          }
-        } else {
-          // Only in incoming - add it
-          membersByKey.set(key, member);
+    keys.splice(position, 0, key);
+    anchor = position;
+  }
+
+  const merged: MergedSource[] = [];
+
+  for (const key of keys) {
+    const currentEntry = currentByKey.get(key);
+    const incomingEntry = incomingByKey.get(key);
+    const baseEntry = baseByKey.get(key);
+
+    if (currentEntry && incomingEntry) {
+      if (currentEntry.code === incomingEntry.code || baseEntry?.code === incomingEntry.code) {
+        merged.push({ key, source: currentEntry.source });
+      } else if (baseEntry?.code === currentEntry.code) {
+        merged.push({ key, source: incomingEntry.source });
+      } else {
+        const result = mergeBoth(currentEntry, incomingEntry, baseEntry);
+        if (result === null) {
+          return null;
         }
+        merged.push({ key, source: result });
       }
+      continue;
     }
+
+    const onlyEntry = (currentEntry ?? incomingEntry)!;
+
+    if (baseEntry) {
+      // Unchanged on the side that has it means the other side deleted it
+      if (baseEntry.code === onlyEntry.code) {
+        continue;
+      }
+
+      // Deleted on one side, edited on the other
+      onRemovedAndChanged?.(key);
+      return null;
+    }
+
+    merged.push({ key, source: onlyEntry.source });
+  }
+
+  return merged;
+}
+
+/**
+ * Rebuilds a braced declaration (class, interface, enum, object literal) around a
+ * new member list, keeping the current side's header, indentation and spacing
+ */
+export function renderBracedMembers(
+  declaration: { start?: number | null; end?: number | null },
+  body: { start?: number | null; end?: number | null },
+  members: t.Node[],
+  origin: string,
+  mergedMembers: string[],
+  separator: string = ''
+): string {
+  const start = declaration.start ?? 0;
+  const end = declaration.end ?? origin.length;
+  const bodyStart = body.start ?? start;
+  const bodyEnd = body.end ?? end;
+
+  const header = origin.slice(start, bodyStart + 1);
+  const footer = origin.slice(bodyEnd - 1, end);
+  const outerIndent = lineIndent(origin, start);
+
+  if (mergedMembers.length === 0) {
+    return `${header}${footer}`;
+  }
+
+  const singleLine = !origin.slice(bodyStart, bodyEnd).includes('\n');
+  if (singleLine) {
+    return `${header} ${mergedMembers.join(`${separator} `)} ${footer}`;
+  }
+
+  const indent = members.length > 0 ? lineIndent(origin, memberStart(members[0])) : `${outerIndent}  `;
+  const blankLines =
+    members.length > 1 && /\n[ \t]*\n/.test(origin.slice(members[0].end ?? 0, memberStart(members[1])));
+  const lineBreak = blankLines ? '\n\n' : '\n';
+  const trailingSeparator =
+    separator && members.length > 0 && origin.slice(members[members.length - 1].end ?? 0, bodyEnd).includes(separator);
+
+  const lines = mergedMembers.map((member, index) => {
+    const isLast = index === mergedMembers.length - 1;
+    return `${indent}${member}${!isLast || trailingSeparator ? separator : ''}`;
   });
 
-  // Create merged class with all unique members
-  const mergedClass: t.ClassDeclaration = {
-    ...current,
-    body: t.classBody(Array.from(membersByKey.values())),
-  };
+  return `${header}\n${lines.join(lineBreak)}\n${outerIndent}${footer}`;
+}
+
+/**
+ * Start offset of a node, including its leading comments
+ */
+export function memberStart(member: t.Node): number {
+  return Math.min(member.start ?? 0, ...(member.leadingComments ?? []).map(comment => comment.start ?? Infinity));
+}
+
+export function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * Names a class member for pairing across sides
+ */
+function classMemberKey(member: t.ClassBody['body'][number]): string {
+  const isStatic = 'static' in member && member.static ? 'static ' : '';
+
+  if (t.isClassMethod(member) || t.isClassPrivateMethod(member) || t.isTSDeclareMethod(member)) {
+    return `method:${isStatic}${member.kind}:${propertyName(member.key, member.computed)}`;
+  }
 
-  return mergedClass;
+  if (t.isClassProperty(member) || t.isClassPrivateProperty(member) || t.isClassAccessorProperty(member)) {
+    const computed = 'computed' in member ? member.computed : false;
+    return `property:${isStatic}${propertyName(member.key, computed)}`;
+  }
+
+  return `member:${normalizedCode(member)}`;
+}
+
+/**
+ * Readable name for a property key, e.g. `foo`, `"foo-bar"`, `#secret` or `[Symbol.iterator]`
+ */
+export function propertyName(key: t.Node, computed: boolean = false): string {
+  if (computed) return `[${normalizedCode(key)}]`;
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isPrivateName(key)) return `#${key.id.name}`;
+  if (t.isStringLiteral(key) || t.isNumericLiteral(key)) return String(key.value);
+  return normalizedCode(key);
+}
+
+/**
+ * One side of a declaration that both branches changed
+ */
+export interface DeclarationSide<T extends t.Node = t.Node> {
+  declaration: T;
+  /** The whole top-level statement, including any `export` wrapper */
+  statement: t.Node;
+  origin: string;
+}
+
+/**
+ * Collects explanations of what was merged and what could not be
+ */
+export interface MergeReport {
+  notes: string[];
+  conflicts: string[];
+}
+
+/**
+ * Picks the side whose header (name, extends, modifiers) the merged declaration
+ * keeps. Returns undefined when both sides changed the header differently.
+ */
+export function pickHeaderSide<T extends t.Node>(
+  current: DeclarationSide<T>,
+  incoming: DeclarationSide<T>,
+  base: DeclarationSide<T> | undefined,
+  headerOf: (declaration: T) => string
+): DeclarationSide<T> | undefined {
+  const currentHeader = headerOf(current.declaration);
+  const incomingHeader = headerOf(incoming.declaration);
+
+  if (currentHeader === incomingHeader) return current;
+  if (!base) return undefined;
+
+  const baseHeader = headerOf(base.declaration);
+  if (baseHeader === incomingHeader) return current;
+  if (baseHeader === currentHeader) return incoming;
+  return undefined;
+}
+
+/**
+ * Strips the label prefix from a member key for messages, e.g. `property:name` -> `name`
+ */
+export function memberLabel(key: string): string {
+  return key.slice(key.lastIndexOf(':') + 1);
+}
+
+/**
+ * Merges two versions of a class member by member. Methods changed on both sides
+ * are merged statement by statement against the base.
+ */
+export function mergeClassDeclarations(
+  current: DeclarationSide<t.ClassDeclaration>,
+  incoming: DeclarationSide<t.ClassDeclaration>,
+  base: DeclarationSide<t.ClassDeclaration> | undefined,
+  report: MergeReport
+): string | null {
+  const name = `class ${current.declaration.id?.name ?? 'declaration'}`;
+  const layout = pickHeaderSide(current, incoming, base, normalizedClassHeader);
+
+  // Header edits (extends, implements, decorators) on both sides are not merged
+  if (!layout) {
+    report.conflicts.push(`${name}: the class header changed on both sides`);
+    return null;
+  }
+
+  const members = mergeKeyedSources(
+    base ? toSourceNodes(base.declaration.body.body, base.origin, classMemberKey) : undefined,
+    toSourceNodes(current.declaration.body.body, current.origin, classMemberKey),
+    toSourceNodes(incoming.declaration.body.body, incoming.origin, classMemberKey),
+    (currentMember, incomingMember, baseMember) => {
+      const merged = mergeMethods(currentMember, incomingMember, baseMember);
+      if (merged === null) {
+        report.conflicts.push(`${name}: \`${memberLabel(currentMember.key)}\` was changed on both sides`);
+      }
+      return merged;
+    },
+    key => report.conflicts.push(`${name}: \`${memberLabel(key)}\` was removed on one side and changed on the other`)
+  );
+
+  if (!members) {
+    return null;
+  }
+
+  report.notes.push(`Merged ${name} member by member`);
+
+  return renderBracedMembers(
+    { start: memberStart(layout.statement), end: layout.statement.end },
+    layout.declaration.body,
+    layout.declaration.body.body,
+    layout.origin,
+    members.map(member => member.source)
+  );
+}
+
+function normalizedClassHeader(declaration: t.ClassDeclaration): string {
+  return normalizedCode({ ...declaration, body: t.classBody([]) });
+}
+
+/**
+ * Merges a method both sides edited, when both are still methods with a body
+ */
+function mergeMethods(current: SourceNode, incoming: SourceNode, base: SourceNode | undefined): string | null {
+  const sideOf = (member: SourceNode): DeclarationSide<t.ClassMethod | t.ClassPrivateMethod> | undefined =>
+    t.isClassMethod(member.node) || t.isClassPrivateMethod(member.node)
+      ? { declaration: member.node, statement: member.node, origin: member.origin }
+      : undefined;
+
+  const currentSide = sideOf(current);
+  const incomingSide = sideOf(incoming);
+  if (!currentSide || !incomingSide) {
+    return null;
+  }
+
+  return mergeFunctionBodies(currentSide, incomingSide, base ? sideOf(base) : undefined);
 }
 
+type FunctionWithBody = t.FunctionDeclaration | t.ClassMethod | t.ClassPrivateMethod;
+
 /**
- * Extracts other top-level statements (exports, etc.)
+ * Merges two edited versions of a function statement by statement against the
+ * base, the way a line merge treats lines: statements changed on one side take
+ * that side, including deletions. Returns null without a base, when both sides
+ * changed the signature differently, or when they changed the same statements.
  */
-export function extractOtherStatements(currentAST: t.File, incomingAST: t.File): t.Statement[] {
-  const statements: t.Statement[] = [];
-  const seen = new Set<string>();
+export function mergeFunctionBodies<T extends FunctionWithBody>(
+  current: DeclarationSide<T>,
+  incoming: DeclarationSide<T>,
+  base: DeclarationSide<T> | undefined
+): string | null {
+  if (!base) {
+    return null;
+  }
+
+  const layout = pickHeaderSide(current, incoming, base, normalizedFunctionHeader);
+  if (!layout) {
+    return null;
+  }
 
-  // Helper to get statement key for deduplication
-  const getStatementKey = (stmt: t.Statement): string => {
-    if (t.isExportDefaultDeclaration(stmt)) {
-      return 'export:default';
-    } else if (t.isExportNamedDeclaration(stmt)) {
-      return `export:named:${generate(stmt).code}`;
-    } else if (t.isVariableDeclaration(stmt)) {
-      const names = stmt.declarations.map(d =>
-        t.isIdentifier(d.id) ? d.id.name : 'unknown'
-      ).join(',');
-      return `var:${names}`;
+  const statementsOf = (side: DeclarationSide<T>) =>
+    side.declaration.body.body.map(statement => ({
+      code: normalizedCode(statement),
+      source: sourceOf(statement, side.origin),
+    }));
+  const sides = { current: statementsOf(current), incoming: statementsOf(incoming) };
+  const codes = (statements: { code: string }[]) => statements.map(statement => statement.code);
+
+  const regions = mergeThreeWay(codes(statementsOf(base)), codes(sides.current), codes(sides.incoming));
+  if (!isCleanMerge(regions)) {
+    return null;
+  }
+
+  // Take each statement's text from the side it came from, in that side's order
+  const cursors = { current: 0, incoming: 0 };
+  const take = (side: 'current' | 'incoming', code: string) => {
+    const statements = sides[side];
+    let index = cursors[side];
+    while (index < statements.length && statements[index].code !== code) {
+      index++;
     }
-    return `stmt:${generate(stmt).code}`;
+    cursors[side] = index + 1;
+    return statements[index].source;
   };
 
-  [currentAST, incomingAST].forEach(ast => {
-    ast.program.body.forEach(stmt => {
-      // Skip class and function declarations (handled separately)
-      if (t.isClassDeclaration(stmt) || t.isFunctionDeclaration(stmt)) {
-        return;
-      }
+  const merged = regions.flatMap(region =>
+    region.kind === 'stable'
+      ? region.lines.map(code => take(region.origin === 'incoming' ? 'incoming' : 'current', code))
+      : []
+  );
 
-      const key = getStatementKey(stmt);
-      if (!seen.has(key)) {
-        seen.add(key);
-        statements.push(stmt);
-      }
-    });
-  });
+  return renderBracedMembers(
+    { start: memberStart(layout.statement), end: layout.statement.end },
+    layout.declaration.body,
+    layout.declaration.body.body,
+    layout.origin,
+    merged
+  );
+}
 
-  return statements;
+function normalizedFunctionHeader(declaration: FunctionWithBody): string {
+  return normalizedCode({ ...declaration, body: t.blockStatement([]) });
 }
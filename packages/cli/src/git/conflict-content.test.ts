@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictComplexity, ConflictType, ConflictVersions, GitConflict } from '@smugit/shared';
+
+import {
+  buildHunksFromRegions,
+  mergeConflictVersions,
+  parseConflictHunks,
+  renderConflictedContent,
+  renderResolvedContent,
+} from './conflict-content';
+
+function conflictOf(versions: ConflictVersions): GitConflict {
+  return {
+    file: 'app.txt',
+    type: ConflictType.CONTENT,
+    complexity: ConflictComplexity.SIMPLE,
+    hunks: buildHunksFromRegions(mergeConflictVersions(versions)!, true),
+    autoResolvable: false,
+    versions,
+  };
+}
+
+const readWorkingTree = (content: string) => async () => content;
+
+// Two blocks far enough apart that git writes them separately
+const separate = conflictOf({
+  base: 'a\nb\nc\nd\ne\nf\ng\nh\n',
+  current: 'a\nB1\nc\nd\ne\nf\nG1\nh\n',
+  incoming: 'a\nB2\nc\nd\ne\nf\nG2\nh\n',
+});
+
+const separateWorkingTree = [
+  'a',
+  '<<<<<<< HEAD',
+  'B1',
+  '=======',
+  'B2',
+  '>>>>>>> feature',
+  'c',
+  'd',
+  'e',
+  'f',
+  '<<<<<<< HEAD',
+  'G1',
+  '=======',
+  'G2',
+  '>>>>>>> feature',
+  'h',
+  '',
+].join('\n');
+
+describe('parseConflictHunks', () => {
+  it('parses each block with its markers and line numbers', () => {
+    const hunks = parseConflictHunks(separateWorkingTree);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ startLine: 2, endLine: 6, currentContent: 'B1', incomingContent: 'B2' });
+    expect(hunks[1]).toMatchObject({ startLine: 11, endLine: 15, currentContent: 'G1', incomingContent: 'G2' });
+  });
+
+  it('parses markers with CRLF line endings', () => {
+    const hunks = parseConflictHunks(separateWorkingTree.replace(/\n/g, '\r\n'));
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[1]).toMatchObject({ startLine: 11, endLine: 15, currentContent: 'G1\r', incomingContent: 'G2\r' });
+  });
+
+  it('reads the base section of diff3 markers', () => {
+    const hunks = parseConflictHunks(['<<<<<<< HEAD', 'x', '||||||| base', 'o', '=======', 'y', '>>>>>>> feature'].join('\n'));
+
+    expect(hunks[0]).toMatchObject({ hasBase: true, baseContent: 'o', currentContent: 'x', incomingContent: 'y' });
+  });
+});
+
+describe('renderConflictedContent', () => {
+  it('writes the merge of the versions with every block marked', () => {
+    const content = renderConflictedContent(separate)!;
+
+    expect(parseConflictHunks(content)).toHaveLength(2);
+    expect(content.startsWith('a\n<<<<<<< HEAD\nB1\n||||||| base\nb\n=======\nB2\n>>>>>>> incoming\n')).toBe(true);
+  });
+});
+
+describe('renderResolvedContent', () => {
+  it('splices replacements into the working tree and keeps edits made around the blocks', async () => {
+    const edited = separateWorkingTree.replace('\nd\n', '\nd, edited by hand\n');
+
+    const resolved = await renderResolvedContent(separate, readWorkingTree(edited), index => (index === 0 ? 'B' : undefined));
+
+    expect(resolved).toBe(
+      ['a', 'B', 'c', 'd, edited by hand', 'e', 'f', '<<<<<<< HEAD', 'G1', '=======', 'G2', '>>>>>>> feature', 'h', ''].join('\n')
+    );
+  });
+
+  it('keeps blocks resolved by hand and replaces the rest', async () => {
+    const handResolved = separateWorkingTree.replace('<<<<<<< HEAD\nB1\n=======\nB2\n>>>>>>> feature', 'B by hand');
+
+    const resolved = await renderResolvedContent(separate, readWorkingTree(handResolved), index => (index === 1 ? 'G' : undefined));
+
+    expect(resolved).toBe(['a', 'B by hand', 'c', 'd', 'e', 'f', 'G', 'h', ''].join('\n'));
+  });
+
+  it('keeps CRLF line endings outside the replaced blocks', async () => {
+    const toCrlf = (text: string) => text.replace(/\n/g, '\r\n');
+    const { base, current, incoming } = separate.versions!;
+    const crlf = conflictOf({ base: toCrlf(base!), current: toCrlf(current!), incoming: toCrlf(incoming!) });
+
+    const resolved = await renderResolvedContent(crlf, readWorkingTree(toCrlf(separateWorkingTree)), index =>
+      index === 0 ? 'B\r' : 'G\r'
+    );
+
+    expect(resolved).toBe(['a', 'B', 'c', 'd', 'e', 'f', 'G', 'h', ''].join('\r\n'));
+  });
+
+  it('splits a block git joined and re-marks the part left unresolved', async () => {
+    const joined = conflictOf({ base: 'a\nb\nc\nd\n', current: 'X\nb\nc\nY\n', incoming: 'Z\nb\nc\nW\n' });
+    const workingTree = ['<<<<<<< HEAD', 'X', 'b', 'c', 'Y', '=======', 'Z', 'b', 'c', 'W', '>>>>>>> feature', ''].join('\n');
+
+    const resolved = await renderResolvedContent(joined, readWorkingTree(workingTree), index => (index === 0 ? 'X' : undefined));
+
+    expect(resolved).toBe(['X', 'b', 'c', '<<<<<<< HEAD', 'Y', '=======', 'W', '>>>>>>> feature', ''].join('\n'));
+  });
+
+  it('refuses to replace a block that is no longer marked in the file', async () => {
+    const handResolved = separateWorkingTree.replace('<<<<<<< HEAD\nB1\n=======\nB2\n>>>>>>> feature', 'B by hand');
+
+    await expect(renderResolvedContent(separate, readWorkingTree(handResolved), () => 'B')).rejects.toThrow(
+      'Block 1 of app.txt no longer matches its conflict markers'
+    );
+  });
+});
@@ -0,0 +1,519 @@
+import { ConflictHunk, ConflictVersions, GitConflict } from '@smugit/shared';
+
+import { MergeRegion, mergeThreeWay, splitMergeLines } from './three-way-merge';
+
+export const DEFAULT_MARKER_SIZE = 7;
+
+export interface ConflictMarkerLabels {
+  current: string;
+  base: string;
+  incoming: string;
+}
+
+const DEFAULT_LABELS: ConflictMarkerLabels = {
+  current: 'HEAD',
+  base: 'base',
+  incoming: 'incoming',
+};
+
+/**
+ * Merges the index-stage versions of a file. Returns undefined when either side is missing.
+ */
+export function mergeConflictVersions(versions: ConflictVersions): MergeRegion[] | undefined {
+  if (versions.current === undefined || versions.incoming === undefined) {
+    return undefined;
+  }
+
+  return mergeThreeWay(
+    splitMergeLines(versions.base ?? ''),
+    splitMergeLines(versions.current),
+    splitMergeLines(versions.incoming)
+  );
+}
+
+/**
+ * Builds conflict hunks from merged regions. Line numbers refer to the file as it
+ * would look with diff3-style conflict markers written out; see
+ * locateConflictBlocks for where the blocks are in the working tree.
+ */
+export function buildHunksFromRegions(
+  regions: MergeRegion[],
+  hasBase: boolean,
+  labels: ConflictMarkerLabels = DEFAULT_LABELS,
+  markerSize: number = DEFAULT_MARKER_SIZE
+): ConflictHunk[] {
+  const hunks: ConflictHunk[] = [];
+  let line = 1;
+
+  for (const region of regions) {
+    if (region.kind === 'stable') {
+      line += region.lines.length;
+      continue;
+    }
+
+    const blockLength =
+      region.current.length +
+      region.incoming.length +
+      (hasBase ? region.base.length + 1 : 0) +
+      3;
+
+    hunks.push({
+      startLine: line,
+      endLine: line + blockLength - 1,
+      baseContent: region.base.join('\n'),
+      hasBase,
+      currentContent: region.current.join('\n'),
+      incomingContent: region.incoming.join('\n'),
+      conflictMarkers: {
+        start: `${'<'.repeat(markerSize)} ${labels.current}`,
+        separator: '='.repeat(markerSize),
+        end: `${'>'.repeat(markerSize)} ${labels.incoming}`,
+        ...(hasBase ? { base: `${'|'.repeat(markerSize)} ${labels.base}` } : {}),
+      },
+    });
+
+    line += blockLength;
+  }
+
+  return hunks;
+}
+
+/**
+ * Writes a hunk back out as a conflict block with markers
+ */
+export function renderConflictBlock(hunk: ConflictHunk): string[] {
+  const { start, separator, end, base } = hunk.conflictMarkers;
+  const lines = [start, ...splitMergeLines(hunk.currentContent)];
+
+  if (hunk.hasBase && base) {
+    lines.push(base, ...splitMergeLines(hunk.baseContent));
+  }
+
+  lines.push(separator, ...splitMergeLines(hunk.incomingContent), end);
+  return lines;
+}
+
+/**
+ * Stitches merged regions back into file content, asking the replacer for each
+ * conflicting region. Regions the replacer leaves undefined keep their markers.
+ */
+export function renderMergeRegions(
+  regions: MergeRegion[],
+  hunks: ConflictHunk[],
+  replacer: (hunkIndex: number) => string | undefined
+): string {
+  const output: string[] = [];
+  let hunkIndex = 0;
+
+  for (const region of regions) {
+    if (region.kind === 'stable') {
+      output.push(...region.lines);
+      continue;
+    }
+
+    const replacement = replacer(hunkIndex);
+    if (replacement === undefined) {
+      output.push(...renderConflictBlock(hunks[hunkIndex]));
+    } else {
+      output.push(...splitMergeLines(replacement));
+    }
+
+    hunkIndex++;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Parses the conflict blocks marked in file content
+ */
+export function parseConflictHunks(content: string, markerSize: number = DEFAULT_MARKER_SIZE): ConflictHunk[] {
+  const lines = content.split('\n');
+  const hunks: ConflictHunk[] = [];
+  const isMarker = (line: string, char: string) => {
+    const marker = char.repeat(markerSize);
+    // Markers in files with CRLF line endings end in \r
+    const text = line.endsWith('\r') ? line.slice(0, -1) : line;
+    return text === marker || text.startsWith(`${marker} `);
+  };
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // Look for conflict start marker
+    if (isMarker(line, '<')) {
+      const startLine = i;
+      const currentContent: string[] = [];
+      const incomingContent: string[] = [];
+      let baseContent = '';
+      let baseMarker: string | undefined;
+      let separatorLine = -1;
+      let endLine = -1;
+
+      i++; // Move past start marker
+
+      // Collect current content (until separator)
+      while (i < lines.length && !isMarker(lines[i], '=')) {
+        if (isMarker(lines[i], '|')) {
+          // Handle 3-way merge with base
+          baseMarker = lines[i];
+          i++;
+          const baseLines: string[] = [];
+          while (i < lines.length && !isMarker(lines[i], '=')) {
+            baseLines.push(lines[i]);
+            i++;
+          }
+          baseContent = baseLines.join('\n');
+          continue; // Already positioned on the separator
+        } else {
+          currentContent.push(lines[i]);
+        }
+        i++;
+      }
+
+      if (i < lines.length && isMarker(lines[i], '=')) {
+        separatorLine = i;
+        i++; // Move past separator
+
+        // Collect incoming content (until end marker)
+        while (i < lines.length && !isMarker(lines[i], '>')) {
+          incomingContent.push(lines[i]);
+          i++;
+        }
+
+        if (i < lines.length && isMarker(lines[i], '>')) {
+          endLine = i;
+
+          hunks.push({
+            startLine: startLine + 1, // Convert to 1-based
+            endLine: endLine + 1,
+            baseContent,
+            hasBase: baseMarker !== undefined,
+            currentContent: currentContent.join('\n'),
+            incomingContent: incomingContent.join('\n'),
+            conflictMarkers: {
+              start: lines[startLine],
+              ...(baseMarker !== undefined ? { base: baseMarker } : {}),
+              separator: lines[separatorLine],
+              end: lines[endLine],
+            },
+          });
+        }
+      }
+    }
+
+    i++;
+  }
+
+  return hunks;
+}
+
+/**
+ * Where hunks sit in a working tree copy of their file
+ */
+export interface ConflictBlockSpan {
+  /** Hunks covered by the span; git joins blocks only a few lines apart into one */
+  hunks: number[];
+  /** Stable lines between consecutive hunks of the span */
+  stable: string[][];
+  /** 0-based first line of the span and the line after it, including common lines git moved out of the blocks */
+  start: number;
+  end: number;
+  /** 1-based lines of the first start marker and the last end marker */
+  startLine: number;
+  endLine: number;
+  /** Marker lines of the first block, with git's labels and, in diff3 style, a base marker */
+  markers: ConflictHunk['conflictMarkers'];
+}
+
+export interface ConflictBlockLocation {
+  spans: ConflictBlockSpan[];
+  /** Blocks marked in the file that no hunk accounts for */
+  unmatchedBlocks: number;
+}
+
+/**
+ * Lines up hunks with the blocks marked in a working tree copy of their file.
+ * Blocks match when they read the same as the hunks on each side: git trims
+ * lines common to both sides out of a block, or joins nearby blocks, and the
+ * user may have edited the file anywhere else. Hunks whose blocks are gone,
+ * e.g. resolved by an earlier pass, are left out.
+ */
+export function locateConflictBlocks(
+  hunks: ConflictHunk[],
+  versions: ConflictVersions | undefined,
+  content: string
+): ConflictBlockLocation {
+  const lines = content.split('\n');
+  const markerSize = hunks[0] ? hunks[0].conflictMarkers.separator.replace(/\r$/, '').length : DEFAULT_MARKER_SIZE;
+  const blocks = parseConflictHunks(content, markerSize);
+  const stableAfter = findStableLinesAfterHunks(hunks, versions);
+
+  // Each side of blocks first..last with the lines between them
+  const blockView = (side: 'currentContent' | 'incomingContent', first: number, last: number): string[] =>
+    blocks.slice(first, last + 1).flatMap((block, offset) => [
+      ...splitMergeLines(block[side]),
+      ...(first + offset < last ? lines.slice(block.endLine, blocks[first + offset + 1].startLine - 1) : []),
+    ]);
+
+  const hunkView = (side: 'currentContent' | 'incomingContent', first: number, last: number): string[] =>
+    hunks.slice(first, last + 1).flatMap((hunk, offset) => [
+      ...splitMergeLines(hunk[side]),
+      ...(first + offset < last ? stableAfter[first + offset] ?? [] : []),
+    ]);
+
+  const matchGroup = (firstHunk: number, lastHunk: number, firstBlock: number, lastBlock: number) => {
+    const expected = [hunkView('currentContent', firstHunk, lastHunk), hunkView('incomingContent', firstHunk, lastHunk)];
+    const found = [blockView('currentContent', firstBlock, lastBlock), blockView('incomingContent', firstBlock, lastBlock)];
+    const trimmed = expected[0].length - found[0].length;
+    if (trimmed < 0 || expected[1].length - found[1].length !== trimmed) {
+      return undefined;
+    }
+
+    const markedFrom = blocks[firstBlock].startLine - 1;
+    const markedTo = blocks[lastBlock].endLine;
+    // Try each split of the trimmed lines between before and after the blocks
+    for (let before = 0; before <= trimmed; before++) {
+      const start = markedFrom - before;
+      const end = markedTo + trimmed - before;
+      if (start < 0 || end > lines.length) {
+        continue;
+      }
+
+      const around = [...lines.slice(start, markedFrom), ...lines.slice(markedTo, end)];
+      const sidesMatch = expected.every((side, index) =>
+        sameLines(side, [...around.slice(0, before), ...found[index], ...around.slice(before)])
+      );
+      if (sidesMatch) {
+        return { start, end };
+      }
+    }
+    return undefined;
+  };
+
+  const spans: ConflictBlockSpan[] = [];
+  let nextBlock = 0;
+  let matchedBlocks = 0;
+
+  for (let hunk = 0; hunk < hunks.length; ) {
+    let match: { span: ConflictBlockSpan; firstBlock: number; lastBlock: number } | undefined;
+
+    search: for (let firstBlock = nextBlock; firstBlock < blocks.length; firstBlock++) {
+      // A joined block can only cover hunks that follow one another in the merge
+      for (let lastHunk = hunk; lastHunk < hunks.length && (lastHunk === hunk || stableAfter[lastHunk - 1]); lastHunk++) {
+        for (let lastBlock = firstBlock; lastBlock < blocks.length; lastBlock++) {
+          const range = matchGroup(hunk, lastHunk, firstBlock, lastBlock);
+          if (range) {
+            const covered = Array.from({ length: lastHunk - hunk + 1 }, (_, offset) => hunk + offset);
+            match = {
+              span: {
+                hunks: covered,
+                stable: covered.slice(0, -1).map(index => stableAfter[index] ?? []),
+                ...range,
+                startLine: blocks[firstBlock].startLine,
+                endLine: blocks[lastBlock].endLine,
+                markers: blocks[firstBlock].conflictMarkers,
+              },
+              firstBlock,
+              lastBlock,
+            };
+            break search;
+          }
+        }
+      }
+    }
+
+    if (!match) {
+      hunk++;
+      continue;
+    }
+
+    spans.push(match.span);
+    matchedBlocks += match.lastBlock - match.firstBlock + 1;
+    nextBlock = match.lastBlock + 1;
+    hunk += match.span.hunks.length;
+  }
+
+  return { spans, unmatchedBlocks: blocks.length - matchedBlocks };
+}
+
+/**
+ * Stable lines between each hunk and the next when both come from consecutive
+ * regions of the merge of their versions; undefined otherwise
+ */
+function findStableLinesAfterHunks(hunks: ConflictHunk[], versions: ConflictVersions | undefined): (string[] | undefined)[] {
+  const regions = versions ? mergeConflictVersions(versions) : undefined;
+  if (!regions) {
+    return [];
+  }
+
+  const conflicts: { region: Extract<MergeRegion, { kind: 'conflict' }>; stableAfter: string[] }[] = [];
+  for (const region of regions) {
+    if (region.kind === 'conflict') {
+      conflicts.push({ region, stableAfter: [] });
+    } else if (conflicts.length > 0) {
+      conflicts[conflicts.length - 1].stableAfter.push(...region.lines);
+    }
+  }
+
+  // Hunks are built from the conflicting regions in order, though some may have been dropped since
+  const positions: number[] = [];
+  let cursor = 0;
+  for (const hunk of hunks) {
+    while (
+      cursor < conflicts.length &&
+      !(
+        conflicts[cursor].region.current.join('\n') === hunk.currentContent &&
+        conflicts[cursor].region.incoming.join('\n') === hunk.incomingContent
+      )
+    ) {
+      cursor++;
+    }
+    positions.push(cursor);
+    cursor++;
+  }
+
+  return hunks.map((_, index) =>
+    index + 1 < hunks.length && positions[index + 1] === positions[index] + 1 && positions[index + 1] < conflicts.length
+      ? conflicts[positions[index]].stableAfter
+      : undefined
+  );
+}
+
+/**
+ * The file as a merge of its versions writes it, with each hunk marked.
+ * Undefined for conflicts not built from index stages.
+ */
+export function renderConflictedContent(conflict: GitConflict): string | undefined {
+  const regions = conflict.versions ? mergeConflictVersions(conflict.versions) : undefined;
+  return regions ? renderMergeRegions(regions, conflict.hunks, () => undefined) : undefined;
+}
+
+/**
+ * Produces the resolved content of a conflicted file by splicing the replacer's
+ * output into the blocks marked in the file, so edits made elsewhere in the file
+ * are kept. Blocks the replacer leaves undefined keep their markers. Throws when
+ * a block to replace is no longer marked in the file.
+ */
+export async function renderResolvedContent(
+  conflict: GitConflict,
+  readFile: (filePath: string) => Promise<string>,
+  replacer: (hunkIndex: number) => string | undefined
+): Promise<string> {
+  const content = await readFile(conflict.file);
+  const replacements = conflict.hunks.map((_, index) => replacer(index));
+  const { spans } = locateConflictBlocks(conflict.hunks, conflict.versions, content);
+
+  const located = new Set(spans.flatMap(span => span.hunks));
+  const missing = replacements.findIndex((replacement, index) => replacement !== undefined && !located.has(index));
+  if (missing !== -1) {
+    throw new Error(
+      `Block ${missing + 1} of ${conflict.file} no longer matches its conflict markers; run smugit fix again or resolve it by hand`
+    );
+  }
+
+  const lines = content.split('\n');
+  // Splice from the end so the spans before keep their positions
+  for (const span of [...spans].reverse()) {
+    if (span.hunks.every(index => replacements[index] === undefined)) {
+      continue;
+    }
+
+    const output = span.hunks.flatMap((index, offset) => {
+      const replacement = replacements[index];
+      // Re-mark unresolved parts with the labels and conflict style git used
+      const block =
+        replacement === undefined
+          ? renderConflictBlock({ ...conflict.hunks[index], conflictMarkers: span.markers })
+          : splitMergeLines(replacement);
+      return [...block, ...(span.stable[offset] ?? [])];
+    });
+    lines.splice(span.start, span.end - span.start, ...output);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Works out what each conflict block became in a resolved file by lining up the
+ * stable text around the blocks. Returns undefined when the resolution also moved
+ * or rewrote stable lines, as declaration-level merges can.
+ */
+export function splitResolvedHunks(conflict: GitConflict, content: string): string[] | undefined {
+  const regions = conflict.versions ? mergeConflictVersions(conflict.versions) : undefined;
+  if (!regions) {
+    return undefined;
+  }
+
+  // Stable text before, between and after the blocks
+  const segments: string[][] = [[]];
+  const blocks: Extract<MergeRegion, { kind: 'conflict' }>[] = [];
+  for (const region of regions) {
+    if (region.kind === 'stable') {
+      segments[segments.length - 1].push(...region.lines);
+    } else {
+      segments.push([]);
+      blocks.push(region);
+    }
+  }
+
+  // The hunks must still be the merge's blocks, not ones parsed from the working tree or left out since
+  const sameBlocks =
+    blocks.length === conflict.hunks.length &&
+    blocks.every(
+      (block, index) =>
+        block.current.join('\n') === conflict.hunks[index].currentContent &&
+        block.incoming.join('\n') === conflict.hunks[index].incomingContent
+    );
+  if (!sameBlocks) {
+    return undefined;
+  }
+
+  const output = splitMergeLines(content);
+  if (!linesMatchAt(output, 0, segments[0])) {
+    return undefined;
+  }
+
+  const outputs: string[] = [];
+  let cursor = segments[0].length;
+
+  for (let index = 1; index < segments.length; index++) {
+    const next = segments[index];
+    const isLast = index === segments.length - 1;
+    let end: number;
+
+    if (isLast) {
+      end = output.length - next.length;
+      if (end < cursor || !linesMatchAt(output, end, next)) {
+        return undefined;
+      }
+    } else {
+      // Adjacent blocks with nothing stable between them cannot be told apart
+      if (next.length === 0) {
+        return undefined;
+      }
+
+      end = cursor;
+      while (end <= output.length - next.length && !linesMatchAt(output, end, next)) {
+        end++;
+      }
+      if (end > output.length - next.length) {
+        return undefined;
+      }
+    }
+
+    outputs.push(output.slice(cursor, end).join('\n'));
+    cursor = end + next.length;
+  }
+
+  return outputs;
+}
+
+function linesMatchAt(lines: string[], offset: number, expected: string[]): boolean {
+  return expected.every((line, index) => lines[offset + index] === line);
+}
+
+function sameLines(left: string[], right: string[]): boolean {
+  return left.length === right.length && linesMatchAt(left, 0, right);
+}
@@ -0,0 +1,365 @@
+import * as t from '@babel/types';
+
+import {
+  DeclarationSide,
+  lineIndent,
+  memberLabel,
+  memberStart,
+  MergeReport,
+  mergeKeyedSources,
+  normalizedCode,
+  pickHeaderSide,
+  propertyName,
+  renderBracedMembers,
+  SourceNode,
+  toSourceNodes,
+} from './class-merger';
+
+/**
+ * Merges two versions of an interface member by member. A member both sides
+ * changed (usually the same property added with different types) is a conflict.
+ */
+export function mergeInterfaceDeclarations(
+  current: DeclarationSide<t.TSInterfaceDeclaration>,
+  incoming: DeclarationSide<t.TSInterfaceDeclaration>,
+  base: DeclarationSide<t.TSInterfaceDeclaration> | undefined,
+  report: MergeReport
+): string | null {
+  const name = `interface ${current.declaration.id.name}`;
+  const layout = pickHeaderSide(current, incoming, base, declaration =>
+    normalizedCode({ ...declaration, body: t.tsInterfaceBody([]) })
+  );
+
+  if (!layout) {
+    report.conflicts.push(`${name}: type parameters or \`extends\` changed on both sides`);
+    return null;
+  }
+
+  const members = mergeKeyedSources(
+    base ? toSourceNodes(base.declaration.body.body, base.origin, interfaceMemberKey) : undefined,
+    toSourceNodes(current.declaration.body.body, current.origin, interfaceMemberKey),
+    toSourceNodes(incoming.declaration.body.body, incoming.origin, interfaceMemberKey),
+    (currentMember, incomingMember) => {
+      report.conflicts.push(`${name}: ${describeMemberClash(currentMember, incomingMember)}`);
+      return null;
+    },
+    key => report.conflicts.push(`${name}: \`${memberLabel(key)}\` was removed on one side and changed on the other`)
+  );
+
+  if (!members) {
+    return null;
+  }
+
+  // Members written without a terminator need one once something follows them
+  const terminator = layout.declaration.body.body.some(member => sourceEndsWith(member, layout.origin, ',')) ? ',' : ';';
+  const sources = members.map((member, index) =>
+    index < members.length - 1 && !/[;,]$/.test(member.source) ? `${member.source}${terminator}` : member.source
+  );
+
+  report.notes.push(`Merged ${name} member by member`);
+
+  return renderBracedMembers(
+    { start: memberStart(layout.statement), end: layout.statement.end },
+    layout.declaration.body,
+    layout.declaration.body.body,
+    layout.origin,
+    sources
+  );
+}
+
+/**
+ * Merges two versions of an enum member by member. The same member given
+ * different values on each side is a conflict, and so are members added on both
+ * sides unless every one has an explicit value.
+ */
+export function mergeEnumDeclarations(
+  current: DeclarationSide<t.TSEnumDeclaration>,
+  incoming: DeclarationSide<t.TSEnumDeclaration>,
+  base: DeclarationSide<t.TSEnumDeclaration> | undefined,
+  report: MergeReport
+): string | null {
+  const name = `enum ${current.declaration.id.name}`;
+  const layout = pickHeaderSide(current, incoming, base, declaration =>
+    normalizedCode({ ...declaration, members: [] })
+  );
+
+  if (!layout) {
+    report.conflicts.push(`${name}: its modifiers changed on both sides`);
+    return null;
+  }
+
+  // Implicitly numbered members take their value from their position, which
+  // members added on the other side would shift
+  const baseKeys = new Set((base?.declaration.members ?? []).map(enumMemberKey));
+  const addedOnlyTo = (side: DeclarationSide<t.TSEnumDeclaration>, other: DeclarationSide<t.TSEnumDeclaration>) => {
+    const otherKeys = new Set(other.declaration.members.map(enumMemberKey));
+    return side.declaration.members.filter(
+      member => !baseKeys.has(enumMemberKey(member)) && !otherKeys.has(enumMemberKey(member))
+    );
+  };
+  const currentAdded = addedOnlyTo(current, incoming);
+  const incomingAdded = addedOnlyTo(incoming, current);
+  const implicit = [...currentAdded, ...incomingAdded].filter(member => !member.initializer);
+
+  if (currentAdded.length > 0 && incomingAdded.length > 0 && implicit.length > 0) {
+    const labels = implicit.map(member => `\`${propertyName(member.id)}\``).join(', ');
+    report.conflicts.push(`${name}: both sides added members, and merging ${labels} without explicit values would renumber them`);
+    return null;
+  }
+
+  const members = mergeKeyedSources(
+    base ? toSourceNodes(base.declaration.members, base.origin, enumMemberKey) : undefined,
+    toSourceNodes(current.declaration.members, current.origin, enumMemberKey),
+    toSourceNodes(incoming.declaration.members, incoming.origin, enumMemberKey),
+    (currentMember, incomingMember) => {
+      report.conflicts.push(
+        `${name}: \`${memberLabel(currentMember.key)}\` is ${initializerText(currentMember.node)} in current and ${initializerText(incomingMember.node)} in incoming`
+      );
+      return null;
+    },
+    key => report.conflicts.push(`${name}: \`${memberLabel(key)}\` was removed on one side and changed on the other`)
+  );
+
+  if (!members) {
+    return null;
+  }
+
+  report.notes.push(`Merged ${name} member by member`);
+
+  const { declaration, origin, statement } = layout;
+  const openBrace = origin.indexOf('{', declaration.id.end ?? declaration.start ?? 0);
+
+  return renderBracedMembers(
+    { start: memberStart(statement), end: statement.end },
+    { start: openBrace, end: declaration.end },
+    declaration.members,
+    origin,
+    members.map(member => member.source),
+    ','
+  );
+}
+
+/**
+ * Merges union or intersection type aliases by their member types, so two
+ * branches adding a variant to the same union both keep theirs
+ */
+export function mergeTypeAliasDeclarations(
+  current: DeclarationSide<t.TSTypeAliasDeclaration>,
+  incoming: DeclarationSide<t.TSTypeAliasDeclaration>,
+  base: DeclarationSide<t.TSTypeAliasDeclaration> | undefined,
+  report: MergeReport
+): string | null {
+  const name = `type ${current.declaration.id.name}`;
+  const kind = compositeKind(current.declaration.typeAnnotation) ?? compositeKind(incoming.declaration.typeAnnotation);
+
+  const sameParameters =
+    normalizedCode({ ...current.declaration, typeAnnotation: t.tsAnyKeyword() }) ===
+    normalizedCode({ ...incoming.declaration, typeAnnotation: t.tsAnyKeyword() });
+
+  // A plain type on one side counts as a one-member union, so `A` -> `A | B` still merges
+  const compatible = [current, incoming, ...(base ? [base] : [])].every(side => {
+    const sideKind = compositeKind(side.declaration.typeAnnotation);
+    return sideKind === undefined || sideKind === kind;
+  });
+
+  if (!kind || !sameParameters || !compatible) {
+    report.conflicts.push(`${name} changed on both sides and is not a union or intersection both sides extended`);
+    return null;
+  }
+
+  const membersOf = (side: DeclarationSide<t.TSTypeAliasDeclaration>) =>
+    toSourceNodes(compositeMembers(side.declaration.typeAnnotation, kind), side.origin, member => normalizedCode(member));
+
+  const members = mergeKeyedSources(
+    base ? membersOf(base) : undefined,
+    membersOf(current),
+    membersOf(incoming),
+    () => null
+  );
+
+  if (!members || members.length === 0) {
+    return null;
+  }
+
+  report.notes.push(`Merged ${name} ${kind === 'union' ? 'union' : 'intersection'} members`);
+
+  // Lay the members out like whichever side already used the composite type
+  const layout = compositeKind(current.declaration.typeAnnotation) ? current : incoming;
+  const { declaration, origin, statement } = layout;
+  const annotation = declaration.typeAnnotation;
+  const operator = kind === 'union' ? '|' : '&';
+
+  const prefix = origin.slice(memberStart(statement), annotation.start ?? 0);
+  const suffix = origin.slice(annotation.end ?? 0, statement.end ?? origin.length);
+  const annotationText = origin.slice(annotation.start ?? 0, annotation.end ?? 0);
+
+  if (annotationText.includes('\n')) {
+    const firstMember = compositeMembers(annotation, kind)[0];
+    const indent = lineIndent(origin, firstMember.start ?? 0);
+    const lines = members.map(member => `${indent}${operator} ${member.source}`);
+    return `${prefix.trimEnd()}\n${lines.join('\n')}${suffix}`;
+  }
+
+  return `${prefix}${members.map(member => member.source).join(` ${operator} `)}${suffix}`;
+}
+
+/**
+ * Merges two object literals property by property, recursing into nested
+ * objects. The same property set to different values is a conflict.
+ */
+export function mergeObjectLiterals(
+  current: DeclarationSide<t.ObjectExpression>,
+  incoming: DeclarationSide<t.ObjectExpression>,
+  base: DeclarationSide<t.ObjectExpression> | undefined,
+  name: string,
+  report: MergeReport
+): string | null {
+  const propertiesOf = (side: DeclarationSide<t.ObjectExpression>) =>
+    toSourceNodes(side.declaration.properties, side.origin, objectMemberKey);
+
+  const baseProperties = base ? propertiesOf(base) : undefined;
+
+  const members = mergeKeyedSources(
+    baseProperties,
+    propertiesOf(current),
+    propertiesOf(incoming),
+    (currentProperty, incomingProperty, baseProperty) =>
+      mergeObjectProperty(currentProperty, incomingProperty, baseProperty, `${name}.${memberLabel(currentProperty.key)}`, report),
+    key => report.conflicts.push(`${name}: \`${memberLabel(key)}\` was removed on one side and changed on the other`)
+  );
+
+  if (!members) {
+    return null;
+  }
+
+  return renderBracedMembers(
+    { start: memberStart(current.statement), end: current.statement.end },
+    current.declaration,
+    current.declaration.properties,
+    current.origin,
+    members.map(member => member.source),
+    ','
+  );
+}
+
+function mergeObjectProperty(
+  current: SourceNode<t.ObjectExpression['properties'][number]>,
+  incoming: SourceNode<t.ObjectExpression['properties'][number]>,
+  base: SourceNode<t.ObjectExpression['properties'][number]> | undefined,
+  name: string,
+  report: MergeReport
+): string | null {
+  const currentValue = t.isObjectProperty(current.node) ? current.node.value : undefined;
+  const incomingValue = t.isObjectProperty(incoming.node) ? incoming.node.value : undefined;
+  const baseValue = base && t.isObjectProperty(base.node) ? base.node.value : undefined;
+
+  if (t.isObjectExpression(currentValue) && t.isObjectExpression(incomingValue)) {
+    return mergeObjectLiterals(
+      { declaration: currentValue, statement: current.node, origin: current.origin },
+      { declaration: incomingValue, statement: incoming.node, origin: incoming.origin },
+      base && t.isObjectExpression(baseValue)
+        ? { declaration: baseValue, statement: base.node, origin: base.origin }
+        : undefined,
+      name,
+      report
+    );
+  }
+
+  report.conflicts.push(
+    `${name} is ${valueText(currentValue ?? current.node)} in current and ${valueText(incomingValue ?? incoming.node)} in incoming`
+  );
+  return null;
+}
+
+/**
+ * Finds the object literal a statement exports, e.g. `export const config = { ... } as const`
+ */
+export function objectLiteralOf(declaration: t.Node): t.ObjectExpression | undefined {
+  let expression: t.Node | null | undefined;
+
+  if (t.isVariableDeclaration(declaration) && declaration.declarations.length === 1) {
+    expression = declaration.declarations[0].init;
+  } else if (t.isExportDefaultDeclaration(declaration)) {
+    expression = declaration.declaration;
+  }
+
+  while (t.isTSAsExpression(expression) || t.isTSSatisfiesExpression(expression)) {
+    expression = expression.expression;
+  }
+
+  return t.isObjectExpression(expression) ? expression : undefined;
+}
+
+function compositeKind(annotation: t.TSType): 'union' | 'intersection' | undefined {
+  if (t.isTSUnionType(annotation)) return 'union';
+  if (t.isTSIntersectionType(annotation)) return 'intersection';
+  return undefined;
+}
+
+function compositeMembers(annotation: t.TSType, kind: 'union' | 'intersection'): t.TSType[] {
+  if (kind === 'union' && t.isTSUnionType(annotation)) return annotation.types;
+  if (kind === 'intersection' && t.isTSIntersectionType(annotation)) return annotation.types;
+  return [annotation];
+}
+
+function interfaceMemberKey(member: t.TSTypeElement): string {
+  if (t.isTSPropertySignature(member)) {
+    return `property:${propertyName(member.key, member.computed)}`;
+  }
+
+  if (t.isTSMethodSignature(member)) {
+    return `method:${propertyName(member.key, member.computed)}`;
+  }
+
+  if (t.isTSIndexSignature(member)) {
+    return `index:${member.parameters.map(parameter => normalizedCode(parameter.typeAnnotation ?? parameter)).join(',')}`;
+  }
+
+  return `signature:${normalizedCode(member)}`;
+}
+
+function enumMemberKey(member: t.TSEnumMember): string {
+  return `member:${propertyName(member.id)}`;
+}
+
+function objectMemberKey(member: t.ObjectExpression['properties'][number]): string {
+  if (t.isSpreadElement(member)) {
+    return `spread:${normalizedCode(member.argument)}`;
+  }
+
+  const kind = t.isObjectMethod(member) && member.kind !== 'method' ? `${member.kind} ` : '';
+  return `property:${kind}${propertyName(member.key, member.computed)}`;
+}
+
+function describeMemberClash(current: SourceNode<t.TSTypeElement>, incoming: SourceNode<t.TSTypeElement>): string {
+  const label = `\`${memberLabel(current.key)}\``;
+
+  if (t.isTSPropertySignature(current.node) && t.isTSPropertySignature(incoming.node)) {
+    const currentType = propertyTypeText(current.node);
+    const incomingType = propertyTypeText(incoming.node);
+
+    if (currentType !== incomingType) {
+      return `${label} has type ${currentType} in current and ${incomingType} in incoming`;
+    }
+  }
+
+  return `${label} was declared differently on each side`;
+}
+
+function propertyTypeText(property: t.TSPropertySignature): string {
+  const type = property.typeAnnotation ? normalizedCode(property.typeAnnotation.typeAnnotation) : 'any';
+  return `\`${property.optional ? `${type} (optional)` : type}\``;
+}
+
+function initializerText(member: t.TSEnumMember): string {
+  return member.initializer ? `\`${normalizedCode(member.initializer)}\`` : 'implicit';
+}
+
+function sourceEndsWith(node: t.Node, origin: string, character: string): boolean {
+  return origin.slice(node.start ?? 0, node.end ?? 0).trimEnd().endsWith(character);
+}
+
+function valueText(node: t.Node): string {
+  const code = normalizedCode(node);
+  return `\`${code.length > 40 ? `${code.slice(0, 37)}...` : code}\``;
+}
@@ -0,0 +1,126 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ConflictVersions } from '@smugit/shared';
+
+import { MERGE_DRIVER_NAME } from './merge-driver';
+
+/** Read-only copies of each side, opened next to the file being edited */
+export interface ReferenceFiles {
+  current?: string;
+  base?: string;
+  incoming?: string;
+}
+
+/**
+ * Hands a conflicted file to the user's editor or merge tool and waits for it to close
+ */
+export class ConflictEditor {
+  private git: SimpleGit;
+  private repoPath: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+    this.git = simpleGit(repoPath);
+  }
+
+  /**
+   * The editor git itself would use: $GIT_EDITOR, core.editor, $VISUAL, $EDITOR, then vi
+   */
+  async getEditor(): Promise<string> {
+    try {
+      return (await this.git.raw(['var', 'GIT_EDITOR'])).trim() || 'vi';
+    } catch {
+      return process.env.GIT_EDITOR || process.env.VISUAL || process.env.EDITOR || 'vi';
+    }
+  }
+
+  /**
+   * The configured `merge.tool`, unless it is smugit itself
+   */
+  async getMergeTool(): Promise<string | undefined> {
+    try {
+      const tool = (await this.git.raw(['config', '--get', 'merge.tool'])).trim();
+      return tool && tool !== MERGE_DRIVER_NAME ? tool : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Opens the file, followed by any reference files, and resolves once the editor exits
+   */
+  async edit(filePath: string, references: ReferenceFiles = {}): Promise<void> {
+    const editor = await this.getEditor();
+    const files = [filePath, references.current, references.base, references.incoming].filter(
+      (file): file is string => file !== undefined
+    );
+
+    // Same invocation as git, so editor settings with arguments ("code --wait") work
+    const code = await this.run('sh', ['-c', `${editor} "$@"`, editor, ...files]);
+    if (code !== 0) {
+      throw new Error(`Editor "${editor}" exited with code ${code}`);
+    }
+  }
+
+  /**
+   * Opens the file with its base, current and incoming versions written to
+   * temporary files alongside it
+   */
+  async editWithVersions(filePath: string, versions: ConflictVersions): Promise<void> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smugit-'));
+    const extension = path.extname(filePath);
+    const stem = path.basename(filePath, extension);
+    const references: ReferenceFiles = {};
+
+    try {
+      for (const side of ['current', 'base', 'incoming'] as const) {
+        const content = versions[side];
+        if (content !== undefined) {
+          references[side] = path.join(tempDir, `${stem}.${side.toUpperCase()}${extension}`);
+          await fs.writeFile(references[side] as string, content, 'utf-8');
+        }
+      }
+
+      await this.edit(filePath, references);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Lets the user edit a snippet of `filePath` in a temporary file with the same
+   * extension, and returns the edited text
+   */
+  async editText(text: string, filePath: string): Promise<string> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smugit-'));
+    const extension = path.extname(filePath);
+    const snippetPath = path.join(tempDir, `${path.basename(filePath, extension)}.block${extension}`);
+
+    try {
+      await fs.writeFile(snippetPath, text.endsWith('\n') || text === '' ? text : `${text}\n`, 'utf-8');
+      await this.edit(snippetPath);
+      return (await fs.readFile(snippetPath, 'utf-8')).replace(/\n$/, '');
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Runs `git mergetool` with the given tool on one file. Git stages the file
+   * when the tool reports success.
+   */
+  async runMergeTool(tool: string, filePath: string): Promise<boolean> {
+    return (await this.run('git', ['mergetool', '--no-prompt', `--tool=${tool}`, '--', filePath])) === 0;
+  }
+
+  private run(command: string, args: string[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { cwd: this.repoPath, stdio: 'inherit' });
+      child.on('error', reject);
+      child.on('close', code => resolve(code ?? 1));
+    });
+  }
+}
@@ -1,5 +1,84 @@
-export { GitAnalyzer } from './analyzer';
-export { ConflictResolver, type ResolutionResult } from './resolver';
+export { GitAnalyzer, type CommitHistoryOptions, type GitAnalyzerOptions } from './analyzer';
+export {
+  ConflictResolver,
+  type ConflictResolverOptions,
+  type ContentResolution,
+  type ResolutionResult,
+  type TreeConflictAction,
+  type TreeResolutionOutcome,
+} from './resolver';
+export {
+  mergeThreeWay,
+  mergeHunkThreeWay,
+  isCleanMerge,
+  type MergeRegion,
+  type HunkMergeResult,
+} from './three-way-merge';
+export { renderConflictBlock, renderResolvedContent, splitResolvedHunks } from './conflict-content';
+export {
+  ResolutionJournal,
+  describeResolution,
+  type JournalEntry,
+  type JournalRecord,
+  type ResolutionDescription,
+} from './journal';
+export {
+  MergeDriver,
+  MERGE_DRIVER_NAME,
+  type MergeDriverFiles,
+  type MergeDriverResult,
+  type InstallDriverOptions,
+} from './merge-driver';
+export { ConflictEditor, type ReferenceFiles } from './editor';
+export { RebasePlanner, formatRebaseTodo, type RebaseForecast } from './rebase-planner';
+export {
+  BranchTopology,
+  type CommitGraph,
+  type GraphCommit,
+  type GraphLine,
+  type GraphOptions,
+  type GraphSide,
+} from './topology';
+export { MergePreflight, type PreflightMessage, type PreflightResult, type ReplayResult } from './preflight';
+export {
+  OperationManager,
+  describeOperation,
+  describeSides,
+  type SideLabels,
+} from './operation';
+export {
+  ResolutionMemory,
+  fingerprintHunk,
+  type LearnedResolution,
+} from './learned-resolutions';
+export { ReflogHistory, UNDO_BACKUP_REF_PREFIX, type UndoResult } from './reflog';
+export {
+  CheckpointManager,
+  CHECKPOINT_REF_PREFIX,
+  type Checkpoint,
+  type CheckpointKind,
+  type RestoreOptions,
+} from './checkpoints';
+export {
+  mergeStructuredFile,
+  detectStructuredFormat,
+  isValidStructuredText,
+  formatStructuredPath,
+  type StructuredFormat,
+  type StructuredPath,
+  type StructuredConflict,
+  type StructuredDecision,
+  type StructuredConflictHandler,
+  type StructuredMergeResult,
+} from './structured-merge';
+export { mergePackageManifest, describeManifestConflict, isPackageManifest } from './package-manifest';
+export { formatBytes, isLockfile } from './binary-info';
+export {
+  checkResolvedContent,
+  hasConflictMarkers,
+  runValidationCommands,
+  type ValidationFailure,
+} from './validation';
 export {
   getConflictResolutionPlugins,
   registerConflictResolutionPlugin,
@@ -7,4 +86,5 @@ export {
 export type {
   ConflictResolutionPlugin,
   ConflictResolutionContext,
+  HunkResolution,
 } from './plugins/types';
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { GitAnalyzer } from './analyzer';
+import { ResolutionJournal, describeResolution } from './journal';
+import { TestRepo, conflictedMerge } from './test-repo';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+describe('ResolutionJournal', () => {
+  it('reads back the decisions it wrote with the commits being merged', async () => {
+    repo = conflictedMerge({ 'app.txt': 'a\nb\nc\n' }, { 'app.txt': 'a\nB1\nc\n' }, { 'app.txt': 'a\nB2\nc\n' });
+    const [conflict] = await new GitAnalyzer(repo.path).analyzeConflicts();
+    const journal = new ResolutionJournal(repo.path);
+
+    await journal.append(describeResolution(conflict, { strategy: ['manual:both'], replacements: ['B1\nB2'] }));
+    await journal.append([{ file: 'logo.png', strategy: 'fallback:current' }]);
+
+    const entries = await journal.read();
+
+    expect(entries).toEqual([
+      {
+        session: expect.any(String),
+        timestamp: expect.any(String),
+        file: 'app.txt',
+        hunk: 0,
+        lines: { start: 2, end: 6 },
+        strategy: 'manual:both',
+        base: 'b',
+        current: 'B1',
+        incoming: 'B2',
+        output: 'B1\nB2',
+        head: repo.git('rev-parse', 'HEAD').trim(),
+        mergeHeads: [repo.git('rev-parse', 'MERGE_HEAD').trim()],
+      },
+      expect.objectContaining({ file: 'logo.png', strategy: 'fallback:current' }),
+    ]);
+    // Entries from one run share its session
+    expect(entries[1].session).toBe(entries[0].session);
+  });
+
+  it('skips lines that do not parse and starts over once cleared', async () => {
+    repo = new TestRepo();
+    repo.commit('base', { 'app.txt': 'a\n' });
+    const journal = new ResolutionJournal(repo.path);
+
+    await journal.append([{ file: 'app.txt', strategy: 'manual:current' }]);
+    fs.appendFileSync(path.join(repo.path, '.git', 'smugit', 'journal'), '{"truncated\n');
+
+    expect(await journal.read()).toEqual([expect.objectContaining({ file: 'app.txt', strategy: 'manual:current' })]);
+
+    await journal.clear();
+
+    expect(await journal.read()).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ConflictType, GitConflict } from '@smugit/shared';
+
+import { splitResolvedHunks } from './conflict-content';
+
+/**
+ * One recorded decision: a conflict block (or a whole file) and what it became
+ */
+export interface JournalEntry {
+  /** Groups the entries written by one smugit run */
+  session: string;
+  timestamp: string;
+  file: string;
+  /** Index of the conflict block; absent when the whole file was decided at once */
+  hunk?: number;
+  lines?: { start: number; end: number };
+  /** Plugin name, or `fallback:<side>` / `manual:<choice>` */
+  strategy: string;
+  base?: string;
+  current?: string;
+  incoming?: string;
+  output?: string;
+  notes?: string[];
+  /** HEAD and the commits being merged in when the decision was made */
+  head?: string;
+  mergeHeads?: string[];
+}
+
+export type JournalRecord = Omit<JournalEntry, 'session' | 'timestamp' | 'head' | 'mergeHeads'>;
+
+export interface ResolutionDescription {
+  /** One strategy for the whole file, or one per block (undefined for blocks left alone) */
+  strategy: string | (string | undefined)[];
+  /** Resolved file content, used to recover each block's output */
+  content?: string;
+  /** Output per block, when the blocks were resolved one by one */
+  replacements?: (string | undefined)[];
+  notes?: string[];
+}
+
+/**
+ * Turns a resolution into journal records, one per conflict block where the
+ * block outputs can be recovered and one for the whole file otherwise
+ */
+export function describeResolution(conflict: GitConflict, resolution: ResolutionDescription): JournalRecord[] {
+  const wholeFile = conflict.type === ConflictType.BINARY || conflict.type === ConflictType.LOCKFILE;
+  const outputs =
+    resolution.replacements ??
+    (resolution.content !== undefined && !wholeFile ? splitResolvedHunks(conflict, resolution.content) : undefined);
+  const strategyOf = (index: number) =>
+    typeof resolution.strategy === 'string' ? resolution.strategy : resolution.strategy[index];
+
+  if (conflict.hunks.length === 0 || !outputs) {
+    return [
+      {
+        file: conflict.file,
+        strategy: typeof resolution.strategy === 'string' ? resolution.strategy : resolution.strategy.filter(Boolean).join(', '),
+        ...(resolution.content !== undefined && !wholeFile ? { output: resolution.content } : {}),
+        ...(resolution.notes?.length ? { notes: resolution.notes } : {}),
+      },
+    ];
+  }
+
+  return conflict.hunks.flatMap((hunk, index) => {
+    const strategy = strategyOf(index);
+    if (strategy === undefined || outputs[index] === undefined) {
+      return [];
+    }
+
+    return [
+      {
+        file: conflict.file,
+        hunk: index,
+        lines: { start: hunk.startLine, end: hunk.endLine },
+        strategy,
+        ...(hunk.hasBase ? { base: hunk.baseContent } : {}),
+        current: hunk.currentContent,
+        incoming: hunk.incomingContent,
+        output: outputs[index],
+        ...(resolution.notes?.length ? { notes: resolution.notes } : {}),
+      },
+    ];
+  });
+}
+
+/**
+ * Append-only record of conflict resolutions in `.git/smugit/journal`, one JSON
+ * object per line, so reviewers can see what was decided during a merge
+ */
+export class ResolutionJournal {
+  private git: SimpleGit;
+  private session: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.git = simpleGit(repoPath);
+    this.session = new Date().toISOString();
+  }
+
+  async append(records: JournalRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const journalPath = await this.getJournalPath();
+    const head = await this.revParse('HEAD');
+    const mergeHeads = await this.readMergeHeads();
+    const timestamp = new Date().toISOString();
+
+    const lines = records.map(record =>
+      JSON.stringify({
+        session: this.session,
+        timestamp,
+        ...record,
+        ...(head ? { head } : {}),
+        ...(mergeHeads.length > 0 ? { mergeHeads } : {}),
+      } satisfies JournalEntry)
+    );
+
+    await fs.mkdir(path.dirname(journalPath), { recursive: true });
+    await fs.appendFile(journalPath, `${lines.join('\n')}\n`, 'utf-8');
+  }
+
+  /**
+   * Reads every entry, oldest first. Lines that do not parse are skipped.
+   */
+  async read(): Promise<JournalEntry[]> {
+    const content = await fs.readFile(await this.getJournalPath(), 'utf-8').catch(() => '');
+
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as JournalEntry];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(await this.getJournalPath(), { force: true });
+  }
+
+  private async getJournalPath(): Promise<string> {
+    const gitDir = (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+    return path.join(gitDir, 'smugit', 'journal');
+  }
+
+  private async readMergeHeads(): Promise<string[]> {
+    const gitDir = (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+    const content = await fs.readFile(path.join(gitDir, 'MERGE_HEAD'), 'utf-8').catch(() => '');
+    return content.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  private async revParse(rev: string): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['rev-parse', '--verify', '-q', rev])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ConflictHunk, ConflictType, GitConflict, isTreeConflict } from '@smugit/shared';
+
+import { splitResolvedHunks } from './conflict-content';
+import { hasConflictMarkers } from './validation';
+
+/**
+ * How a conflict block was resolved once, replayed whenever the same block shows up again
+ */
+export interface LearnedResolution {
+  fingerprint: string;
+  /** File the resolution was learned from; it is replayed in any file */
+  file: string;
+  base?: string;
+  current: string;
+  incoming: string;
+  output: string;
+  /** `manual:<choice>` for interactive decisions, `edit` for blocks fixed by hand */
+  source: string;
+  learnedAt: string;
+}
+
+/** Conflicts left for the user, kept until their hand-made resolutions can be read back */
+interface PendingConflicts {
+  head?: string;
+  mergeHeads: string[];
+  /** Contents of MERGE_HEAD, REBASE_HEAD etc., identifying the operation in progress */
+  operation: string[];
+  conflicts: GitConflict[];
+}
+
+const OPERATION_HEADS = ['MERGE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD', 'REBASE_HEAD'];
+
+/**
+ * Identifies a conflict block by its normalized base, current and incoming text.
+ * The sides are sorted so the block matches when it comes back with ours and
+ * theirs swapped, e.g. in a rebase after a merge.
+ */
+export function fingerprintHunk(hunk: ConflictHunk): string {
+  const sides = [normalizeSide(hunk.currentContent), normalizeSide(hunk.incomingContent)].sort();
+  const base = hunk.hasBase ? normalizeSide(hunk.baseContent) : '';
+
+  return createHash('sha1').update([base, ...sides].join('\0')).digest('hex');
+}
+
+function normalizeSide(content: string): string {
+  return content
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+/**
+ * Rerere-style memory of conflict resolutions in `.git/smugit/learned`, one JSON
+ * file per fingerprint. Set `smugit.learned.enabled` to false to opt out.
+ */
+export class ResolutionMemory {
+  private git: SimpleGit;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.git = simpleGit(repoPath);
+  }
+
+  async isEnabled(): Promise<boolean> {
+    try {
+      return (await this.git.raw(['config', '--get', 'smugit.learned.enabled'])).trim() !== 'false';
+    } catch {
+      return true;
+    }
+  }
+
+  async lookup(hunk: ConflictHunk): Promise<LearnedResolution | undefined> {
+    const entryPath = path.join(await this.getLearnedDir(), `${fingerprintHunk(hunk)}.json`);
+
+    try {
+      return JSON.parse(await fs.readFile(entryPath, 'utf-8')) as LearnedResolution;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async remember(file: string, hunk: ConflictHunk, output: string, source: string): Promise<LearnedResolution | undefined> {
+    if (hasConflictMarkers(output)) {
+      return undefined;
+    }
+
+    const entry: LearnedResolution = {
+      fingerprint: fingerprintHunk(hunk),
+      file,
+      ...(hunk.hasBase ? { base: hunk.baseContent } : {}),
+      current: hunk.currentContent,
+      incoming: hunk.incomingContent,
+      output,
+      source,
+      learnedAt: new Date().toISOString(),
+    };
+
+    const learnedDir = await this.getLearnedDir();
+    await fs.mkdir(learnedDir, { recursive: true });
+    await fs.writeFile(path.join(learnedDir, `${entry.fingerprint}.json`), `${JSON.stringify(entry, null, 2)}\n`, 'utf-8');
+
+    return entry;
+  }
+
+  /**
+   * Lists learned resolutions, newest first
+   */
+  async list(): Promise<LearnedResolution[]> {
+    const learnedDir = await this.getLearnedDir();
+    const names = await fs.readdir(learnedDir).catch(() => [] as string[]);
+    const entries: LearnedResolution[] = [];
+
+    for (const name of names.filter(name => name.endsWith('.json'))) {
+      try {
+        entries.push(JSON.parse(await fs.readFile(path.join(learnedDir, name), 'utf-8')) as LearnedResolution);
+      } catch {
+        // Ignore entries that were only partly written
+      }
+    }
+
+    return entries.sort((a, b) => b.learnedAt.localeCompare(a.learnedAt));
+  }
+
+  /**
+   * Deletes the resolutions whose fingerprint starts with `target` or that were
+   * learned from the file `target`
+   */
+  async forget(target: string): Promise<LearnedResolution[]> {
+    const learnedDir = await this.getLearnedDir();
+    const matches = (await this.list()).filter(
+      entry => entry.file === target || (target.length >= 4 && entry.fingerprint.startsWith(target))
+    );
+
+    for (const entry of matches) {
+      await fs.rm(path.join(learnedDir, `${entry.fingerprint}.json`), { force: true });
+    }
+
+    return matches;
+  }
+
+  async clear(): Promise<number> {
+    const entries = await this.list();
+    await fs.rm(await this.getLearnedDir(), { recursive: true, force: true });
+    return entries.length;
+  }
+
+  /**
+   * Remembers the conflicts left for the user so their resolutions can be
+   * learned once the files are fixed by hand
+   */
+  async track(conflicts: GitConflict[]): Promise<void> {
+    const pendingPath = await this.getPendingPath();
+    const trackable = conflicts.filter(
+      conflict =>
+        conflict.versions &&
+        conflict.hunks.length > 0 &&
+        conflict.type !== ConflictType.BINARY &&
+        conflict.type !== ConflictType.LOCKFILE &&
+        !isTreeConflict(conflict.type)
+    );
+
+    if (trackable.length === 0 || !(await this.isEnabled())) {
+      await fs.rm(pendingPath, { force: true });
+      return;
+    }
+
+    const pending: PendingConflicts = {
+      head: await this.revParse('HEAD'),
+      mergeHeads: await this.readHeadFile('MERGE_HEAD'),
+      operation: await this.readOperation(),
+      conflicts: trackable,
+    };
+
+    await fs.mkdir(path.dirname(pendingPath), { recursive: true });
+    await fs.writeFile(pendingPath, JSON.stringify(pending), 'utf-8');
+  }
+
+  /**
+   * Learns from tracked conflicts the user has since resolved: staged without
+   * markers while the operation is still in progress, or committed as part of
+   * the merge. Tracking is dropped when the operation was abandoned.
+   */
+  async learnFromEdits(): Promise<LearnedResolution[]> {
+    const pendingPath = await this.getPendingPath();
+    const pending = await fs
+      .readFile(pendingPath, 'utf-8')
+      .then(content => JSON.parse(content) as PendingConflicts)
+      .catch(() => undefined);
+
+    if (!pending || !(await this.isEnabled())) {
+      return [];
+    }
+
+    const head = await this.revParse('HEAD');
+    const sameOperation = head === pending.head && sameLines(await this.readOperation(), pending.operation);
+    const mergeCommitted =
+      !sameOperation &&
+      head !== undefined &&
+      pending.head !== undefined &&
+      pending.mergeHeads.length > 0 &&
+      sameLines(await this.readParents(head), [pending.head, ...pending.mergeHeads]);
+
+    if (!sameOperation && !mergeCommitted) {
+      await fs.rm(pendingPath, { force: true });
+      return [];
+    }
+
+    const learned: LearnedResolution[] = [];
+    const stillPending: GitConflict[] = [];
+
+    for (const conflict of pending.conflicts) {
+      const content = sameOperation
+        ? await this.readStagedResolution(conflict.file)
+        : await this.readCommittedFile(head as string, conflict.file);
+
+      if (content === undefined) {
+        if (sameOperation) {
+          stillPending.push(conflict);
+        }
+        continue;
+      }
+
+      const outputs = splitResolvedHunks(conflict, content) ?? [];
+      for (const [index, output] of outputs.entries()) {
+        const entry = await this.remember(conflict.file, conflict.hunks[index], output, 'edit');
+        if (entry) {
+          learned.push(entry);
+        }
+      }
+    }
+
+    if (stillPending.length > 0) {
+      await fs.writeFile(pendingPath, JSON.stringify({ ...pending, conflicts: stillPending }), 'utf-8');
+    } else {
+      await fs.rm(pendingPath, { force: true });
+    }
+
+    return learned;
+  }
+
+  private async readStagedResolution(filePath: string): Promise<string | undefined> {
+    const unmerged = (await this.git.raw(['ls-files', '-u', '--', filePath])).trim();
+    if (unmerged) {
+      return undefined;
+    }
+
+    const topLevel = (await this.git.raw(['rev-parse', '--show-toplevel'])).trim();
+    const content = await fs.readFile(path.join(topLevel, filePath), 'utf-8').catch(() => undefined);
+
+    return content === undefined || hasConflictMarkers(content) ? undefined : content;
+  }
+
+  private async readCommittedFile(commit: string, filePath: string): Promise<string | undefined> {
+    try {
+      return await this.git.raw(['show', `${commit}:${filePath}`]);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readParents(commit: string): Promise<string[]> {
+    const [, ...parents] = (await this.git.raw(['rev-list', '--parents', '-n', '1', commit])).trim().split(/\s+/);
+    return parents;
+  }
+
+  private async readOperation(): Promise<string[]> {
+    const operation: string[] = [];
+
+    for (const name of OPERATION_HEADS) {
+      operation.push(...(await this.readHeadFile(name)).map(commit => `${name} ${commit}`));
+    }
+
+    return operation;
+  }
+
+  private async readHeadFile(name: string): Promise<string[]> {
+    const content = await fs.readFile(path.join(await this.getGitDir(), name), 'utf-8').catch(() => '');
+    return content.split('\n').map(line => line.trim()).filter(Boolean);
+  }
+
+  private async revParse(rev: string): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['rev-parse', '--verify', '-q', rev])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async getLearnedDir(): Promise<string> {
+    return path.join(await this.getGitDir(), 'smugit', 'learned');
+  }
+
+  private async getPendingPath(): Promise<string> {
+    return path.join(await this.getGitDir(), 'smugit', 'learned-pending.json');
+  }
+
+  private async getGitDir(): Promise<string> {
+    return (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+  }
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  const sortedB = [...b].sort();
+  return a.length === b.length && [...a].sort().every((line, index) => line === sortedB[index]);
+}
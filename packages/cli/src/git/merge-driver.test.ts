@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { MergeDriver } from './merge-driver';
+import { TestRepo } from './test-repo';
+
+// Git runs the driver as a shell command, so it starts the CLI from source through tsx
+const TSX_CLI = createRequire(__filename).resolve('tsx/cli');
+const SMUGIT = `"${process.execPath}" "${TSX_CLI}" "${path.resolve(__dirname, '../cli.ts')}"`;
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+/** Commits `base`, `current` on main and `incoming` on feature, ready to merge */
+function divergedRepo(base: Record<string, string>, current: Record<string, string>, incoming: Record<string, string>) {
+  const repo = new TestRepo();
+  repo.commit('base', base);
+  repo.git('checkout', '-q', '-b', 'feature');
+  repo.commit('incoming', incoming);
+  repo.git('checkout', '-q', 'main');
+  repo.commit('current', current);
+  return repo;
+}
+
+describe('MergeDriver.merge', () => {
+  function writeVersions(versions: { base: string; current: string; incoming: string }) {
+    repo = new TestRepo();
+    Object.entries(versions).forEach(([side, content]) => repo!.write(side, content));
+    return { base: path.join(repo.path, 'base'), current: path.join(repo.path, 'current'), incoming: path.join(repo.path, 'incoming') };
+  }
+
+  it('is clean when a plugin resolves every block, and writes the result over our version', async () => {
+    const files = writeVersions({ base: '{"a": 1, "b": 2}\n', current: '{"a": 5, "b": 2}\n', incoming: '{"a": 1, "b": 3}\n' });
+
+    const result = await new MergeDriver(repo!.path).merge(files, 'config.json');
+
+    expect(result).toMatchObject({ clean: true, resolvedHunks: 1, totalHunks: 1, plugins: ['structured-data-merge'] });
+    expect(fs.readFileSync(files.current, 'utf-8')).toBe('{"a": 5, "b": 3}\n');
+  });
+
+  it('leaves the blocks it cannot resolve marked', async () => {
+    const files = writeVersions({ base: 'x\n', current: 'z\n', incoming: 'y\n' });
+
+    const result = await new MergeDriver(repo!.path).merge(files, 'notes.txt');
+
+    expect(result).toMatchObject({ clean: false, resolvedHunks: 0, totalHunks: 1 });
+    expect(fs.readFileSync(files.current, 'utf-8')).toBe(
+      '<<<<<<< HEAD\nz\n||||||| base\nx\n=======\ny\n>>>>>>> incoming\n'
+    );
+  });
+
+  it('skips lockfiles for smugit fix', async () => {
+    const files = writeVersions({ base: '{}\n', current: '{"a": 1}\n', incoming: '{"b": 1}\n' });
+
+    expect(await new MergeDriver(repo!.path).merge(files, 'package-lock.json')).toMatchObject({
+      clean: false,
+      skipped: 'lockfiles are regenerated by smugit fix',
+    });
+  });
+});
+
+describe('smugit merge-driver', () => {
+  const install = (target: TestRepo) =>
+    new MergeDriver(target.path).install({ command: SMUGIT, patterns: ['*.json', '*.txt'] });
+
+  it('registers the driver and its attributes once', async () => {
+    repo = new TestRepo();
+
+    expect(await install(repo)).toEqual(['*.json merge=smugit', '*.txt merge=smugit']);
+    expect(await install(repo)).toEqual([]);
+    expect(repo.git('config', 'merge.smugit.driver').trim()).toBe(`${SMUGIT} merge-driver %O %A %B %P --marker-size %L`);
+    expect(repo.read('.gitattributes')).toBe('*.json merge=smugit\n*.txt merge=smugit\n');
+  });
+
+  it('exits cleanly when the plugins merge the file, letting git commit the merge', async () => {
+    repo = divergedRepo(
+      { 'config.json': '{"a": 1, "b": 2}\n' },
+      { 'config.json': '{"a": 5, "b": 2}\n' },
+      { 'config.json': '{"a": 1, "b": 3}\n' }
+    );
+    await install(repo);
+
+    repo.git('merge', '--no-edit', 'feature');
+
+    expect(repo.read('config.json')).toBe('{"a": 5, "b": 3}\n');
+    expect(repo.status()).toEqual(['?? .gitattributes']);
+    expect(repo.git('rev-parse', 'HEAD^2').trim()).toBe(repo.git('rev-parse', 'feature').trim());
+  }, 30_000);
+
+  it('exits non-zero and leaves markers when blocks need review', async () => {
+    repo = divergedRepo({ 'notes.txt': 'x\n' }, { 'notes.txt': 'z\n' }, { 'notes.txt': 'y\n' });
+    await install(repo);
+
+    expect(() => repo!.git('merge', '--no-edit', 'feature')).toThrow('1 of 1 block(s) in notes.txt need manual review');
+
+    expect(repo.read('notes.txt')).toBe('<<<<<<< HEAD\nz\n||||||| base\nx\n=======\ny\n>>>>>>> incoming\n');
+    expect(repo.status()).toEqual(['UU notes.txt', '?? .gitattributes']);
+  }, 30_000);
+});
@@ -0,0 +1,166 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import simpleGit, { SimpleGit } from 'simple-git';
+
+import { GitAnalyzer } from './analyzer';
+import { ConflictResolver } from './resolver';
+import { isLockfile, looksBinary } from './binary-info';
+import { DEFAULT_MARKER_SIZE, renderConflictedContent } from './conflict-content';
+
+const execFileAsync = promisify(execFile);
+
+/** Name used in `merge=smugit` attributes and the `merge.smugit.*` config */
+export const MERGE_DRIVER_NAME = 'smugit';
+
+export interface MergeDriverFiles {
+  /** %O: the common ancestor */
+  base: string;
+  /** %A: our version, overwritten with the merge result */
+  current: string;
+  /** %B: their version */
+  incoming: string;
+  /** Where to write the result, when not over `current` (git mergetool's $MERGED) */
+  output?: string;
+}
+
+export interface MergeDriverResult {
+  clean: boolean;
+  resolvedHunks: number;
+  totalHunks: number;
+  plugins: string[];
+  notes: string[];
+  /** Why the file was left as our version for smugit fix to handle later */
+  skipped?: string;
+}
+
+export interface InstallDriverOptions {
+  /** Write to the user's global git config instead of the repository's */
+  global?: boolean;
+  /** How git should invoke smugit, e.g. `npx smugit` */
+  command?: string;
+  /** Globs to route through the driver in .gitattributes */
+  patterns?: string[];
+}
+
+/**
+ * Lets git call smugit's plugin pipeline directly while merging, instead of
+ * writing conflict markers first
+ */
+export class MergeDriver {
+  private git: SimpleGit;
+  private repoPath: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+    this.git = simpleGit(repoPath);
+  }
+
+  /**
+   * Merges the three versions of `filePath` into `files.output` (by default
+   * `files.current`). The result is clean only when every block was resolved;
+   * otherwise the remaining blocks keep their markers.
+   */
+  async merge(
+    files: MergeDriverFiles,
+    filePath: string,
+    markerSize: number = DEFAULT_MARKER_SIZE
+  ): Promise<MergeDriverResult> {
+    const [base, current, incoming] = await Promise.all(
+      [files.base, files.current, files.incoming].map(file => fs.readFile(file))
+    );
+    const output = files.output ?? files.current;
+    const unresolved = { clean: false, resolvedHunks: 0, totalHunks: 0, plugins: [], notes: [] };
+
+    // Lockfiles are regenerated and binaries picked whole by smugit fix, once the index has every stage
+    if (isLockfile(filePath)) {
+      return { ...unresolved, skipped: 'lockfiles are regenerated by smugit fix' };
+    }
+    if ([base, current, incoming].some(content => looksBinary(filePath, content))) {
+      return { ...unresolved, skipped: 'binary files are resolved with smugit fix' };
+    }
+
+    const conflict = await new GitAnalyzer(this.repoPath).analyzeVersions(
+      filePath,
+      { base: base.toString('utf-8'), current: current.toString('utf-8'), incoming: incoming.toString('utf-8') },
+      markerSize
+    );
+
+    if (conflict.hunks.length === 0) {
+      await fs.writeFile(output, renderConflictedContent(conflict) ?? '', 'utf-8');
+      return { ...unresolved, clean: true };
+    }
+
+    const resolution = await new ConflictResolver(this.repoPath).resolveContent(conflict);
+    await fs.writeFile(output, resolution.content, 'utf-8');
+
+    return {
+      clean: resolution.resolvedHunks === resolution.totalHunks,
+      resolvedHunks: resolution.resolvedHunks,
+      totalHunks: resolution.totalHunks,
+      plugins: resolution.plugins,
+      notes: resolution.notes,
+    };
+  }
+
+  /**
+   * Writes git's own conflict markers into `files.current`, used when the
+   * pipeline itself fails so the file never looks merged by mistake
+   */
+  async mergeWithGit(files: MergeDriverFiles, markerSize: number = DEFAULT_MARKER_SIZE): Promise<void> {
+    try {
+      await execFileAsync(
+        'git',
+        ['merge-file', `--marker-size=${markerSize}`, '-L', 'HEAD', '-L', 'base', '-L', 'incoming', files.current, files.base, files.incoming],
+        { cwd: this.repoPath }
+      );
+    } catch {
+      // merge-file exits with the number of conflicts it wrote
+    }
+  }
+
+  /**
+   * Registers the merge driver and the `git mergetool --tool=smugit` command in
+   * git config and, for the given globs, the driver in .gitattributes. Returns
+   * the attribute lines that were added.
+   */
+  async install(options: InstallDriverOptions = {}): Promise<string[]> {
+    const scope = options.global ? ['--global'] : [];
+    const command = options.command ?? 'smugit';
+
+    await this.git.raw(['config', ...scope, `merge.${MERGE_DRIVER_NAME}.name`, 'smugit conflict resolution plugins']);
+    await this.git.raw([
+      'config',
+      ...scope,
+      `merge.${MERGE_DRIVER_NAME}.driver`,
+      `${command} merge-driver %O %A %B %P --marker-size %L`,
+    ]);
+    await this.git.raw([
+      'config',
+      ...scope,
+      `mergetool.${MERGE_DRIVER_NAME}.cmd`,
+      `${command} mergetool "$BASE" "$LOCAL" "$REMOTE" "$MERGED"`,
+    ]);
+    await this.git.raw(['config', ...scope, `mergetool.${MERGE_DRIVER_NAME}.trustExitCode`, 'true']);
+
+    if (!options.patterns?.length) {
+      return [];
+    }
+
+    const topLevel = (await this.git.raw(['rev-parse', '--show-toplevel'])).trim();
+    const attributesPath = path.join(topLevel, '.gitattributes');
+    const existing = await fs.readFile(attributesPath, 'utf-8').catch(() => '');
+    const existingLines = new Set(existing.split('\n').map(line => line.trim()));
+    const added = options.patterns
+      .map(pattern => `${pattern} merge=${MERGE_DRIVER_NAME}`)
+      .filter(line => !existingLines.has(line));
+
+    if (added.length > 0) {
+      const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+      await fs.writeFile(attributesPath, `${existing}${separator}${added.join('\n')}\n`, 'utf-8');
+    }
+
+    return added;
+  }
+}
@@ -0,0 +1,206 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { OperationManager, describeOperation } from './operation';
+import { TestRepo } from './test-repo';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+/**
+ * main and feature both change app.txt after the base commit; feature has two
+ * commits, the first of which conflicts with main
+ */
+function divergedRepo(): TestRepo {
+  const repo = new TestRepo();
+  repo.commit('base', { 'app.txt': 'a\n', 'other.txt': 'x\n' });
+  repo.git('checkout', '-q', '-b', 'feature');
+  repo.commit('change app on feature', { 'app.txt': 'feature\n' });
+  repo.commit('change other on feature', { 'other.txt': 'y\n' });
+  repo.git('checkout', '-q', 'main');
+  repo.commit('change app on main', { 'app.txt': 'main\n' });
+  return repo;
+}
+
+const detect = () => new OperationManager(repo!.path).detect();
+const shortHash = (rev: string) => repo!.git('rev-parse', '--short', rev).trim();
+
+describe('OperationManager.detect', () => {
+  it('finds nothing without an operation in progress', async () => {
+    repo = divergedRepo();
+
+    expect(await detect()).toBeUndefined();
+  });
+
+  it('reads a merge from MERGE_HEAD', async () => {
+    repo = divergedRepo();
+    repo.gitMayFail('merge', 'feature');
+
+    expect(await detect()).toEqual({ type: 'merge', current: 'main', incoming: 'feature' });
+  });
+
+  it('reads a squash merge from SQUASH_MSG', async () => {
+    repo = divergedRepo();
+    repo.gitMayFail('merge', '--squash', 'feature');
+
+    const operation = await detect();
+
+    expect(operation).toEqual({ type: 'merge', current: 'main', incoming: 'feature', squash: true });
+    expect(describeOperation(operation!)).toBe('Squashing feature into main');
+  });
+
+  it.each(['--merge', '--apply'])('reads a rebase %s with its progress and the commit being replayed', async backend => {
+    repo = divergedRepo();
+    repo.git('checkout', '-q', 'feature');
+    repo.gitMayFail('rebase', backend, 'main');
+
+    const operation = await detect();
+
+    expect(operation).toEqual({
+      type: 'rebase',
+      current: 'main',
+      incoming: shortHash('feature~1'),
+      subject: 'change app on feature',
+      branch: 'feature',
+      progress: { step: 1, total: 2 },
+    });
+    expect(describeOperation(operation!)).toBe(
+      `Rebasing feature onto main (commit 1 of 2), replaying ${shortHash('feature~1')} "change app on feature"`
+    );
+  });
+
+  it('reads a cherry-pick from CHERRY_PICK_HEAD', async () => {
+    repo = divergedRepo();
+    repo.gitMayFail('cherry-pick', 'feature~1');
+
+    expect(await detect()).toEqual({
+      type: 'cherry-pick',
+      current: 'main',
+      incoming: shortHash('feature~1'),
+      subject: 'change app on feature',
+    });
+  });
+
+  it('reads a revert from REVERT_HEAD', async () => {
+    repo = new TestRepo();
+    repo.commit('base', { 'app.txt': 'a\n' });
+    const reverted = repo.commit('first change', { 'app.txt': 'b\n' });
+    repo.commit('second change', { 'app.txt': 'c\n' });
+    repo.gitMayFail('revert', '--no-edit', reverted);
+
+    expect(await detect()).toEqual({
+      type: 'revert',
+      current: 'main',
+      incoming: shortHash(reverted),
+      subject: 'first change',
+    });
+  });
+
+  it('leaves conflicts without a state file unknown', async () => {
+    repo = divergedRepo();
+    repo.write('app.txt', 'stashed\n');
+    repo.git('stash');
+    repo.commit('change app again on main', { 'app.txt': 'main again\n' });
+    repo.gitMayFail('stash', 'pop');
+
+    expect(repo.status()).toContain('UU app.txt');
+    expect(await detect()).toBeUndefined();
+  });
+});
+
+describe('OperationManager.continue', () => {
+  const manager = () => new OperationManager(repo!.path);
+  const lastMessage = () => repo!.git('log', '-1', '--format=%B').trim();
+
+  async function resolvedMerge(): Promise<TestRepo> {
+    const merged = divergedRepo();
+    merged.gitMayFail('merge', 'feature');
+    merged.write('app.txt', 'resolved\n');
+    merged.git('add', 'app.txt');
+    return merged;
+  }
+
+  it("commits a merge with git's prepared message, without its conflict comments", async () => {
+    repo = await resolvedMerge();
+    const operations = manager();
+
+    expect(await operations.hasMergeMessage()).toBe(true);
+    await operations.continue((await operations.detect())!);
+
+    expect(lastMessage()).toBe("Merge branch 'feature'");
+    expect(await operations.detect()).toBeUndefined();
+  });
+
+  it('keeps a merge message the user edited', async () => {
+    repo = await resolvedMerge();
+    repo.write('.git/MERGE_MSG', 'Bring in the feature\n\nKeeps main\'s app.txt.\n');
+
+    await manager().continue((await manager().detect())!);
+
+    expect(lastMessage()).toBe("Bring in the feature\n\nKeeps main's app.txt.");
+  });
+
+  it('commits a merge with the message given', async () => {
+    repo = await resolvedMerge();
+
+    await manager().continue((await manager().detect())!, 'Merge feature');
+
+    expect(lastMessage()).toBe('Merge feature');
+    expect(repo.git('rev-parse', 'HEAD^2').trim()).toBe(repo.git('rev-parse', 'feature').trim());
+  });
+
+  it('refuses to commit while files are unmerged', async () => {
+    repo = divergedRepo();
+    repo.gitMayFail('merge', 'feature');
+    const head = repo.git('rev-parse', 'HEAD').trim();
+
+    await expect(manager().continue((await manager().detect())!)).rejects.toThrow('git commit failed');
+    expect(repo.git('rev-parse', 'HEAD').trim()).toBe(head);
+  });
+
+  it('continues a rebase with the original commit messages', async () => {
+    repo = divergedRepo();
+    repo.git('checkout', '-q', 'feature');
+    repo.gitMayFail('rebase', 'main');
+    repo.write('app.txt', 'resolved\n');
+    repo.git('add', 'app.txt');
+
+    await manager().continue((await manager().detect())!);
+
+    expect(await manager().detect()).toBeUndefined();
+    expect(repo.git('log', '--format=%s', 'main..HEAD').trim().split('\n')).toEqual([
+      'change other on feature',
+      'change app on feature',
+    ]);
+  });
+});
+
+describe('OperationManager.abort', () => {
+  it('puts a merge back as it was before it started', async () => {
+    repo = divergedRepo();
+    const head = repo.git('rev-parse', 'HEAD').trim();
+    repo.gitMayFail('merge', 'feature');
+    const operations = new OperationManager(repo.path);
+
+    await operations.abort((await operations.detect())!);
+
+    expect(repo.git('rev-parse', 'HEAD').trim()).toBe(head);
+    expect(repo.status()).toEqual([]);
+    expect(await operations.detect()).toBeUndefined();
+  });
+
+  it('resets a squash merge, which has no MERGE_HEAD to abort', async () => {
+    repo = divergedRepo();
+    repo.gitMayFail('merge', '--squash', 'feature');
+    const operations = new OperationManager(repo.path);
+
+    await operations.abort((await operations.detect())!);
+
+    expect(repo.status()).toEqual([]);
+    expect(repo.read('app.txt')).toBe('main\n');
+    expect(await operations.detect()).toBeUndefined();
+  });
+});
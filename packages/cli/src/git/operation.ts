@@ -0,0 +1,232 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { GitOperation } from '@smugit/shared';
+
+/** Labels for the two sides of a conflict, e.g. "Current (main)" */
+export interface SideLabels {
+  current: string;
+  incoming: string;
+}
+
+const DEFAULT_SIDES: SideLabels = { current: 'HEAD', incoming: 'merge branch' };
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Works out which git operation stopped with conflicts, from the state files
+ * git leaves in its directory, and carries it on or aborts it
+ */
+export class OperationManager {
+  private git: SimpleGit;
+  private repoPath: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+    this.git = simpleGit(repoPath);
+  }
+
+  async detect(): Promise<GitOperation | undefined> {
+    const gitDir = (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+    const read = (name: string) => fs.readFile(path.join(gitDir, name), 'utf-8').then(content => content.trim(), () => undefined);
+
+    for (const dir of ['rebase-merge', 'rebase-apply']) {
+      const onto = await read(path.join(dir, 'onto'));
+      if (onto === undefined) {
+        continue;
+      }
+
+      // rebase-merge counts with msgnum/end, the older apply backend with next/last
+      const step = Number(await read(path.join(dir, dir === 'rebase-merge' ? 'msgnum' : 'next')));
+      const total = Number(await read(path.join(dir, dir === 'rebase-merge' ? 'end' : 'last')));
+      const headName = await read(path.join(dir, 'head-name'));
+      const replaying = await read('REBASE_HEAD');
+
+      return {
+        type: 'rebase',
+        current: await this.nameCommit(onto),
+        incoming: replaying ? await this.shortHash(replaying) : 'unknown commit',
+        subject: replaying ? await this.subject(replaying) : undefined,
+        branch: headName?.startsWith('refs/heads/') ? headName.slice('refs/heads/'.length) : undefined,
+        progress: step > 0 && total > 0 ? { step, total } : undefined,
+      };
+    }
+
+    const mergeHeads = (await read('MERGE_HEAD'))?.split('\n').filter(Boolean);
+    if (mergeHeads && mergeHeads.length > 0) {
+      const names = await Promise.all(mergeHeads.map(head => this.nameCommit(head)));
+      return { type: 'merge', current: await this.currentBranch(), incoming: names.join(', ') };
+    }
+
+    // `git merge --squash` leaves no MERGE_HEAD, only a message listing the squashed commits, newest first
+    const squashMessage = await read('SQUASH_MSG');
+    if (squashMessage !== undefined) {
+      const tip = /^commit ([0-9a-f]+)/m.exec(squashMessage)?.[1];
+      return {
+        type: 'merge',
+        current: await this.currentBranch(),
+        incoming: tip ? await this.nameCommit(tip) : 'squashed commits',
+        squash: true,
+      };
+    }
+
+    for (const [file, type] of [['CHERRY_PICK_HEAD', 'cherry-pick'], ['REVERT_HEAD', 'revert']] as const) {
+      const commit = await read(file);
+      if (commit) {
+        return {
+          type,
+          current: await this.currentBranch(),
+          incoming: await this.shortHash(commit),
+          subject: await this.subject(commit),
+        };
+      }
+    }
+
+    // Conflicts without a state file, e.g. from `git stash pop`, `git am` or
+    // `git checkout -m`, are left unknown rather than guessed at
+    return undefined;
+  }
+
+  /**
+   * Whether git or the user prepared a message for the merge commit in MERGE_MSG
+   */
+  async hasMergeMessage(): Promise<boolean> {
+    const gitDir = (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+    const content = await fs.readFile(path.join(gitDir, 'MERGE_MSG'), 'utf-8').catch(() => '');
+    return content.trim() !== '';
+  }
+
+  /**
+   * Carries the operation on without opening an editor: commits a merge with
+   * `message`, or when omitted with git's MERGE_MSG or SQUASH_MSG cleaned up as
+   * the editor would, and continues a rebase, cherry-pick or revert with the
+   * original messages. Stopping again on conflicts at a later step, e.g. the
+   * next commit of a rebase, is not an error; call detect() to find out.
+   */
+  async continue(operation: GitOperation, message?: string): Promise<void> {
+    // Without -m, the no-op editor keeps the prepared message and git strips its "# Conflicts:" comments
+    const command =
+      operation.type === 'merge' ? ['commit', ...(message ? ['-m', message] : [])] : [operation.type, '--continue'];
+    const head = await this.head();
+
+    try {
+      // simple-git only fails on stderr output, and `rebase --continue` reports unmerged files on stdout
+      await execFileAsync('git', ['-c', 'core.editor=true', ...command], { cwd: this.repoPath });
+    } catch (error) {
+      // Only a failure once git got past the step it was on is a stop at the next one
+      const next = await this.detect();
+      const unmerged = (await this.git.raw(['ls-files', '-u'])).trim();
+      const movedOn = (await this.head()) !== head || next?.progress?.step !== operation.progress?.step;
+      if (!unmerged || !next || !movedOn) {
+        const { stderr, stdout } = error as { stderr?: string; stdout?: string };
+        throw new Error(`git ${command[0]} failed: ${(stderr || stdout || '').trim() || (error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Abandons the operation and puts HEAD, the index and the working tree back as
+   * they were before it started
+   */
+  async abort(operation: GitOperation): Promise<void> {
+    // A squash merge has no MERGE_HEAD for `git merge --abort` to go by
+    await this.git.raw(operation.squash ? ['reset', '--merge'] : [operation.type, '--abort']);
+  }
+
+  private async head(): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['rev-parse', '-q', '--verify', 'HEAD'])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async currentBranch(): Promise<string> {
+    try {
+      return (await this.git.raw(['symbolic-ref', '--short', '-q', 'HEAD'])).trim();
+    } catch {
+      return this.shortHash('HEAD');
+    }
+  }
+
+  /**
+   * Branch, remote branch or tag name for a commit, else its short hash
+   */
+  private async nameCommit(commit: string): Promise<string> {
+    try {
+      const name = (
+        await this.git.raw([
+          'name-rev',
+          '--name-only',
+          '--no-undefined',
+          '--refs=refs/heads/*',
+          '--refs=refs/remotes/*',
+          '--refs=refs/tags/*',
+          commit,
+        ])
+      ).trim();
+      return name.replace(/^(remotes|tags)\//, '').replace(/\^0$/, '');
+    } catch {
+      return this.shortHash(commit);
+    }
+  }
+
+  private async shortHash(commit: string): Promise<string> {
+    try {
+      return (await this.git.raw(['rev-parse', '--short', commit])).trim();
+    } catch {
+      return commit.slice(0, 7);
+    }
+  }
+
+  private async subject(commit: string): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['log', '-1', '--format=%s', commit])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * What each side of a conflict holds. Git's "ours" is the upstream during a
+ * rebase, and "theirs" is your own commit being replayed.
+ */
+export function describeSides(operation?: GitOperation): SideLabels {
+  if (!operation) {
+    return DEFAULT_SIDES;
+  }
+
+  switch (operation.type) {
+    case 'rebase':
+      return { current: `upstream ${operation.current}`, incoming: `your commit ${operation.incoming}` };
+    case 'cherry-pick':
+      return { current: operation.current, incoming: `picked ${operation.incoming}` };
+    case 'revert':
+      return { current: operation.current, incoming: `revert of ${operation.incoming}` };
+    case 'merge':
+      return { current: operation.current, incoming: operation.incoming };
+  }
+}
+
+/**
+ * One-line summary, e.g. "Rebasing feature onto main (commit 2 of 3)"
+ */
+export function describeOperation(operation: GitOperation): string {
+  const commit = operation.subject ? `${operation.incoming} "${operation.subject}"` : operation.incoming;
+
+  switch (operation.type) {
+    case 'merge':
+      return `${operation.squash ? 'Squashing' : 'Merging'} ${operation.incoming} into ${operation.current}`;
+    case 'rebase': {
+      const progress = operation.progress ? ` (commit ${operation.progress.step} of ${operation.progress.total})` : '';
+      return `Rebasing ${operation.branch ?? 'a detached HEAD'} onto ${operation.current}${progress}, replaying ${commit}`;
+    }
+    case 'cherry-pick':
+      return `Cherry-picking ${commit} onto ${operation.current}`;
+    case 'revert':
+      return `Reverting ${commit} on ${operation.current}`;
+  }
+}
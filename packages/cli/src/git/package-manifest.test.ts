@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { mergePackageManifest } from './package-manifest';
+
+describe('mergePackageManifest', () => {
+  const manifest = (fields: Record<string, unknown>) => `${JSON.stringify({ name: 'app', ...fields }, null, 2)}\n`;
+
+  it('keeps the higher of two overlapping dependency ranges', () => {
+    const result = mergePackageManifest('package.json', {
+      base: manifest({ dependencies: { chalk: '^5.0.0' } }),
+      current: manifest({ dependencies: { chalk: '^5.2.0' } }),
+      incoming: manifest({ dependencies: { chalk: '^5.3.0' } }),
+    });
+
+    expect(JSON.parse(result?.content ?? '{}').dependencies).toEqual({ chalk: '^5.3.0' });
+    expect(result?.notes[0]).toContain('kept ^5.3.0 over ^5.2.0');
+  });
+
+  it('leaves ranges that do not overlap for a person to pick', () => {
+    const result = mergePackageManifest('package.json', {
+      base: manifest({ dependencies: { chalk: '^4.0.0' } }),
+      current: manifest({ dependencies: { chalk: '^4.1.0' } }),
+      incoming: manifest({ dependencies: { chalk: '^5.0.0' } }),
+    });
+
+    expect(result?.content).toBeUndefined();
+    expect(result?.conflicts.map(conflict => conflict.path)).toEqual([['dependencies', 'chalk']]);
+  });
+
+  it('never picks a release version', () => {
+    const result = mergePackageManifest('package.json', {
+      base: manifest({ version: '1.0.0' }),
+      current: manifest({ version: '1.1.0' }),
+      incoming: manifest({ version: '2.0.0' }),
+    });
+
+    expect(result?.conflicts.map(conflict => conflict.path)).toEqual([['version']]);
+  });
+
+  it('unions workspace globs from both sides', () => {
+    const result = mergePackageManifest('package.json', {
+      base: manifest({ workspaces: ['packages/*'] }),
+      current: manifest({ workspaces: ['packages/*', 'apps/*'] }),
+      incoming: manifest({ workspaces: ['packages/*', 'tools/*'] }),
+    });
+
+    expect(JSON.parse(result?.content ?? '{}').workspaces).toEqual(['packages/*', 'apps/*', 'tools/*']);
+  });
+});
@@ -0,0 +1,169 @@
+import * as path from 'path';
+import semver from 'semver';
+import { ConflictVersions } from '@smugit/shared';
+
+import {
+  formatStructuredPath,
+  mergeStructuredFile,
+  StructuredConflict,
+  StructuredDecision,
+  StructuredMergeResult,
+} from './structured-merge';
+
+const DEPENDENCY_SECTIONS = new Set([
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+]);
+
+/**
+ * Checks whether a file is an npm package manifest
+ */
+export function isPackageManifest(filePath: string): boolean {
+  return path.basename(filePath) === 'package.json';
+}
+
+/**
+ * Merges a package.json as a tree, settling dependency ranges and workspaces
+ * with package semantics. Each decision is explained in the result notes.
+ */
+export function mergePackageManifest(
+  filePath: string,
+  versions: ConflictVersions
+): StructuredMergeResult | undefined {
+  return mergeStructuredFile(filePath, versions, resolveManifestConflict);
+}
+
+/**
+ * Describes a manifest conflict that was left for a person to decide
+ */
+export function describeManifestConflict(conflict: StructuredConflict): string {
+  const key = formatStructuredPath(conflict.path);
+
+  if (conflict.path.length === 1 && conflict.path[0] === 'version') {
+    return `version changed on both sides (${String(conflict.current)} vs ${String(conflict.incoming)}); pick the release version by hand`;
+  }
+
+  if (isDependencyPath(conflict.path)) {
+    if (conflict.current === undefined || conflict.incoming === undefined) {
+      return `${key} was removed on one side and changed on the other`;
+    }
+    return `${key} ranges ${String(conflict.current)} and ${String(conflict.incoming)} do not overlap`;
+  }
+
+  if (conflict.path[0] === 'scripts') {
+    return `${key} script was edited on both sides`;
+  }
+
+  return `${key} changed on both sides`;
+}
+
+function resolveManifestConflict(conflict: StructuredConflict): StructuredDecision | undefined {
+  // A release version collision is a human decision, never a guess
+  if (conflict.path.length === 1 && conflict.path[0] === 'version') {
+    return undefined;
+  }
+
+  if (isDependencyPath(conflict.path)) {
+    return pickDependencyRange(conflict);
+  }
+
+  if (isWorkspacesPath(conflict.path)) {
+    return unionWorkspaces(conflict);
+  }
+
+  return undefined;
+}
+
+function isDependencyPath(keyPath: StructuredConflict['path']): boolean {
+  return keyPath.length === 2 && DEPENDENCY_SECTIONS.has(String(keyPath[0]));
+}
+
+function isWorkspacesPath(keyPath: StructuredConflict['path']): boolean {
+  // Either "workspaces": [...] or Yarn's "workspaces": { "packages": [...] }
+  return (
+    keyPath[0] === 'workspaces' &&
+    (keyPath.length === 1 || (keyPath.length === 2 && keyPath[1] === 'packages'))
+  );
+}
+
+/**
+ * Keeps the higher of two overlapping ranges. Ranges that do not overlap (usually
+ * a major bump on one side) or are not semver at all are left as conflicts.
+ */
+function pickDependencyRange(conflict: StructuredConflict): StructuredDecision | undefined {
+  const { current, incoming } = conflict;
+  const name = formatStructuredPath(conflict.path);
+
+  if (typeof current !== 'string' || typeof incoming !== 'string') {
+    return undefined;
+  }
+
+  const currentRange = semver.validRange(current);
+  const incomingRange = semver.validRange(incoming);
+  if (!currentRange || !incomingRange || !semver.intersects(currentRange, incomingRange)) {
+    return undefined;
+  }
+
+  const currentMin = semver.minVersion(currentRange);
+  const incomingMin = semver.minVersion(incomingRange);
+  if (!currentMin || !incomingMin) {
+    return undefined;
+  }
+
+  const order = semver.compare(currentMin, incomingMin);
+
+  if (order !== 0) {
+    const [winner, loser] = order > 0 ? [current, incoming] : [incoming, current];
+    return {
+      value: winner,
+      note: `${name}: kept ${winner} over ${loser} (the ranges overlap and ${winner} requires the newer minimum version)`,
+    };
+  }
+
+  // Same floor: keep the range that also accepts everything the other one does
+  if (semver.subset(currentRange, incomingRange) && !semver.subset(incomingRange, currentRange)) {
+    return {
+      value: incoming,
+      note: `${name}: kept ${incoming} over ${current} (same minimum version, ${incoming} also allows later releases)`,
+    };
+  }
+
+  return {
+    value: current,
+    note: `${name}: kept ${current} over ${incoming} (same minimum version)`,
+  };
+}
+
+/**
+ * Unions workspace globs from both sides, dropping globs either side removed
+ */
+function unionWorkspaces(conflict: StructuredConflict): StructuredDecision | undefined {
+  const { base, current, incoming } = conflict;
+
+  if (!isStringList(current) || !isStringList(incoming) || (base !== undefined && !isStringList(base))) {
+    return undefined;
+  }
+
+  const baseGlobs = new Set(base ?? []);
+  const removed = new Set(
+    [...baseGlobs].filter(glob => !current.includes(glob) || !incoming.includes(glob))
+  );
+  const merged = [...new Set([...current, ...incoming])].filter(glob => !removed.has(glob));
+
+  const added = merged.filter(glob => !current.includes(glob));
+  const details = [
+    added.length > 0 ? `added ${added.join(', ')} from incoming` : undefined,
+    removed.size > 0 ? `dropped ${[...removed].join(', ')}` : undefined,
+  ].filter(Boolean);
+
+  return {
+    value: merged,
+    note: `${formatStructuredPath(conflict.path)}: unioned workspace globs${details.length > 0 ? ` (${details.join('; ')})` : ''}`,
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -1,28 +1,25 @@
-import { ConflictComplexity, ConflictType, GitConflict } from '@smugit/shared';
+import { exec } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ConflictComplexity, ConflictHunk, ConflictType, GitConflict, isTreeConflict } from '@smugit/shared';
 import { ConflictResolutionPlugin, ConflictResolutionContext, PluginResolution } from './types';
+import { mergeHunkThreeWay } from '../three-way-merge';
+import { renderResolvedContent } from '../conflict-content';
+import { detectStructuredFormat, mergeStructuredFile } from '../structured-merge';
+import { isPackageManifest, mergePackageManifest } from '../package-manifest';
+import { ASTConflictResolver, isScriptFile } from '../ast-resolver';
+import { hasConflictMarkers } from '../validation';
+import { LearnedResolution, ResolutionMemory } from '../learned-resolutions';
 
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+const execAsync = promisify(exec);
 
 async function replaceConflictBlocks(
   conflict: GitConflict,
   context: ConflictResolutionContext,
   replacer: (hunkIndex: number) => string
 ): Promise<string> {
-  let resolvedContent = await context.readFile(conflict.file);
-
-  conflict.hunks.forEach((hunk, index) => {
-    const replacement = replacer(index);
-    const conflictPattern = new RegExp(
-      `${escapeRegExp(hunk.conflictMarkers.start)}[\\s\\S]*?${escapeRegExp(hunk.conflictMarkers.end)}`,
-      's'
-    );
-
-    resolvedContent = resolvedContent.replace(conflictPattern, replacement);
-  });
-
-  return resolvedContent;
+  return renderResolvedContent(conflict, context.readFile, replacer);
 }
 
 function normalizeWhitespace(content: string): string {
@@ -73,6 +70,12 @@ function sortImports(imports: string[]): string[] {
   });
 }
 
+function mergeImportBlock(hunk: ConflictHunk): string {
+  const currentImports = extractImports(hunk.currentContent);
+  const incomingImports = extractImports(hunk.incomingContent);
+  return sortImports(mergeImports(currentImports, incomingImports)).join('\n');
+}
+
 function splitLines(content: string): string[] {
   return content.split('\n');
 }
@@ -273,8 +276,7 @@ function mergeKeyValueLines(currentLines: string[], incomingLines: string[]): st
     .join('\n');
 }
 
-function computeContentReplacement(conflict: GitConflict, hunkIndex: number): string | undefined {
-  const hunk = conflict.hunks[hunkIndex];
+function computeContentReplacement(hunk: ConflictHunk): string | undefined {
   const trimmedCurrent = hunk.currentContent.trim();
   const trimmedIncoming = hunk.incomingContent.trim();
 
@@ -323,6 +325,244 @@ function computeContentReplacement(conflict: GitConflict, hunkIndex: number): st
   return undefined;
 }
 
+const threeWayPlugin: ConflictResolutionPlugin = {
+  name: 'three-way-merge',
+  priority: 5,
+  supports(conflict) {
+    if (conflict.type === ConflictType.LOCKFILE || conflict.type === ConflictType.BINARY) {
+      return false;
+    }
+
+    // Conflicts rebuilt from index stages may have no hunks left once one-sided edits are merged
+    const bothSides =
+      conflict.versions?.current !== undefined && conflict.versions?.incoming !== undefined;
+    const hasContent = conflict.hunks.length > 0 || bothSides;
+    return hasContent && conflict.hunks.every(hunk => hunk.hasBase);
+  },
+  async resolve(conflict, context) {
+    const results = conflict.hunks.map(hunk => mergeHunkThreeWay(hunk));
+
+    // A block edited differently on both sides is a real conflict; leave it to other strategies
+    if (results.some(result => !result.clean)) {
+      return null;
+    }
+
+    const resolvedContent = await replaceConflictBlocks(conflict, context, index => results[index].content ?? '');
+    const oneSidedEdits = results.reduce((total, result) => total + result.oneSidedEdits, 0);
+
+    return {
+      content: resolvedContent,
+      notes: [
+        oneSidedEdits > 0
+          ? `Applied ${oneSidedEdits} one-sided edit(s) against the merge base`
+          : 'Merged one-sided edits against the merge base',
+      ],
+    };
+  },
+  async resolveHunk(hunk) {
+    if (!hunk.hasBase) {
+      return null;
+    }
+
+    const result = mergeHunkThreeWay(hunk);
+    if (!result.clean || result.content === undefined) {
+      return null;
+    }
+
+    return {
+      content: result.content,
+      notes: [`Applied ${result.oneSidedEdits} one-sided edit(s) against the merge base`],
+    };
+  },
+};
+
+const packageManifestPlugin: ConflictResolutionPlugin = {
+  name: 'package-manifest-merge',
+  priority: 7,
+  supports(conflict) {
+    return (
+      isPackageManifest(conflict.file) &&
+      conflict.versions?.current !== undefined &&
+      conflict.versions?.incoming !== undefined
+    );
+  },
+  async resolve(conflict) {
+    const result = conflict.versions ? mergePackageManifest(conflict.file, conflict.versions) : undefined;
+
+    if (!result || result.content === undefined) {
+      return null;
+    }
+
+    return {
+      content: result.content,
+      notes: result.notes,
+    };
+  },
+};
+
+const structuredDataPlugin: ConflictResolutionPlugin = {
+  name: 'structured-data-merge',
+  priority: 8,
+  supports(conflict) {
+    if (conflict.type === ConflictType.LOCKFILE || isTreeConflict(conflict.type)) {
+      return false;
+    }
+
+    return (
+      detectStructuredFormat(conflict.file) !== undefined &&
+      conflict.versions?.current !== undefined &&
+      conflict.versions?.incoming !== undefined
+    );
+  },
+  async resolve(conflict) {
+    const result = conflict.versions ? mergeStructuredFile(conflict.file, conflict.versions) : undefined;
+
+    // Key-level conflicts still need a person (or a more specific plugin)
+    if (!result || result.content === undefined) {
+      return null;
+    }
+
+    return {
+      content: result.content,
+      notes: result.notes,
+    };
+  },
+};
+
+const DEFAULT_LOCKFILE_COMMANDS: Record<string, string> = {
+  'package-lock.json': 'npm install --package-lock-only --ignore-scripts --offline --no-audit --no-fund',
+  'npm-shrinkwrap.json': 'npm install --package-lock-only --ignore-scripts --offline --no-audit --no-fund',
+  'yarn.lock': 'yarn install --ignore-scripts --offline',
+  'pnpm-lock.yaml': 'pnpm install --lockfile-only --ignore-scripts --offline',
+};
+
+const LOCKFILE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const lockfilePlugin: ConflictResolutionPlugin = {
+  name: 'lockfile-regenerate',
+  priority: 15,
+  supports(conflict) {
+    return conflict.type === ConflictType.LOCKFILE;
+  },
+  async resolve(conflict, context) {
+    const lockfileName = path.basename(conflict.file);
+    // e.g. git config smugit.yarn.lock.command "yarn install --mode=update-lockfile"
+    const command =
+      (await context.getConfig(`${lockfileName}.command`)) ?? DEFAULT_LOCKFILE_COMMANDS[lockfileName];
+
+    if (!command) {
+      return null;
+    }
+
+    // Regenerating against a manifest that still has markers would fail or guess
+    const manifestPath = path.join(path.dirname(conflict.file), 'package.json');
+    const manifest = await context.readFile(manifestPath).catch(() => undefined);
+    if (manifest === undefined || hasConflictMarkers(manifest)) {
+      return null;
+    }
+
+    if (context.dryRun) {
+      return {
+        content: conflict.versions?.current ?? '',
+        notes: [`Would regenerate with \`${command}\``],
+      };
+    }
+
+    const fullPath = path.join(context.repoPath, conflict.file);
+    const original = await context.readFile(conflict.file);
+    const startingPoint = conflict.versions?.current ?? conflict.versions?.incoming;
+
+    try {
+      // Start from our lockfile so the package manager only applies the manifest changes
+      if (startingPoint !== undefined) {
+        await fs.writeFile(fullPath, startingPoint, 'utf-8');
+      }
+
+      await execAsync(command, {
+        cwd: path.dirname(fullPath),
+        timeout: LOCKFILE_TIMEOUT_MS,
+        env: { ...process.env, CI: '1' },
+      });
+
+      return {
+        content: await context.readFile(conflict.file),
+        notes: [`Regenerated with \`${command}\``],
+      };
+    } catch {
+      await fs.writeFile(fullPath, original, 'utf-8');
+      return null;
+    }
+  },
+};
+
+async function lookupLearnedResolutions(
+  hunks: ConflictHunk[],
+  context: ConflictResolutionContext
+): Promise<(LearnedResolution | undefined)[]> {
+  // Opt out with smugit.learned.enabled=false
+  if ((await context.getConfig('learned.enabled')) === 'false') {
+    return hunks.map(() => undefined);
+  }
+
+  const memory = new ResolutionMemory(context.repoPath);
+  return Promise.all(hunks.map(hunk => memory.lookup(hunk)));
+}
+
+function describeLearnedResolution(learned: LearnedResolution): string {
+  return `Replayed the resolution of ${learned.file} from ${learned.learnedAt.slice(0, 10)} (${learned.source})`;
+}
+
+const learnedResolutionPlugin: ConflictResolutionPlugin = {
+  name: 'learned-resolution',
+  priority: 1,
+  supports(conflict) {
+    return (
+      conflict.hunks.length > 0 &&
+      conflict.type !== ConflictType.BINARY &&
+      conflict.type !== ConflictType.LOCKFILE &&
+      !isTreeConflict(conflict.type)
+    );
+  },
+  async resolve(conflict, context) {
+    const learned = await lookupLearnedResolutions(conflict.hunks, context);
+    if (learned.some(entry => entry === undefined)) {
+      return null;
+    }
+
+    const resolvedContent = await replaceConflictBlocks(conflict, context, index => learned[index]!.output);
+    const notes = [...new Set(learned.map(entry => describeLearnedResolution(entry!)))];
+
+    return { content: resolvedContent, notes };
+  },
+  async resolveHunk(hunk, _conflict, context) {
+    const [learned] = await lookupLearnedResolutions([hunk], context);
+
+    return learned ? { content: learned.output, notes: [describeLearnedResolution(learned)] } : null;
+  },
+};
+
+const binaryPlugin: ConflictResolutionPlugin = {
+  name: 'binary-side-preference',
+  priority: 15,
+  supports(conflict) {
+    return conflict.type === ConflictType.BINARY;
+  },
+  async resolve(conflict, context) {
+    // Only resolves unattended when the team opted in, e.g. smugit.binary.prefer=incoming
+    const preference = await context.getConfig('binary.prefer');
+
+    if ((preference !== 'current' && preference !== 'incoming') || !conflict.binary?.[preference]) {
+      return null;
+    }
+
+    return {
+      content: '',
+      side: preference,
+      notes: [`Kept ${preference} version (smugit.binary.prefer)`],
+    };
+  },
+};
+
 const whitespacePlugin: ConflictResolutionPlugin = {
   name: 'whitespace-normalizer',
   priority: 10,
@@ -340,6 +580,16 @@ const whitespacePlugin: ConflictResolutionPlugin = {
       notes: ['Normalized whitespace differences'],
     };
   },
+  async resolveHunk(hunk) {
+    if (hunk.type !== ConflictType.WHITESPACE) {
+      return null;
+    }
+
+    return {
+      content: normalizeWhitespace(hunk.incomingContent),
+      notes: ['Normalized whitespace differences'],
+    };
+  },
 };
 
 const importPlugin: ConflictResolutionPlugin = {
@@ -349,20 +599,64 @@ const importPlugin: ConflictResolutionPlugin = {
     return conflict.type === ConflictType.IMPORT;
   },
   async resolve(conflict, context) {
-    const resolvedContent = await replaceConflictBlocks(conflict, context, index => {
-      const hunk = conflict.hunks[index];
-      const currentImports = extractImports(hunk.currentContent);
-      const incomingImports = extractImports(hunk.incomingContent);
-      const mergedImports = mergeImports(currentImports, incomingImports);
-      const sortedImports = sortImports(mergedImports);
-      return sortedImports.join('\n');
-    });
+    const resolvedContent = await replaceConflictBlocks(conflict, context, index =>
+      mergeImportBlock(conflict.hunks[index])
+    );
 
     return {
       content: resolvedContent,
       notes: ['Merged and sorted import statements'],
     };
   },
+  async resolveHunk(hunk) {
+    if (hunk.type !== ConflictType.IMPORT) {
+      return null;
+    }
+
+    return {
+      content: mergeImportBlock(hunk),
+      notes: ['Merged and sorted import statements'],
+    };
+  },
+};
+
+const astResolver = new ASTConflictResolver();
+
+// Code conflicts that are not plain import or whitespace clashes
+const AST_CONFLICT_TYPES = new Set([ConflictType.STRUCTURAL, ConflictType.CONTENT]);
+
+const astPlugin: ConflictResolutionPlugin = {
+  name: 'ast-merge',
+  priority: 25,
+  supports(conflict) {
+    const hasContent =
+      conflict.hunks.length > 0 ||
+      (conflict.versions?.current !== undefined && conflict.versions?.incoming !== undefined);
+
+    return AST_CONFLICT_TYPES.has(conflict.type) && isScriptFile(conflict.file) && hasContent;
+  },
+  async resolve(conflict, context) {
+    const result = await astResolver.resolveStructuralConflict(conflict);
+    const hunkContents = result.hunkContents;
+
+    if (!result.success || (result.fileContent === undefined && !hunkContents)) {
+      return null;
+    }
+
+    const resolvedContent =
+      result.fileContent ??
+      (await replaceConflictBlocks(conflict, context, index => hunkContents?.[index] ?? ''));
+
+    // A merge that no longer parses is worse than leaving the conflict in place
+    if (!astResolver.isValidSource(resolvedContent, conflict.file)) {
+      return null;
+    }
+
+    return {
+      content: resolvedContent,
+      notes: result.notes?.length ? result.notes : ['Merged declarations from both sides'],
+    };
+  },
 };
 
 const simpleContentPlugin: ConflictResolutionPlugin = {
@@ -377,12 +671,17 @@ const simpleContentPlugin: ConflictResolutionPlugin = {
       return false;
     }
 
-    return conflict.hunks.every((_, index) => computeContentReplacement(conflict, index) !== undefined);
+    // Parseable config files are left to the structural plugins so key clashes stay flagged
+    if (conflict.versions && mergeStructuredFile(conflict.file, conflict.versions) !== undefined) {
+      return false;
+    }
+
+    return conflict.hunks.every(hunk => computeContentReplacement(hunk) !== undefined);
   },
   async resolve(conflict, context) {
     const replacements: string[] = [];
     const resolvedContent = await replaceConflictBlocks(conflict, context, index => {
-      const replacement = computeContentReplacement(conflict, index);
+      const replacement = computeContentReplacement(conflict.hunks[index]);
       if (replacement === undefined) {
         throw new Error('Simple content plugin could not compute replacement');
       }
@@ -400,10 +699,29 @@ const simpleContentPlugin: ConflictResolutionPlugin = {
       notes,
     };
   },
+  async resolveHunk(hunk, conflict) {
+    if (hunk.type !== ConflictType.CONTENT || hunk.complexity === ConflictComplexity.COMPLEX) {
+      return null;
+    }
+
+    if (conflict.versions && mergeStructuredFile(conflict.file, conflict.versions) !== undefined) {
+      return null;
+    }
+
+    const replacement = computeContentReplacement(hunk);
+    return replacement === undefined ? null : { content: replacement, notes: ['Merged compatible content'] };
+  },
 };
 
 export const builtinPlugins: ConflictResolutionPlugin[] = [
+  learnedResolutionPlugin,
+  threeWayPlugin,
+  packageManifestPlugin,
+  structuredDataPlugin,
+  lockfilePlugin,
+  binaryPlugin,
   whitespacePlugin,
   importPlugin,
+  astPlugin,
   simpleContentPlugin,
 ];
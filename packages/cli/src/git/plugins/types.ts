@@ -1,13 +1,24 @@
-import { GitConflict } from '@smugit/shared';
+import { ConflictHunk, GitConflict } from '@smugit/shared';
 
 export interface ConflictResolutionContext {
   repoPath: string;
+  dryRun: boolean;
   readFile(filePath: string): Promise<string>;
+  /** Reads a `smugit.<key>` git config value */
+  getConfig(key: string): Promise<string | undefined>;
 }
 
 export interface PluginResolution {
   content: string;
   notes?: string[];
+  /** Take this side's blob as-is instead of writing `content` (used for binary files) */
+  side?: 'current' | 'incoming';
+}
+
+export interface HunkResolution {
+  /** Replacement text for the conflict block, without markers */
+  content: string;
+  notes?: string[];
 }
 
 export interface ConflictResolutionPlugin {
@@ -18,4 +29,13 @@ export interface ConflictResolutionPlugin {
     conflict: GitConflict,
     context: ConflictResolutionContext
   ): Promise<PluginResolution | null>;
+  /**
+   * Resolves one block of a file no plugin could resolve as a whole. Blocks every
+   * plugin declines keep their markers.
+   */
+  resolveHunk?(
+    hunk: ConflictHunk,
+    conflict: GitConflict,
+    context: ConflictResolutionContext
+  ): Promise<HunkResolution | null>;
 }
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { MergePreflight, parseMergeTree } from './preflight';
+import { TestRepo } from './test-repo';
+
+const TREE = '51e47ece780cae66d76a98200b93bd7906c497ad';
+
+describe('parseMergeTree', () => {
+  it('splits the tree, the conflicted entries and the messages', () => {
+    const output = [
+      TREE,
+      '100644 8371af6f2ce8f1ac0a992b103fe367bda8dfe20a 1\tapp.js',
+      '100644 153df4a6bbbb9b11c597ee1bd817c0bd3f2e5e5f 2\tapp.js',
+      '100644 87175627c625354fc38bb9752abe818ff0e2ee4b 3\tapp.js',
+      '',
+      '1',
+      'app.js',
+      'Auto-merging',
+      'Auto-merging app.js\n',
+      '1',
+      'app.js',
+      'CONFLICT (contents)',
+      'CONFLICT (content): Merge conflict in app.js\n',
+      '',
+    ].join('\0');
+
+    expect(parseMergeTree(output)).toEqual({
+      tree: TREE,
+      entries: [
+        '100644 8371af6f2ce8f1ac0a992b103fe367bda8dfe20a 1\tapp.js',
+        '100644 153df4a6bbbb9b11c597ee1bd817c0bd3f2e5e5f 2\tapp.js',
+        '100644 87175627c625354fc38bb9752abe818ff0e2ee4b 3\tapp.js',
+      ],
+      messages: [
+        { paths: ['app.js'], type: 'Auto-merging', message: 'Auto-merging app.js' },
+        { paths: ['app.js'], type: 'CONFLICT (contents)', message: 'CONFLICT (content): Merge conflict in app.js' },
+      ],
+    });
+  });
+
+  it('reads messages about several paths', () => {
+    const output = [
+      TREE,
+      '100644 8371af6f2ce8f1ac0a992b103fe367bda8dfe20a 1\told.js',
+      '',
+      '2',
+      'old.js',
+      'new.js',
+      'CONFLICT (rename/delete)',
+      'CONFLICT (rename/delete): old.js renamed to new.js in feature, but deleted in HEAD.\n',
+      '',
+    ].join('\0');
+
+    expect(parseMergeTree(output).messages).toEqual([
+      {
+        paths: ['old.js', 'new.js'],
+        type: 'CONFLICT (rename/delete)',
+        message: 'CONFLICT (rename/delete): old.js renamed to new.js in feature, but deleted in HEAD.',
+      },
+    ]);
+  });
+
+  it('reads a clean merge as a tree alone', () => {
+    expect(parseMergeTree(`${TREE}\0\0`)).toEqual({ tree: TREE, entries: [], messages: [] });
+  });
+});
+
+describe('MergePreflight.replay', () => {
+  const LINES = Array.from({ length: 9 }, (_, index) => `line ${index}`);
+  const withLines = (changes: Record<number, string>) =>
+    LINES.map((line, index) => changes[index] ?? line).join('\n') + '\n';
+
+  let repo: TestRepo | undefined;
+
+  afterEach(() => {
+    repo?.remove();
+    repo = undefined;
+  });
+
+  /** feature changes line 0, then line 8; main changes line 0 its own way */
+  function divergedRepo(): { repo: TestRepo; first: string; second: string } {
+    const repo = new TestRepo();
+    repo.commit('base', { 'app.txt': withLines({}), 'old.txt': 'old\n' });
+    repo.git('checkout', '-q', '-b', 'feature');
+    const first = repo.commit('first', { 'app.txt': withLines({ 0: 'feature 0' }) });
+    const second = repo.commit('second', { 'app.txt': withLines({ 0: 'feature 0', 8: 'feature 8' }) });
+    repo.git('checkout', '-q', 'main');
+    repo.commit('main', { 'app.txt': withLines({ 0: 'main 0' }), 'old.txt': 'changed\n' });
+    return { repo, first, second };
+  }
+
+  const show = (tree: string, file: string) => repo!.git('show', `${tree}:${file}`);
+
+  it("merges only the commit's own change, using its parent as the base", async () => {
+    const diverged = divergedRepo();
+    repo = diverged.repo;
+
+    // The branch as a whole conflicts on line 0, the second commit alone does not
+    const result = await new MergePreflight(repo.path).replay(diverged.second, 'main');
+
+    expect(result.conflicts).toEqual([]);
+    expect(show(result.tree, 'app.txt')).toBe(withLines({ 0: 'main 0', 8: 'feature 8' }));
+  });
+
+  it("carries on after a conflicted replay with the commit's version, so the next replay applies cleanly", async () => {
+    const diverged = divergedRepo();
+    repo = diverged.repo;
+    const preflight = new MergePreflight(repo.path);
+
+    const conflicted = await preflight.replay(diverged.first, 'main');
+
+    expect(conflicted.conflicts.map(conflict => conflict.file)).toEqual(['app.txt']);
+    expect(conflicted.conflicts[0].versions).toMatchObject({
+      current: withLines({ 0: 'main 0' }),
+      incoming: withLines({ 0: 'feature 0' }),
+    });
+    expect(show(conflicted.tree, 'app.txt')).toBe(withLines({ 0: 'feature 0' }));
+    // Files that did not conflict keep the upstream's version
+    expect(show(conflicted.tree, 'old.txt')).toBe('changed\n');
+
+    const clean = await preflight.replay(diverged.second, conflicted.tree);
+
+    expect(clean.conflicts).toEqual([]);
+    expect(show(clean.tree, 'app.txt')).toBe(withLines({ 0: 'feature 0', 8: 'feature 8' }));
+    expect(repo.status()).toEqual([]);
+  });
+
+  it('drops a file the replayed commit deleted', async () => {
+    repo = divergedRepo().repo;
+    repo.git('checkout', '-q', 'feature');
+    repo.git('rm', '-q', 'old.txt');
+    const deletion = repo.commit('delete old');
+    repo.git('checkout', '-q', 'main');
+
+    const result = await new MergePreflight(repo.path).replay(deletion, 'main');
+
+    expect(result.conflicts.map(conflict => conflict.file)).toEqual(['old.txt']);
+    expect(repo.git('ls-tree', '--name-only', result.tree).split('\n').filter(Boolean)).toEqual(['app.txt']);
+  });
+});
@@ -0,0 +1,249 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GitConflict } from '@smugit/shared';
+
+import { GitAnalyzer, GitAnalyzerOptions } from './analyzer';
+import { ConflictResolver } from './resolver';
+
+// Identity for the throwaway commits that give git's merge the right merge base
+const SCRATCH_IDENTITY = {
+  GIT_AUTHOR_NAME: 'smugit',
+  GIT_AUTHOR_EMAIL: 'smugit@localhost',
+  GIT_COMMITTER_NAME: 'smugit',
+  GIT_COMMITTER_EMAIL: 'smugit@localhost',
+};
+
+/** A note git printed while merging, e.g. "CONFLICT (content): Merge conflict in app.js" */
+export interface PreflightMessage {
+  paths: string[];
+  type: string;
+  message: string;
+}
+
+export interface PreflightResult {
+  /** The target as given, e.g. origin/main */
+  target: string;
+  /** Commit the target resolved to */
+  commit: string;
+  /** Tree git would write for the merge, with conflict markers in conflicted files */
+  tree: string;
+  clean: boolean;
+  conflicts: GitConflict[];
+  /** Conflicted files the resolution plugins would resolve without help */
+  autoResolvableFiles: string[];
+  messages: PreflightMessage[];
+}
+
+export interface ReplayResult {
+  /** Tree after the replay, with the commit's own version of each conflicted file */
+  tree: string;
+  conflicts: GitConflict[];
+  /** Conflicted files the resolution plugins would resolve without help */
+  autoResolvableFiles: string[];
+}
+
+export interface MergeTreeOutput {
+  tree: string;
+  entries: string[];
+  messages: PreflightMessage[];
+}
+
+/**
+ * Predicts the conflicts of merging a branch into HEAD with an in-memory
+ * `git merge-tree`, leaving the working tree, the index and HEAD alone
+ */
+export class MergePreflight {
+  private repoPath: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+  }
+
+  async run(target: string): Promise<PreflightResult> {
+    const commit = (await this.runGit(['rev-parse', '--verify', '-q', `${target}^{commit}`]).catch(() => '')).trim();
+    if (!commit) {
+      throw new Error(`Unknown branch or commit: ${target}`);
+    }
+
+    const { tree, entries, messages } = await this.mergeTree('HEAD', commit);
+    const conflicts = entries.length > 0 ? await this.analyzeEntries(entries, { incomingRev: commit }) : [];
+
+    return {
+      target,
+      commit,
+      tree,
+      clean: entries.length === 0,
+      conflicts,
+      autoResolvableFiles: await this.findAutoResolvable(conflicts),
+      messages,
+    };
+  }
+
+  /**
+   * Replays `commit` onto the tree of `onto` in memory, as a rebase or
+   * cherry-pick would. A conflicted replay carries on as if each conflict had
+   * been resolved in favour of the commit, so a series of replays can follow.
+   */
+  async replay(commit: string, onto: string): Promise<ReplayResult> {
+    // merge-tree picks the merge base itself, so make the commit's parent the
+    // only common ancestor of two throwaway commits
+    const parent = (await this.runGit(['rev-parse', '--verify', '-q', `${commit}^`]).catch(() => '')).trim();
+    const base = await this.commitTree(parent ? `${parent}^{tree}` : await this.emptyTree());
+    const [current, incoming] = await Promise.all([
+      this.commitTree(`${onto}^{tree}`, base),
+      this.commitTree(`${commit}^{tree}`, base),
+    ]);
+
+    const { tree, entries } = await this.mergeTree(current, incoming);
+    if (entries.length === 0) {
+      return { tree, conflicts: [], autoResolvableFiles: [] };
+    }
+
+    const conflicts = await this.analyzeEntries(entries, { currentRev: current, incomingRev: incoming });
+
+    return {
+      tree: await this.takeIncoming(tree, entries),
+      conflicts,
+      autoResolvableFiles: await this.findAutoResolvable(conflicts),
+    };
+  }
+
+  /**
+   * Files `smugit fix --auto` would resolve, from a dry run of the plugins
+   * without any fallback side
+   */
+  private async findAutoResolvable(conflicts: GitConflict[]): Promise<string[]> {
+    if (conflicts.length === 0) {
+      return [];
+    }
+    // There is no working tree copy of an in-memory merge to read the blocks from
+    const resolver = new ConflictResolver(this.repoPath, { inMemory: true });
+    return (await resolver.autoResolveConflicts(conflicts, true, 'none')).resolvedFiles;
+  }
+
+  private async mergeTree(current: string, incoming: string): Promise<MergeTreeOutput> {
+    const output = await this.runGit(['merge-tree', '--write-tree', '-z', '--messages', current, incoming], {
+      // Exit status 1 means the merge has conflicts; its output is still complete
+      allowedExitCodes: [1],
+    });
+    return parseMergeTree(output);
+  }
+
+  /**
+   * Loads conflicted stages into a scratch index, which the analyzer reads just
+   * as it reads the real one during a merge
+   */
+  private async analyzeEntries(entries: string[], options: GitAnalyzerOptions): Promise<GitConflict[]> {
+    return this.withScratchIndex(async indexFile => {
+      await this.runGit(['update-index', '--index-info'], {
+        env: { GIT_INDEX_FILE: indexFile },
+        input: entries.map(entry => `${entry}\n`).join(''),
+      });
+
+      return new GitAnalyzer(this.repoPath, { ...options, indexFile }).analyzeConflicts();
+    });
+  }
+
+  /**
+   * Writes `tree` with each conflicted path replaced by its stage 3 entry, or
+   * removed when the incoming side deleted it
+   */
+  private async takeIncoming(tree: string, entries: string[]): Promise<string> {
+    const paths = new Map<string, string>();
+    entries.forEach(entry => {
+      const [info, file] = entry.split('\t');
+      const [mode, object, stage] = info.split(' ');
+      if (stage === '3') {
+        paths.set(file, `${mode} ${object} 0\t${file}`);
+      } else if (!paths.has(file)) {
+        paths.set(file, `0 ${'0'.repeat(tree.length)}\t${file}`);
+      }
+    });
+
+    return this.withScratchIndex(async indexFile => {
+      const env = { GIT_INDEX_FILE: indexFile };
+      await this.runGit(['read-tree', tree], { env });
+      await this.runGit(['update-index', '--index-info'], { env, input: [...paths.values()].map(line => `${line}\n`).join('') });
+      return (await this.runGit(['write-tree'], { env })).trim();
+    });
+  }
+
+  private async withScratchIndex<T>(use: (indexFile: string) => Promise<T>): Promise<T> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smugit-preflight-'));
+    try {
+      return await use(path.join(tempDir, 'index'));
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private async commitTree(tree: string, parent?: string): Promise<string> {
+    const args = ['commit-tree', tree, ...(parent ? ['-p', parent] : []), '-m', 'smugit preflight'];
+    return (await this.runGit(args, { env: SCRATCH_IDENTITY })).trim();
+  }
+
+  private async emptyTree(): Promise<string> {
+    return (await this.runGit(['mktree'], { input: '' })).trim();
+  }
+
+  /**
+   * Runs git with extra environment or stdin, which simple-git does not pass
+   * through, and exit codes that are not failures
+   */
+  private runGit(
+    args: string[],
+    options: { env?: Record<string, string>; input?: string; allowedExitCodes?: number[] } = {}
+  ): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        'git',
+        args,
+        { cwd: this.repoPath, env: { ...process.env, ...options.env }, maxBuffer: 64 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          const code = typeof error?.code === 'number' ? error.code : undefined;
+          if (error && (code === undefined || !options.allowedExitCodes?.includes(code))) {
+            reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(options.input);
+    });
+  }
+}
+
+/**
+ * Splits `git merge-tree --write-tree -z` output into the tree, the conflicted
+ * `<mode> <object> <stage>\t<path>` entries and the informational messages
+ */
+export function parseMergeTree(output: string): MergeTreeOutput {
+  const fields = output.split('\0');
+  const tree = fields.shift() ?? '';
+
+  // Conflicted entries run up to an empty field
+  const entries: string[] = [];
+  while (fields.length > 0 && fields[0] !== '') {
+    entries.push(fields.shift() as string);
+  }
+  fields.shift();
+
+  // Each message is `<count>`, that many paths, a stable type and the text
+  const messages: PreflightMessage[] = [];
+  while (fields.length > 1) {
+    const count = Number(fields.shift());
+    if (!Number.isInteger(count)) {
+      break;
+    }
+    const paths = fields.splice(0, count);
+    const type = fields.shift() ?? '';
+    const message = (fields.shift() ?? '').trim();
+    messages.push({ paths, type, message });
+  }
+
+  return { tree, entries, messages };
+}
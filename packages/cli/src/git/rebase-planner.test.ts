@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RebaseOperation } from '@smugit/shared';
+
+import { RebasePlanner, formatRebaseTodo } from './rebase-planner';
+import { TestRepo } from './test-repo';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+  vi.unstubAllEnvs();
+});
+
+const notes = (verb: string) => `We ${verb} the parser.\nIt ${verb}s tokens.\nThen it ${verb}s again.\n`;
+
+/** A repo on feature, branched from main after `base` */
+function featureBranch(): TestRepo {
+  const repo = new TestRepo();
+  repo.commit('base', { 'parser.ts': 'parse\n', 'lexer.ts': 'lex\n', 'README.md': 'readme\n', 'notes.txt': notes('use') });
+  repo.git('checkout', '-q', '-b', 'feature');
+  return repo;
+}
+
+const actions = (operations: RebaseOperation[]) => operations.map(operation => `${operation.action} ${operation.message}`);
+
+describe('RebasePlanner.analyze', () => {
+  it('folds work in progress, small follow-ups and fixup! commits into the commits they belong to', async () => {
+    repo = featureBranch();
+    repo.commit('Add parser options', { 'parser.ts': 'parse(options)\n' });
+    repo.commit('Add lexer tokens', { 'lexer.ts': 'lex(tokens)\n' });
+    repo.commit('wip', { 'parser.ts': 'parse(options, strict)\n' });
+    repo.commit('fix typo', { 'parser.ts': 'parse(options, strict) \n' });
+    repo.commit('fixup! Add lexer tokens', { 'lexer.ts': 'lex(tokens, eof)\n' });
+
+    const info = await new RebasePlanner(repo.path).analyze('main');
+
+    expect(actions(info.plan.operations)).toEqual([
+      'pick Add parser options',
+      'squash wip',
+      'fixup fix typo',
+      'pick Add lexer tokens',
+      'fixup fixup! Add lexer tokens',
+    ]);
+    expect(info.plan.operations[1].reason).toMatch(/^Work in progress on [0-9a-f]{7}/);
+    expect(info.plan.operations[2].reason).toMatch(/^Small follow-up to [0-9a-f]{7}/);
+    expect(info.plan).toMatchObject({ estimatedConflicts: 0, riskLevel: 'low' });
+  });
+
+  it('drops commits whose change is already upstream', async () => {
+    repo = featureBranch();
+    const picked = repo.commit('Update readme', { 'README.md': 'better readme\n' });
+    repo.commit('Add parser options', { 'parser.ts': 'parse(options)\n' });
+    repo.git('checkout', '-q', 'main');
+    repo.commit('Add changelog', { 'CHANGELOG.md': 'changes\n' });
+    repo.git('cherry-pick', picked);
+    repo.git('checkout', '-q', 'feature');
+
+    const { plan } = await new RebasePlanner(repo.path).analyze('main');
+
+    expect(actions(plan.operations)).toEqual(['drop Update readme', 'pick Add parser options']);
+    expect(plan.operations[0].reason).toBe('An equivalent change is already upstream');
+  });
+
+  it('forecasts the commits that would stop on conflicts, counting only manual ones towards the risk', async () => {
+    repo = featureBranch();
+    repo.git('checkout', '-q', 'main');
+    repo.commit('Rename parse', { 'parser.ts': 'parseAll\n', 'notes.txt': notes('call') });
+    repo.git('checkout', '-q', 'feature');
+    repo.commit('Add parser options', { 'parser.ts': 'parse(options)\n' });
+    repo.commit('Reword notes', { 'notes.txt': notes('run') });
+    repo.commit('Add lexer tokens', { 'lexer.ts': 'lex(tokens)\n' });
+
+    const { plan, conflicts } = await new RebasePlanner(repo.path).analyze('main');
+
+    expect(plan.operations.map(operation => operation.overlappingFiles)).toEqual([['parser.ts'], ['notes.txt'], undefined]);
+    expect(plan.forecast?.map(step => [step.conflictedFiles, step.autoResolvableFiles])).toEqual([
+      [['parser.ts'], ['parser.ts']],
+      [['notes.txt'], []],
+      [[], []],
+    ]);
+    expect(conflicts.map(conflict => conflict.file)).toEqual(['parser.ts', 'notes.txt']);
+    expect(plan).toMatchObject({ estimatedConflicts: 2, riskLevel: 'medium' });
+  });
+});
+
+describe('RebasePlanner.execute', () => {
+  it('hands git the planned todo list through the sequence editor', async () => {
+    repo = featureBranch();
+    repo.commit('Add parser options', { 'parser.ts': 'parse(options)\n' });
+    repo.commit('Update readme', { 'README.md': 'better readme\n' });
+    repo.commit('fix typo', { 'parser.ts': 'parse(options) \n' });
+    repo.commit('wip', { 'lexer.ts': 'lex(tokens)\n' });
+    // The squash opens the message editor; accept the combined message as is
+    vi.stubEnv('GIT_EDITOR', 'true');
+
+    const planner = new RebasePlanner(repo.path);
+    const { plan } = await planner.analyze('main');
+    const operations = plan.operations.map(operation =>
+      operation.message === 'Update readme' ? { ...operation, action: 'drop' as const } : operation
+    );
+
+    expect(actions(operations)).toEqual(['pick Add parser options', 'fixup fix typo', 'drop Update readme', 'squash wip']);
+    expect(await planner.execute('main', operations)).toBe(0);
+
+    expect(repo.git('log', '--format=%s', 'main..HEAD').trim().split('\n')).toEqual(['Add parser options']);
+    expect(repo.git('log', '-1', '--format=%B').trim()).toContain('wip');
+    expect(repo.read('parser.ts')).toBe('parse(options) \n');
+    expect(repo.read('lexer.ts')).toBe('lex(tokens)\n');
+    expect(repo.read('README.md')).toBe('readme\n');
+  });
+});
+
+describe('formatRebaseTodo', () => {
+  it('writes one git rebase -i line per operation', () => {
+    expect(
+      formatRebaseTodo([
+        { action: 'pick', commit: 'abc1234', message: 'Add parser' },
+        { action: 'fixup', commit: 'def5678' },
+      ])
+    ).toBe('pick abc1234 Add parser\nfixup def5678\n');
+  });
+});
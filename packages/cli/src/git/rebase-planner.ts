@@ -0,0 +1,275 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { GitCommit, GitConflict, RebaseInfo, RebaseOperation, RebasePlan, RebaseStepForecast } from '@smugit/shared';
+
+import { GitAnalyzer } from './analyzer';
+import { MergePreflight } from './preflight';
+
+// Subjects of commits that are unfinished work, worth squashing into the commit before
+const WIP_PATTERN = /^(wip|tmp|temp|checkpoint|save)\b|^\W*$/i;
+
+// Subjects of small follow-ups whose message adds nothing, worth a fixup
+const FOLLOW_UP_PATTERN =
+  /^(fix(e[sd])? (a |the |some )?typos?|typos?|oops|lint|linting|formatting|whitespace|address(ed)? (review|pr) (comments|feedback))\b/i;
+
+const AUTOSQUASH_PATTERN = /^(fixup|squash)! (.+)$/;
+
+// Commits that would stop for manual resolution, or without a forecast touch
+// files the upstream also changed, at which a rebase counts as risky
+const MEDIUM_RISK_COMMITS = 1;
+const HIGH_RISK_COMMITS = 3;
+
+export interface RebaseForecast {
+  steps: RebaseStepForecast[];
+  /** Every predicted conflict, in the order the rebase would stop on them */
+  conflicts: GitConflict[];
+}
+
+/**
+ * Proposes how to tidy the commits of the current branch while rebasing it,
+ * and runs the result through `git rebase -i`
+ */
+export class RebasePlanner {
+  private git: SimpleGit;
+  private repoPath: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+    this.git = simpleGit(repoPath);
+  }
+
+  /**
+   * Reads the commits since the merge base with `upstream`, oldest first, and
+   * plans an action for each
+   */
+  async analyze(upstream: string): Promise<RebaseInfo> {
+    const upstreamCommit = await this.revParse(`${upstream}^{commit}`);
+    if (!upstreamCommit) {
+      throw new Error(`Unknown upstream: ${upstream}`);
+    }
+
+    const mergeBase = await this.mergeBase(upstreamCommit);
+    const commits = await new GitAnalyzer(this.repoPath).getCommitHistory({
+      range: `${mergeBase}..HEAD`,
+      reverse: true,
+      // git rebase drops merge commits
+      noMerges: true,
+      // Both paths of a rename count when matching files changed upstream
+      renames: false,
+    });
+    const upstreamFiles = new Set(await this.changedFiles(mergeBase, upstreamCommit));
+    const upstreamed = await this.findUpstreamedCommits(upstreamCommit);
+    const operations = this.proposeOperations(commits, upstreamFiles, upstreamed);
+    const forecast = await this.forecast(upstreamCommit, operations);
+
+    return {
+      commits,
+      conflicts: forecast.conflicts,
+      plan: this.assess(operations, forecast),
+    };
+  }
+
+  /**
+   * Replays the kept commits onto `upstream` one at a time in memory, in the
+   * order of `operations`, and records which ones would stop the rebase. After
+   * a conflicting commit the forecast assumes its own version of the files won.
+   */
+  async forecast(upstream: string, operations: RebaseOperation[]): Promise<RebaseForecast> {
+    const preflight = new MergePreflight(this.repoPath);
+    const forecast: RebaseForecast = { steps: [], conflicts: [] };
+    let onto = upstream;
+
+    for (const operation of operations) {
+      if (operation.action === 'drop') {
+        continue;
+      }
+
+      const replay = await preflight.replay(operation.commit, onto);
+      forecast.steps.push({
+        commit: operation.commit,
+        message: operation.message,
+        conflictedFiles: replay.conflicts.map(conflict => conflict.file),
+        autoResolvableFiles: replay.autoResolvableFiles,
+      });
+      forecast.conflicts.push(...replay.conflicts);
+      onto = replay.tree;
+    }
+
+    return forecast;
+  }
+
+  /**
+   * Estimates conflicts and risk for a list of operations, e.g. after the user
+   * changed some of them. Without a forecast, commits touching files changed
+   * upstream count as conflicting.
+   */
+  assess(operations: RebaseOperation[], forecast?: RebaseForecast): RebasePlan {
+    if (!forecast) {
+      const overlapping = operations.filter(
+        operation => operation.action !== 'drop' && (operation.overlappingFiles?.length ?? 0) > 0
+      ).length;
+      return { operations, estimatedConflicts: overlapping, riskLevel: riskLevel(overlapping) };
+    }
+
+    const conflicting = forecast.steps.filter(step => step.conflictedFiles.length > 0);
+    // Stops the plugins can settle on their own cost little
+    const manual = conflicting.filter(step => step.conflictedFiles.some(file => !step.autoResolvableFiles.includes(file)));
+
+    return {
+      operations,
+      estimatedConflicts: conflicting.length,
+      riskLevel: riskLevel(manual.length),
+      forecast: forecast.steps,
+    };
+  }
+
+  /**
+   * Runs `git rebase -i upstream` with the operations as its todo list. Git runs
+   * in this terminal, so editors for squash and reword messages open as usual.
+   * Resolves with git's exit code; non-zero usually means a step stopped on conflicts.
+   */
+  async execute(upstream: string, operations: RebaseOperation[]): Promise<number> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'smugit-'));
+    const todoPath = path.join(tempDir, 'git-rebase-todo');
+
+    try {
+      await fs.writeFile(todoPath, formatRebaseTodo(operations), 'utf-8');
+
+      // Git hands its own todo file to the sequence editor, which replaces it with ours
+      return await this.run('git', ['rebase', '-i', upstream], {
+        GIT_SEQUENCE_EDITOR: `cp '${todoPath.replace(/'/g, `'\\''`)}'`,
+      });
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private proposeOperations(commits: GitCommit[], upstreamFiles: Set<string>, upstreamed: Set<string>): RebaseOperation[] {
+    const operations: RebaseOperation[] = [];
+    const filesOf = new Map(commits.map(commit => [commit.hash, commit.files]));
+
+    // Folds an operation into `target`, behind any fixups already attached to it
+    const foldInto = (target: number, operation: RebaseOperation) => {
+      let position = target + 1;
+      while (position < operations.length && ['fixup', 'squash'].includes(operations[position].action)) {
+        position++;
+      }
+      operations.splice(position, 0, operation);
+    };
+
+    for (const commit of commits) {
+      const subject = commit.message.split('\n')[0].trim();
+      const overlappingFiles = commit.files.filter(file => upstreamFiles.has(file));
+      const operation: RebaseOperation = {
+        action: 'pick',
+        commit: commit.hash,
+        message: subject,
+        ...(overlappingFiles.length > 0 ? { overlappingFiles } : {}),
+      };
+      // Follow-ups belong with the latest commit touching the same files. Later picks
+      // leave those files alone, so moving the follow-up up rarely conflicts.
+      const related = findLastIndex(
+        operations,
+        previous => previous.action === 'pick' && (filesOf.get(previous.commit) ?? []).some(file => commit.files.includes(file))
+      );
+      const previous = related !== -1 ? related : findLastIndex(operations, candidate => candidate.action === 'pick');
+
+      if (upstreamed.has(commit.hash)) {
+        operations.push({ ...operation, action: 'drop', reason: 'An equivalent change is already upstream' });
+        continue;
+      }
+
+      // `fixup! <subject>` commits move up behind their target, like --autosquash
+      const autosquash = AUTOSQUASH_PATTERN.exec(subject);
+      const target = autosquash ? findLastIndex(operations, previous => previous.message === autosquash[2]) : -1;
+      if (autosquash && target !== -1 && operations[target].action !== 'drop') {
+        foldInto(target, {
+          ...operation,
+          action: autosquash[1] as 'fixup' | 'squash',
+          reason: `Marked for ${operations[target].commit.slice(0, 7)}`,
+        });
+      } else if (previous !== -1 && WIP_PATTERN.test(subject)) {
+        foldInto(previous, {
+          ...operation,
+          action: 'squash',
+          reason: `Work in progress on ${operations[previous].commit.slice(0, 7)}; combine them and write a real message`,
+        });
+      } else if (previous !== -1 && FOLLOW_UP_PATTERN.test(subject)) {
+        foldInto(previous, {
+          ...operation,
+          action: 'fixup',
+          reason: `Small follow-up to ${operations[previous].commit.slice(0, 7)}`,
+        });
+      } else {
+        operations.push(operation);
+      }
+    }
+
+    return operations;
+  }
+
+  private async changedFiles(from: string, to: string): Promise<string[]> {
+    const output = await this.git.raw(['diff', '--name-only', '--no-renames', from, to]);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Commits whose patch already exists upstream, which `git cherry` marks with "-"
+   */
+  private async findUpstreamedCommits(upstream: string): Promise<Set<string>> {
+    const output = await this.git.raw(['cherry', upstream, 'HEAD']);
+    return new Set(
+      output
+        .split('\n')
+        .filter(line => line.startsWith('- '))
+        .map(line => line.slice(2).trim())
+    );
+  }
+
+  private async mergeBase(upstream: string): Promise<string> {
+    try {
+      return (await this.git.raw(['merge-base', 'HEAD', upstream])).trim();
+    } catch {
+      throw new Error(`HEAD and ${upstream} have no common history`);
+    }
+  }
+
+  private async revParse(rev: string): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['rev-parse', '--verify', '-q', rev])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private run(command: string, args: string[], env: Record<string, string>): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, { cwd: this.repoPath, stdio: 'inherit', env: { ...process.env, ...env } });
+      child.on('error', reject);
+      child.on('close', code => resolve(code ?? 1));
+    });
+  }
+}
+
+/**
+ * Renders operations as the todo list `git rebase -i` reads
+ */
+export function formatRebaseTodo(operations: RebaseOperation[]): string {
+  return operations.map(operation => `${operation.action} ${operation.commit} ${operation.message ?? ''}`.trimEnd()).join('\n') + '\n';
+}
+
+function riskLevel(commits: number): RebasePlan['riskLevel'] {
+  return commits >= HIGH_RISK_COMMITS ? 'high' : commits >= MEDIUM_RISK_COMMITS ? 'medium' : 'low';
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let index = items.length - 1; index >= 0; index--) {
+    if (predicate(items[index])) {
+      return index;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { ReflogHistory, UNDO_BACKUP_REF_PREFIX } from './reflog';
+import { TestRepo } from './test-repo';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+/** feature has two commits and main one more since they split; the repo is on feature */
+function branchedRepo(): TestRepo {
+  const repo = new TestRepo();
+  repo.commit('base', { 'a.txt': 'a\n' });
+  repo.git('checkout', '-q', '-b', 'feature');
+  repo.commit('first', { 'f.txt': 'f\n' });
+  repo.commit('second', { 'g.txt': 'g\n' });
+  repo.git('checkout', '-q', 'main');
+  repo.commit('main work', { 'm.txt': 'm\n' });
+  repo.git('checkout', '-q', 'feature');
+  return repo;
+}
+
+describe('ReflogHistory.list', () => {
+  it('folds the steps of a rebase into one entry', async () => {
+    repo = branchedRepo();
+    repo.git('rebase', '-q', 'main');
+
+    const [rebase, checkout] = await new ReflogHistory(repo.path).list();
+
+    expect(rebase).toMatchObject({
+      selector: 'HEAD@{0}',
+      commit: repo.git('rev-parse', 'HEAD').trim(),
+      action: 'rebase',
+      explanation: 'Rebased feature onto main (2 commits)',
+    });
+    expect(checkout).toMatchObject({ action: 'checkout', explanation: 'Switched from main to feature' });
+  });
+});
+
+describe('ReflogHistory.restore', () => {
+  it('resets hard to the entry, keeping the commit it left and stashing uncommitted changes', async () => {
+    repo = branchedRepo();
+    const beforeRebase = repo.git('rev-parse', 'HEAD').trim();
+    repo.git('rebase', '-q', 'main');
+    const rebased = repo.git('rev-parse', 'HEAD').trim();
+    repo.write('a.txt', 'edited\n');
+    repo.write('new.txt', 'untracked\n');
+    const history = new ReflogHistory(repo.path);
+    const target = (await history.list()).find(entry => entry.commit === beforeRebase)!;
+
+    const result = await history.restore(target);
+
+    expect(repo.git('rev-parse', 'HEAD').trim()).toBe(beforeRebase);
+    expect(repo.git('symbolic-ref', '--short', 'HEAD').trim()).toBe('feature');
+    expect(repo.status()).toEqual([]);
+    expect(result.backupRef.startsWith(UNDO_BACKUP_REF_PREFIX)).toBe(true);
+    expect(repo.git('rev-parse', result.backupRef).trim()).toBe(rebased);
+
+    expect(repo.git('stash', 'list')).toContain(result.stash);
+    repo.git('stash', 'pop', '-q');
+    expect(repo.read('a.txt')).toBe('edited\n');
+    expect(repo.read('new.txt')).toBe('untracked\n');
+
+    expect((await history.list())[0]).toMatchObject({ action: 'undo', commit: beforeRebase });
+  });
+
+  it('refuses while an operation is in progress', async () => {
+    repo = new TestRepo();
+    repo.commit('base', { 'a.txt': 'a\n' });
+    repo.git('checkout', '-q', '-b', 'feature');
+    repo.commit('feature change', { 'a.txt': 'feature\n' });
+    repo.git('checkout', '-q', 'main');
+    repo.commit('main change', { 'a.txt': 'main\n' });
+    repo.gitMayFail('merge', 'feature');
+    const history = new ReflogHistory(repo.path);
+    const [latest] = await history.list();
+
+    await expect(history.restore(latest)).rejects.toThrow('Finish it with smugit continue or smugit abort first');
+    expect(repo.status()).toEqual(['UU a.txt']);
+  });
+});
@@ -0,0 +1,174 @@
+import simpleGit, { SimpleGit } from 'simple-git';
+import { ReflogEntry, explainReflogEntry } from '@smugit/shared';
+
+import { OperationManager, describeOperation } from './operation';
+
+export const UNDO_BACKUP_REF_PREFIX = 'refs/smugit/undo/';
+
+// Raw entries read before folding rebases, enough for a long interactive rebase
+const RAW_ENTRY_LIMIT = 500;
+
+const REBASE_STEP = /^(?:rebase(?: -i)?|pull --rebase) \((\w+)\):/;
+
+interface RawEntry {
+  selector: string;
+  commit: string;
+  message: string;
+  date: string;
+}
+
+export interface UndoResult {
+  /** Ref keeping the commit HEAD was on before going back */
+  backupRef: string;
+  /** Message of the stash holding uncommitted changes, when there were any */
+  stash?: string;
+}
+
+/**
+ * Reads what happened to HEAD and the current branch from their reflogs, and
+ * goes back to an earlier state without losing the current one
+ */
+export class ReflogHistory {
+  private git: SimpleGit;
+  private repoPath: string;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.repoPath = repoPath;
+    this.git = simpleGit(repoPath);
+  }
+
+  /**
+   * Explained entries, newest first. The steps of a rebase fold into one entry
+   * for the whole rebase.
+   */
+  async list(limit: number = 15): Promise<ReflogEntry[]> {
+    const head = await this.readReflog('HEAD');
+    const branch = await this.currentBranch();
+
+    // The branch reflog repeats most HEAD entries; keep only moves HEAD did not record
+    const seen = new Set(head.map(entry => `${entry.date} ${entry.commit}`));
+    const branchOnly = branch ? (await this.readReflog(branch)).filter(entry => !seen.has(`${entry.date} ${entry.commit}`)) : [];
+
+    return [...foldRebases(head), ...branchOnly.map(entry => explain(entry))]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, limit);
+  }
+
+  /**
+   * Moves the current branch, or a detached HEAD, to the entry's commit. The
+   * commit HEAD was on is kept under a backup ref and uncommitted changes,
+   * untracked files included, are stashed first.
+   */
+  async restore(entry: ReflogEntry): Promise<UndoResult> {
+    const operation = await new OperationManager(this.repoPath).detect();
+    if (operation) {
+      throw new Error(`${describeOperation(operation)}. Finish it with smugit continue or smugit abort first`);
+    }
+
+    const head = (await this.git.raw(['rev-parse', 'HEAD'])).trim();
+    const backupRef = `${UNDO_BACKUP_REF_PREFIX}${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await this.git.raw(['update-ref', '-m', `smugit undo: before going back to ${entry.selector}`, backupRef, head]);
+
+    let stash: string | undefined;
+    if ((await this.git.raw(['status', '--porcelain'])).trim()) {
+      stash = `smugit undo: changes before going back to ${entry.selector}`;
+      await this.git.raw(['stash', 'push', '--include-untracked', '-m', stash]);
+    }
+
+    // Recorded in the reflog as "smugit undo: updating HEAD", which the list explains as an undo
+    await simpleGit(this.repoPath)
+      .env({ ...process.env, GIT_REFLOG_ACTION: 'smugit undo' })
+      .raw(['reset', '--hard', entry.commit]);
+
+    return { backupRef, ...(stash ? { stash } : {}) };
+  }
+
+  private async readReflog(ref: string): Promise<RawEntry[]> {
+    let output: string;
+    try {
+      output = await this.git.raw([
+        'reflog',
+        'show',
+        `--max-count=${RAW_ENTRY_LIMIT}`,
+        '--date=iso-strict',
+        '--format=%x1e%gd%x1f%H%x1f%gs',
+        ref,
+        '--',
+      ]);
+    } catch {
+      // No reflog yet, e.g. a fresh clone with core.logAllRefUpdates off
+      return [];
+    }
+
+    return output
+      .split('\x1e')
+      .filter(Boolean)
+      .map((record, index) => {
+        const [dated, commit, message] = record.split('\x1f');
+        // With a date format git names entries by time; the position gives the usual ref@{n}
+        return {
+          selector: `${ref}@{${index}}`,
+          commit,
+          message: message.trim(),
+          date: /@\{(.+)\}$/.exec(dated)?.[1] ?? '',
+        };
+      });
+  }
+
+  private async currentBranch(): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(['symbolic-ref', '--short', '-q', 'HEAD'])).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Folds the start, the replayed commits and the finish or abort of each rebase
+ * into the newest of its entries
+ */
+function foldRebases(entries: RawEntry[]): ReflogEntry[] {
+  const folded: ReflogEntry[] = [];
+
+  for (let index = 0; index < entries.length; index++) {
+    const newest = entries[index];
+    if (!REBASE_STEP.test(newest.message)) {
+      folded.push(explain(newest));
+      continue;
+    }
+
+    let commits = 0;
+    let start: RawEntry | undefined;
+    for (; index < entries.length; index++) {
+      const step = REBASE_STEP.exec(entries[index].message)?.[1];
+      if (!step) {
+        index--;
+        break;
+      }
+      if (step === 'start') {
+        start = entries[index];
+        break;
+      }
+      if (step !== 'finish' && step !== 'abort') {
+        commits++;
+      }
+    }
+
+    // "checkout main" names what the rebase started from, by name or by hash
+    const onto = start?.message
+      .replace(REBASE_STEP, '')
+      .trim()
+      .replace(/^checkout /, '')
+      .replace(/^([0-9a-f]{7})[0-9a-f]{33,}$/, '$1');
+    // A rebase still in progress has no finish yet, so it reads as started
+    const ended = /\((finish|abort)\)/.test(newest.message);
+    folded.push(explain(newest, { onto, commits }, ended ? newest.message : start?.message));
+  }
+
+  return folded;
+}
+
+function explain(entry: RawEntry, details: { onto?: string; commits?: number } = {}, message = entry.message): ReflogEntry {
+  return { ...entry, ...explainReflogEntry(message, details) };
+}
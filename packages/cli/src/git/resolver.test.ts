@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ConflictType } from '@smugit/shared';
+
+import { GitAnalyzer } from './analyzer';
+import { ConflictResolver } from './resolver';
+import { TestRepo, conflictedMerge } from './test-repo';
+
+const LINES = Array.from({ length: 10 }, (_, index) => `line ${index}`).join('\n') + '\n';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+async function firstConflict(repo: TestRepo) {
+  const [conflict] = await new GitAnalyzer(repo.path).analyzeConflicts();
+  return conflict;
+}
+
+const unmerged = () => repo!.git('ls-files', '-u').trim();
+
+describe('ConflictResolver tree conflicts', () => {
+  it('keeps our modified file over their deletion', async () => {
+    const current = LINES.replace('line 3', 'current 3');
+    repo = conflictedMerge({ 'a.txt': LINES }, { 'a.txt': current }, { 'a.txt': null });
+    const resolver = new ConflictResolver(repo.path);
+    const conflict = await firstConflict(repo);
+
+    expect(resolver.getTreeConflictActions(conflict)).toEqual(['keep-current', 'delete']);
+    await resolver.resolveTreeConflict(conflict, 'keep-current');
+
+    expect(unmerged()).toBe('');
+    expect(repo.read('a.txt')).toBe(current);
+  });
+
+  it('accepts their deletion', async () => {
+    repo = conflictedMerge({ 'a.txt': LINES }, { 'a.txt': LINES.replace('line 3', 'current 3') }, { 'a.txt': null });
+    const resolver = new ConflictResolver(repo.path);
+
+    await resolver.resolveTreeConflict(await firstConflict(repo), 'delete');
+
+    expect(unmerged()).toBe('');
+    expect(repo.exists('a.txt')).toBe(false);
+  });
+
+  it('applies our edits to the path they renamed the file to', async () => {
+    const renamed = LINES.replace(/line [4-9]/g, line => line.toUpperCase());
+    repo = conflictedMerge(
+      { 'a.txt': LINES },
+      { 'a.txt': LINES.replace('line 0', 'current 0') },
+      { 'a.txt': null, 'b.txt': renamed }
+    );
+    const resolver = new ConflictResolver(repo.path);
+    const conflict = await firstConflict(repo);
+
+    expect(resolver.getTreeConflictActions(conflict)).toEqual(['keep-current', 'apply-to-renamed', 'delete']);
+    const outcome = await resolver.resolveTreeConflict(conflict, 'apply-to-renamed');
+
+    expect(outcome.clean).toBe(true);
+    expect(unmerged()).toBe('');
+    expect(repo.exists('a.txt')).toBe(false);
+    expect(repo.read('b.txt')).toBe(renamed.replace('line 0', 'current 0'));
+  });
+
+  it('keeps one side of a rename on both sides and removes the other paths', async () => {
+    repo = conflictedMerge(
+      { 'old.txt': LINES },
+      { 'old.txt': null, 'current.txt': LINES },
+      { 'old.txt': null, 'incoming.txt': LINES }
+    );
+    const resolver = new ConflictResolver(repo.path);
+    const conflict = await firstConflict(repo);
+
+    expect(resolver.getTreeConflictActions(conflict)).toEqual(['keep-current', 'keep-incoming']);
+    await resolver.resolveTreeConflict(conflict, 'keep-incoming');
+
+    expect(unmerged()).toBe('');
+    expect(repo.exists('incoming.txt')).toBe(true);
+    expect(repo.exists('current.txt')).toBe(false);
+    expect(repo.exists('old.txt')).toBe(false);
+  });
+
+  it('keeps our renamed file over their deletion', async () => {
+    repo = conflictedMerge({ 'old.txt': LINES }, { 'old.txt': null, 'new.txt': LINES }, { 'old.txt': null });
+    const resolver = new ConflictResolver(repo.path);
+    const conflict = await firstConflict(repo);
+
+    expect(resolver.getTreeConflictActions(conflict)).toEqual(['keep-current', 'delete']);
+    await resolver.resolveTreeConflict(conflict, 'keep-current');
+
+    expect(unmerged()).toBe('');
+    expect(repo.read('new.txt')).toBe(LINES);
+  });
+});
+
+describe('ConflictResolver binary and lockfile conflicts', () => {
+  const manifest = (version: string) => `${JSON.stringify({ name: 'app', dependencies: { chalk: version } }, null, 2)}\n`;
+  const lockfile = (version: string) => `${JSON.stringify({ name: 'app', lockfileVersion: 3, chalk: version }, null, 2)}\n`;
+
+  function lockfileConflict(): TestRepo {
+    return conflictedMerge(
+      { 'package.json': manifest('^5.0.0'), 'package-lock.json': lockfile('5.0.0') },
+      { 'package-lock.json': lockfile('5.1.0') },
+      { 'package-lock.json': lockfile('5.2.0') }
+    );
+  }
+
+  it('does not count a lockfile as auto-resolvable', async () => {
+    repo = lockfileConflict();
+
+    expect(await firstConflict(repo)).toMatchObject({ type: ConflictType.LOCKFILE, autoResolvable: false });
+  });
+
+  it('leaves a lockfile it cannot regenerate unresolved with an install hint', async () => {
+    repo = lockfileConflict();
+    repo.git('config', 'smugit.package-lock.json.command', 'false');
+
+    const result = await new ConflictResolver(repo.path).autoResolveConflicts([await firstConflict(repo)], false, 'incoming');
+
+    expect(result.resolvedFiles).toEqual([]);
+    expect(result.failedFiles).toEqual(['package-lock.json']);
+    expect(result.errors).toEqual([
+      'package-lock.json could not be regenerated. Run npm install once package.json is resolved, then stage package-lock.json.',
+    ]);
+    expect(unmerged()).toContain('package-lock.json');
+  });
+
+  it('regenerates a lockfile with the configured command', async () => {
+    repo = lockfileConflict();
+    repo.git('config', 'smugit.package-lock.json.command', `node -e "require('fs').writeFileSync('package-lock.json', '{}')"`);
+
+    const result = await new ConflictResolver(repo.path).autoResolveConflicts([await firstConflict(repo)], false, 'none');
+
+    expect(result.resolvedFiles).toEqual(['package-lock.json']);
+    expect(result.notes[0]).toContain('Regenerated with');
+    expect(repo.read('package-lock.json')).toBe('{}');
+  });
+
+  it('takes the fallback side of a binary file whole', async () => {
+    const image = (byte: number) => Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, byte]);
+    repo = conflictedMerge({ 'logo.png': image(1) }, { 'logo.png': image(2) }, { 'logo.png': image(3) });
+    const conflict = await firstConflict(repo);
+
+    expect(conflict).toMatchObject({ type: ConflictType.BINARY, binary: { current: { size: 6 }, incoming: { size: 6 } } });
+
+    const result = await new ConflictResolver(repo.path).autoResolveConflicts([conflict], false, 'incoming');
+
+    expect(result.fallbackApplied).toEqual([{ file: 'logo.png', strategy: 'incoming' }]);
+    expect(repo.read('logo.png')).toBe(image(3).toString());
+  });
+});
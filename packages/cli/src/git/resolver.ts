@@ -1,8 +1,21 @@
 import simpleGit, { SimpleGit } from 'simple-git';
-import { GitConflict, ConflictHunk } from '@smugit/shared';
+import { GitConflict, ConflictHunk, ConflictType, isTreeConflict } from '@smugit/shared';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+import {
+  buildHunksFromRegions,
+  renderConflictedContent,
+  renderMergeRegions,
+  renderResolvedContent,
+  splitResolvedHunks,
+} from './conflict-content';
+import { isCleanMerge, mergeThreeWay, splitMergeLines } from './three-way-merge';
+import { Checkpoint, CheckpointManager } from './checkpoints';
+import { describeResolution, JournalRecord, ResolutionDescription, ResolutionJournal } from './journal';
+import { ResolutionMemory } from './learned-resolutions';
+import { checkResolvedContent, runValidationCommands, ValidationFailure } from './validation';
+import { lockfileInstallCommand } from './binary-info';
 import { builtinPlugins } from './plugins/builtin';
 import {
   getConflictResolutionPlugins,
@@ -23,6 +36,40 @@ export interface ResolutionResult {
   warnings: string[];
   notes: string[];
   resolvedBy: { file: string; plugin: string; notes?: string[] }[];
+  /** Files where some blocks were resolved and the rest kept their markers */
+  partiallyResolved: { file: string; resolvedHunks: number; totalHunks: number }[];
+  /** Resolved files that failed validation and were put back in their conflicted state */
+  validationFailures: ValidationFailure[];
+}
+
+interface HunkOutcome {
+  /** Replacement per block; undefined where every plugin declined */
+  replacements: (string | undefined)[];
+  /** Plugin that resolved each block */
+  strategies: (string | undefined)[];
+  plugins: string[];
+  notes: string[];
+}
+
+export interface ContentResolution {
+  /** Merged content; blocks no plugin could resolve keep their markers */
+  content: string;
+  resolvedHunks: number;
+  totalHunks: number;
+  plugins: string[];
+  notes: string[];
+}
+
+export interface ConflictResolverOptions {
+  /** Resolve merges held in memory, e.g. by preflight, rather than the conflicted files in the working tree */
+  inMemory?: boolean;
+}
+
+export type TreeConflictAction = 'keep-current' | 'keep-incoming' | 'delete' | 'apply-to-renamed';
+
+export interface TreeResolutionOutcome {
+  clean: boolean;
+  notes: string[];
 }
 
 let builtinsRegistered = false;
@@ -37,10 +84,16 @@ function ensureBuiltinPluginsRegistered(): void {
 export class ConflictResolver {
   private git: SimpleGit;
   private repoPath: string;
+  private journal: ResolutionJournal;
+  private memory: ResolutionMemory;
+  private inMemory: boolean;
 
-  constructor(repoPath: string = process.cwd()) {
+  constructor(repoPath: string = process.cwd(), options: ConflictResolverOptions = {}) {
     this.repoPath = repoPath;
+    this.inMemory = options.inMemory ?? false;
     this.git = simpleGit(repoPath);
+    this.journal = new ResolutionJournal(repoPath);
+    this.memory = new ResolutionMemory(repoPath);
     ensureBuiltinPluginsRegistered();
   }
 
@@ -58,22 +111,48 @@ export class ConflictResolver {
       warnings: [],
       notes: [],
       resolvedBy: [],
+      partiallyResolved: [],
+      validationFailures: [],
     };
 
+    // Content written per resolved file; undefined when a side was checked out whole
+    const resolvedContents = new Map<string, string | undefined>();
+    const journalRecords = new Map<string, JournalRecord[]>();
     const fallbackStrategy = fallback === 'none' ? undefined : fallback;
     const plugins = getConflictResolutionPlugins();
-    const context = this.createContext();
+    const readFile = this.fileReader(conflicts, this.inMemory);
+    const context = this.createContext(dryRun, readFile);
+
+    // Lockfiles are regenerated from their manifests, so resolve those first
+    const ordered = [
+      ...conflicts.filter(conflict => conflict.type !== ConflictType.LOCKFILE),
+      ...conflicts.filter(conflict => conflict.type === ConflictType.LOCKFILE),
+    ];
+
+    for (const conflict of ordered) {
+      if (isTreeConflict(conflict.type)) {
+        result.failedFiles.push(conflict.file);
+        result.errors.push(
+          `${conflict.file} needs a keep/delete/rename decision. Run smugit fix --interactive.`
+        );
+        result.success = false;
+        continue;
+      }
 
-    for (const conflict of conflicts) {
       try {
         const pluginOutcome = await this.runPlugins(conflict, plugins, context);
 
         if (pluginOutcome) {
           if (!dryRun) {
-            await this.writeResolvedFile(conflict.file, pluginOutcome.content);
+            if (pluginOutcome.side) {
+              await this.checkoutSide(conflict.file, pluginOutcome.side);
+            } else {
+              await this.writeResolvedFile(conflict.file, pluginOutcome.content);
+            }
           }
 
           result.resolvedFiles.push(conflict.file);
+          resolvedContents.set(conflict.file, pluginOutcome.side ? undefined : pluginOutcome.content);
           result.resolvedBy.push({
             file: conflict.file,
             plugin: pluginOutcome.plugin.name,
@@ -83,12 +162,80 @@ export class ConflictResolver {
           pluginOutcome.notes?.forEach(note => {
             result.notes.push(`${conflict.file}: ${note}`);
           });
+          journalRecords.set(
+            conflict.file,
+            describeResolution(conflict, {
+              strategy: pluginOutcome.plugin.name,
+              content: pluginOutcome.side ? undefined : pluginOutcome.content,
+              notes: pluginOutcome.notes,
+            })
+          );
+
+          continue;
+        }
+
+        const wholeFile = conflict.type === ConflictType.BINARY || conflict.type === ConflictType.LOCKFILE;
+        const hunkOutcome = wholeFile ? undefined : await this.runHunkPlugins(conflict, plugins, context);
+        const resolvedHunks = hunkOutcome?.replacements.filter(replacement => replacement !== undefined).length ?? 0;
+
+        if (hunkOutcome && resolvedHunks === conflict.hunks.length) {
+          const content = await renderResolvedContent(
+            conflict,
+            readFile,
+            index => hunkOutcome.replacements[index]
+          );
+
+          if (!dryRun) {
+            await this.writeResolvedFile(conflict.file, content);
+          }
+
+          result.resolvedFiles.push(conflict.file);
+          resolvedContents.set(conflict.file, content);
+          result.resolvedBy.push({ file: conflict.file, plugin: hunkOutcome.plugins.join(', '), notes: hunkOutcome.notes });
+          hunkOutcome.notes.forEach(note => result.notes.push(`${conflict.file}: ${note}`));
+          journalRecords.set(
+            conflict.file,
+            describeResolution(conflict, { strategy: hunkOutcome.strategies, replacements: hunkOutcome.replacements })
+          );
+
+          continue;
+        }
+
+        if (conflict.type === ConflictType.LOCKFILE) {
+          // Neither side's lockfile matches the merged manifest, so no fallback side applies
+          const install = lockfileInstallCommand(conflict.file) ?? 'your package manager';
+          result.failedFiles.push(conflict.file);
+          result.errors.push(
+            `${conflict.file} could not be regenerated. Run ${install} once package.json is resolved, then stage ${conflict.file}.`
+          );
+          result.success = false;
+          continue;
+        }
+
+        if (fallbackStrategy && conflict.type === ConflictType.BINARY && fallbackStrategy !== 'both') {
+          // Binary files cannot be spliced, so take the whole side
+          if (!dryRun) {
+            await this.checkoutSide(conflict.file, fallbackStrategy);
+          }
+
+          result.resolvedFiles.push(conflict.file);
+          resolvedContents.set(conflict.file, undefined);
+          result.fallbackApplied.push({ file: conflict.file, strategy: fallbackStrategy });
+          result.warnings.push(
+            `Kept the ${fallbackStrategy} version of ${conflict.file}. Review before committing.`
+          );
+          journalRecords.set(conflict.file, describeResolution(conflict, { strategy: `fallback:${fallbackStrategy}` }));
 
           continue;
         }
 
-        if (fallbackStrategy) {
-          const fallbackContent = await this.applyFallbackStrategy(conflict, fallbackStrategy);
+        if (fallbackStrategy && !wholeFile) {
+          const fallbackContent = await this.applyFallbackStrategy(
+            conflict,
+            readFile,
+            fallbackStrategy,
+            hunkOutcome?.replacements
+          );
 
           if (fallbackContent) {
             if (!dryRun) {
@@ -96,16 +243,47 @@ export class ConflictResolver {
             }
 
             result.resolvedFiles.push(conflict.file);
+            resolvedContents.set(conflict.file, fallbackContent);
             result.fallbackApplied.push({ file: conflict.file, strategy: fallbackStrategy });
 
             result.warnings.push(
               `Applied fallback strategy "${fallbackStrategy}" to ${conflict.file}. Review before committing.`
             );
+            hunkOutcome?.notes.forEach(note => result.notes.push(`${conflict.file}: ${note}`));
+            journalRecords.set(
+              conflict.file,
+              describeResolution(conflict, {
+                strategy: conflict.hunks.map((_, index) => hunkOutcome?.strategies[index] ?? `fallback:${fallbackStrategy}`),
+                content: fallbackContent,
+              })
+            );
 
             continue;
           }
         }
 
+        if (hunkOutcome && resolvedHunks > 0) {
+          // Write what could be merged; the remaining blocks keep their markers for review
+          if (!dryRun) {
+            await this.writeResolvedFile(
+              conflict.file,
+              await renderResolvedContent(conflict, readFile, index => hunkOutcome.replacements[index])
+            );
+          }
+
+          const remaining = conflict.hunks.length - resolvedHunks;
+          result.partiallyResolved.push({ file: conflict.file, resolvedHunks, totalHunks: conflict.hunks.length });
+          hunkOutcome.notes.forEach(note => result.notes.push(`${conflict.file}: ${note}`));
+          result.errors.push(`${remaining} of ${conflict.hunks.length} block(s) in ${conflict.file} still need manual review.`);
+          journalRecords.set(
+            conflict.file,
+            describeResolution(conflict, { strategy: hunkOutcome.strategies, replacements: hunkOutcome.replacements })
+          );
+          result.success = false;
+
+          continue;
+        }
+
         result.failedFiles.push(conflict.file);
         result.errors.push(`No automated strategy matched ${conflict.file}.`);
         result.success = false;
@@ -116,15 +294,305 @@ export class ConflictResolver {
       }
     }
 
+    await this.validateResolutions(result, conflicts, resolvedContents, dryRun);
+
+    if (!dryRun) {
+      const failed = new Set(result.validationFailures.map(failure => failure.file));
+      await this.journal.append(
+        [...journalRecords].filter(([file]) => !failed.has(file)).flatMap(([, records]) => records)
+      );
+    }
+
     return result;
   }
 
-  async createCheckpoint(branchName?: string): Promise<string> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const checkpointBranch = branchName || `smugit-checkpoint-${timestamp}`;
+  /**
+   * Runs the plugin pipeline on a text conflict without touching the working
+   * tree, e.g. for git's merge driver. Results that fail validation count as
+   * unresolved.
+   */
+  async resolveContent(conflict: GitConflict): Promise<ContentResolution> {
+    const plugins = getConflictResolutionPlugins();
+    const readFile = this.fileReader([conflict], true);
+    const context = this.createContext(false, readFile);
+    const totalHunks = conflict.hunks.length;
+
+    const pluginOutcome = await this.runPlugins(conflict, plugins, context);
+    if (pluginOutcome && !pluginOutcome.side && !checkResolvedContent(conflict.file, pluginOutcome.content, conflict.versions)) {
+      await this.journal.append(
+        describeResolution(conflict, {
+          strategy: pluginOutcome.plugin.name,
+          content: pluginOutcome.content,
+          notes: pluginOutcome.notes,
+        })
+      );
+
+      return {
+        content: pluginOutcome.content,
+        resolvedHunks: totalHunks,
+        totalHunks,
+        plugins: [pluginOutcome.plugin.name],
+        notes: pluginOutcome.notes ?? [],
+      };
+    }
+
+    const hunkOutcome = await this.runHunkPlugins(conflict, plugins, context);
+    const replacements = hunkOutcome?.replacements ?? [];
+    const content = await renderResolvedContent(conflict, readFile, index => replacements[index]);
+    const resolvedHunks = replacements.filter(replacement => replacement !== undefined).length;
+
+    if (!hunkOutcome || resolvedHunks === 0 || (resolvedHunks === totalHunks && checkResolvedContent(conflict.file, content, conflict.versions))) {
+      const unresolved = await renderResolvedContent(conflict, readFile, () => undefined);
+      return { content: unresolved, resolvedHunks: 0, totalHunks, plugins: [], notes: [] };
+    }
+
+    await this.journal.append(
+      describeResolution(conflict, { strategy: hunkOutcome.strategies, replacements: hunkOutcome.replacements })
+    );
+
+    return { content, resolvedHunks, totalHunks, plugins: hunkOutcome.plugins, notes: hunkOutcome.notes };
+  }
+
+  /**
+   * Asks the plugins about one block, e.g. while reviewing blocks interactively.
+   * Whole-file merges count when the block's part can be picked out of them.
+   */
+  async suggestHunkResolution(
+    conflict: GitConflict,
+    hunkIndex: number
+  ): Promise<{ plugin: string; content: string; notes: string[] } | undefined> {
+    const plugins = getConflictResolutionPlugins();
+    const context = this.createContext(true);
+    const hunk = conflict.hunks[hunkIndex];
+
+    for (const plugin of plugins) {
+      const resolution = plugin.resolveHunk ? await plugin.resolveHunk(hunk, conflict, context) : null;
+      if (resolution) {
+        return { plugin: plugin.name, content: resolution.content, notes: resolution.notes ?? [] };
+      }
+    }
+
+    const pluginOutcome = await this.runPlugins(conflict, plugins, context);
+    const content = pluginOutcome && !pluginOutcome.side ? splitResolvedHunks(conflict, pluginOutcome.content)?.[hunkIndex] : undefined;
+
+    return pluginOutcome && content !== undefined
+      ? { plugin: pluginOutcome.plugin.name, content, notes: pluginOutcome.notes ?? [] }
+      : undefined;
+  }
+
+  /**
+   * Checks resolved files before they can be staged: no markers left, still
+   * parseable where both sides were, and passing any `smugit.validate.command`. Failing files are put
+   * back in their conflicted state and reported.
+   */
+  private async validateResolutions(
+    result: ResolutionResult,
+    conflicts: GitConflict[],
+    resolvedContents: Map<string, string | undefined>,
+    dryRun: boolean
+  ): Promise<void> {
+    const failures: ValidationFailure[] = [];
+    const versionsByFile = new Map(conflicts.map(conflict => [conflict.file, conflict.versions]));
+
+    for (const [file, content] of resolvedContents) {
+      const reason = content === undefined ? undefined : checkResolvedContent(file, content, versionsByFile.get(file));
+      if (reason) {
+        failures.push({ file, reason });
+      }
+    }
+
+    // e.g. git config --add smugit.validate.command "npx tsc --noEmit"
+    const commands = await this.getConfigValues('validate.command');
+    const touchedFiles = [...resolvedContents]
+      .filter(([file, content]) => content !== undefined && !failures.some(failure => failure.file === file))
+      .map(([file]) => file);
+
+    if (commands.length > 0 && touchedFiles.length > 0) {
+      if (dryRun) {
+        result.warnings.push('Skipped smugit.validate.command checks during the dry run.');
+      } else {
+        // The commands see the files together, so a failure sends all of them back
+        const reason = await runValidationCommands(this.repoPath, commands, touchedFiles);
+        if (reason) {
+          failures.push(...touchedFiles.map(file => ({ file, reason })));
+        }
+      }
+    }
+
+    for (const failure of failures) {
+      if (!dryRun) {
+        await this.restoreConflict(failure.file);
+      }
+
+      result.resolvedFiles = result.resolvedFiles.filter(file => file !== failure.file);
+      result.resolvedBy = result.resolvedBy.filter(entry => entry.file !== failure.file);
+      result.fallbackApplied = result.fallbackApplied.filter(entry => entry.file !== failure.file);
+      result.notes = result.notes.filter(note => !note.startsWith(`${failure.file}: `));
+      result.warnings = result.warnings.filter(warning => !warning.includes(` ${failure.file}. `));
+
+      result.failedFiles.push(failure.file);
+      result.validationFailures.push(failure);
+      result.errors.push(
+        `${failure.file} failed validation (${failure.reason})${dryRun ? '' : ' and was restored to its conflicted state'}.`
+      );
+      result.success = false;
+    }
+  }
+
+  /**
+   * Recreates the conflicted file, markers included, from the unmerged index entries
+   */
+  private async restoreConflict(filePath: string): Promise<void> {
+    await this.git.raw(['checkout', '-m', '--', filePath]);
+  }
+
+  /**
+   * Snapshots the working tree, index and merge state under refs/smugit/checkpoints
+   * without moving HEAD, so `smugit undo` can put everything back
+   */
+  async createCheckpoint(label: string = 'before smugit fix'): Promise<Checkpoint> {
+    return new CheckpointManager(this.repoPath).create(label, 'auto');
+  }
+
+  /**
+   * Lists the resolutions that make sense for a delete or rename conflict
+   */
+  getTreeConflictActions(conflict: GitConflict): TreeConflictAction[] {
+    switch (conflict.type) {
+      case ConflictType.DELETED_BY_THEM:
+        return conflict.paths?.incoming && conflict.paths.incoming !== conflict.file
+          ? ['keep-current', 'apply-to-renamed', 'delete']
+          : ['keep-current', 'delete'];
+
+      case ConflictType.DELETED_BY_US:
+        return conflict.paths?.current && conflict.paths.current !== conflict.file
+          ? ['keep-incoming', 'apply-to-renamed', 'delete']
+          : ['keep-incoming', 'delete'];
+
+      case ConflictType.RENAME_DELETE:
+        return [conflict.versions?.current !== undefined ? 'keep-current' : 'keep-incoming', 'delete'];
+
+      case ConflictType.RENAME_RENAME:
+        return ['keep-current', 'keep-incoming'];
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Applies a keep/delete/rename decision to a tree conflict and stages the outcome
+   */
+  async resolveTreeConflict(
+    conflict: GitConflict,
+    action: TreeConflictAction
+  ): Promise<TreeResolutionOutcome> {
+    const paths = conflict.paths ?? {};
+
+    if (conflict.type === ConflictType.RENAME_RENAME) {
+      const keep = action === 'keep-current' ? paths.current : paths.incoming;
+      const drop = action === 'keep-current' ? paths.incoming : paths.current;
+
+      if (!keep) {
+        throw new Error(`No ${action === 'keep-current' ? 'current' : 'incoming'} path recorded for ${conflict.file}`);
+      }
+
+      await this.removePaths([conflict.file, ...(drop ? [drop] : [])]);
+      await this.git.add(keep);
+      await this.recordResolution(conflict, { strategy: `manual:${action}`, notes: [`Kept ${keep}`] });
+      return { clean: true, notes: [`Kept ${keep}, removed ${[conflict.file, drop].filter(Boolean).join(' and ')}`] };
+    }
+
+    switch (action) {
+      case 'keep-current':
+      case 'keep-incoming':
+        await this.resolveWithSide(conflict, action === 'keep-current' ? 'current' : 'incoming');
+        return { clean: true, notes: [`Kept ${action === 'keep-current' ? 'current' : 'incoming'} version of ${conflict.file}`] };
+
+      case 'delete':
+        await this.removePaths([conflict.file]);
+        await this.recordResolution(conflict, { strategy: 'manual:delete' });
+        return { clean: true, notes: [`Deleted ${conflict.file}`] };
+
+      case 'apply-to-renamed': {
+        const outcome = await this.applyEditsToRenamedPath(conflict);
+        await this.recordResolution(conflict, { strategy: 'manual:apply-to-renamed', notes: outcome.notes });
+        return outcome;
+      }
+    }
+  }
+
+  /**
+   * Replays one side's edits onto the path the other side moved the file to
+   */
+  private async applyEditsToRenamedPath(conflict: GitConflict): Promise<TreeResolutionOutcome> {
+    const versions = conflict.versions ?? {};
+    const editsFromCurrent = conflict.type === ConflictType.DELETED_BY_THEM;
+    const target = editsFromCurrent ? conflict.paths?.incoming : conflict.paths?.current;
+    const edited = editsFromCurrent ? versions.current : versions.incoming;
+
+    if (!target || edited === undefined) {
+      throw new Error(`No renamed path recorded for ${conflict.file}`);
+    }
+
+    const base = splitMergeLines(versions.base ?? '');
+    const renamed = splitMergeLines(await this.readFile(target));
+    const regions = editsFromCurrent
+      ? mergeThreeWay(base, splitMergeLines(edited), renamed)
+      : mergeThreeWay(base, renamed, splitMergeLines(edited));
+
+    const hunks = buildHunksFromRegions(regions, true);
+    await this.writeResolvedFile(target, renderMergeRegions(regions, hunks, () => undefined));
+    await this.removePaths([conflict.file]);
+
+    if (!isCleanMerge(regions)) {
+      return {
+        clean: false,
+        notes: [`Applied edits to ${target} with ${hunks.length} conflicting block(s) left to review`],
+      };
+    }
+
+    await this.git.add(target);
+    return { clean: true, notes: [`Applied edits from ${conflict.file} to ${target}`] };
+  }
+
+  /**
+   * Takes one side's version of a file verbatim and stages it
+   */
+  async resolveWithSide(conflict: GitConflict, side: 'current' | 'incoming'): Promise<void> {
+    await this.checkoutSide(conflict.file, side);
+    await this.git.add(conflict.file);
+    await this.recordResolution(conflict, {
+      strategy: `manual:${side}`,
+      replacements: conflict.hunks.map(hunk => (side === 'current' ? hunk.currentContent : hunk.incomingContent)),
+    });
+  }
+
+  /**
+   * Adds a resolution made outside `autoResolveConflicts` (e.g. an interactive
+   * choice) to the journal, and remembers manual block choices for next time
+   */
+  async recordResolution(conflict: GitConflict, resolution: ResolutionDescription): Promise<void> {
+    const records = describeResolution(conflict, resolution);
+    await this.journal.append(records);
+
+    if (!(await this.memory.isEnabled())) {
+      return;
+    }
+
+    for (const record of records) {
+      if (record.hunk !== undefined && record.output !== undefined && record.strategy.startsWith('manual:')) {
+        await this.memory.remember(conflict.file, conflict.hunks[record.hunk], record.output, record.strategy);
+      }
+    }
+  }
+
+  private async checkoutSide(filePath: string, side: 'current' | 'incoming'): Promise<void> {
+    await this.git.raw(['checkout', side === 'current' ? '--ours' : '--theirs', '--', filePath]);
+  }
 
-    await this.git.checkoutLocalBranch(checkpointBranch);
-    return checkpointBranch;
+  private async removePaths(files: string[]): Promise<void> {
+    await this.git.raw(['rm', '-q', '-f', '--ignore-unmatch', '--', ...files]);
   }
 
   async stageResolvedFiles(files: string[]): Promise<void> {
@@ -142,6 +610,7 @@ export class ConflictResolver {
         content: string;
         plugin: ConflictResolutionPlugin;
         notes?: string[];
+        side?: 'current' | 'incoming';
       }
     | undefined
   > {
@@ -156,6 +625,7 @@ export class ConflictResolver {
           content: resolution.content,
           plugin,
           notes: resolution.notes,
+          side: resolution.side,
         };
       }
     }
@@ -163,46 +633,95 @@ export class ConflictResolver {
     return undefined;
   }
 
-  private createContext(): ConflictResolutionContext {
+  /**
+   * Offers each block of a file to the plugins on its own, so a file mixing
+   * import, whitespace and content blocks can be resolved as far as possible
+   */
+  private async runHunkPlugins(
+    conflict: GitConflict,
+    plugins: ConflictResolutionPlugin[],
+    context: ConflictResolutionContext
+  ): Promise<HunkOutcome | undefined> {
+    if (conflict.hunks.length === 0) {
+      return undefined;
+    }
+
+    const outcome: HunkOutcome = { replacements: [], strategies: [], plugins: [], notes: [] };
+
+    for (const [index, hunk] of conflict.hunks.entries()) {
+      let replacement: string | undefined;
+      let strategy: string | undefined;
+
+      for (const plugin of plugins) {
+        const resolution = plugin.resolveHunk ? await plugin.resolveHunk(hunk, conflict, context) : null;
+
+        if (resolution) {
+          replacement = resolution.content;
+          strategy = plugin.name;
+          if (!outcome.plugins.includes(plugin.name)) {
+            outcome.plugins.push(plugin.name);
+          }
+          (resolution.notes ?? []).forEach(note => outcome.notes.push(`Block ${index + 1} (${plugin.name}): ${note}`));
+          break;
+        }
+      }
+
+      outcome.replacements.push(replacement);
+      outcome.strategies.push(strategy);
+    }
+
+    return outcome;
+  }
+
+  private createContext(
+    dryRun: boolean,
+    readFile: (filePath: string) => Promise<string> = filePath => this.readFile(filePath)
+  ): ConflictResolutionContext {
     return {
       repoPath: this.repoPath,
-      readFile: (filePath: string) => this.readFile(filePath),
+      dryRun,
+      readFile,
+      getConfig: (key: string) => this.getConfig(key),
     };
   }
 
+  private async getConfigValues(key: string): Promise<string[]> {
+    try {
+      const output = await this.git.raw(['config', '--get-all', `smugit.${key}`]);
+      return output.split('\n').map(value => value.trim()).filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  private async getConfig(key: string): Promise<string | undefined> {
+    const value = (await this.git.raw(['config', '--get', `smugit.${key}`])).trim();
+    return value || undefined;
+  }
+
   private async applyFallbackStrategy(
     conflict: GitConflict,
-    strategy: 'incoming' | 'current' | 'both'
+    readFile: (filePath: string) => Promise<string>,
+    strategy: 'incoming' | 'current' | 'both',
+    resolvedHunks: (string | undefined)[] = []
   ): Promise<string | undefined> {
-    const content = await this.readFile(conflict.file);
-    let resolvedContent = content;
+    return renderResolvedContent(conflict, readFile, index => {
+      const hunk = conflict.hunks[index];
 
-    for (const hunk of conflict.hunks) {
-      let replacement: string;
+      // Blocks a plugin already merged keep that result
+      if (resolvedHunks[index] !== undefined) {
+        return resolvedHunks[index];
+      }
 
       switch (strategy) {
         case 'incoming':
-          replacement = hunk.incomingContent;
-          break;
+          return hunk.incomingContent;
         case 'current':
-          replacement = hunk.currentContent;
-          break;
+          return hunk.currentContent;
         case 'both':
-          replacement = this.combineBothVersions(hunk);
-          break;
-        default:
-          return undefined;
+          return this.combineBothVersions(hunk);
       }
-
-      const conflictPattern = new RegExp(
-        `${escapeRegExp(hunk.conflictMarkers.start)}[\\s\\S]*?${escapeRegExp(hunk.conflictMarkers.end)}`,
-        's'
-      );
-
-      resolvedContent = resolvedContent.replace(conflictPattern, replacement);
-    }
-
-    return resolvedContent;
+    });
   }
 
   private combineBothVersions(hunk: ConflictHunk): string {
@@ -233,6 +752,24 @@ export class ConflictResolver {
     return segments.join('\n');
   }
 
+  /**
+   * Reads files for the plugins. Conflicts merged in memory have no working
+   * tree copy, so they read as the merge of their versions with each block marked.
+   */
+  private fileReader(conflicts: GitConflict[], inMemory: boolean): (filePath: string) => Promise<string> {
+    const merged = new Map<string, string>();
+    if (inMemory) {
+      for (const conflict of conflicts) {
+        const content = renderConflictedContent(conflict);
+        if (content !== undefined) {
+          merged.set(conflict.file, content);
+        }
+      }
+    }
+
+    return async filePath => merged.get(filePath) ?? this.readFile(filePath);
+  }
+
   private async readFile(filePath: string): Promise<string> {
     const fullPath = path.join(this.repoPath, filePath);
     return fs.readFile(fullPath, 'utf-8');
@@ -243,7 +780,3 @@ export class ConflictResolver {
     await fs.writeFile(fullPath, content, 'utf-8');
   }
 }
-
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { mergeStructuredFile } from './structured-merge';
+
+describe('mergeStructuredFile', () => {
+  it('merges keys changed on different sides of a JSON file and keeps its formatting', () => {
+    const result = mergeStructuredFile('config.json', {
+      base: '{\n    "name": "app",\n    "port": 80,\n    "debug": false\n}\n',
+      current: '{\n    "name": "app",\n    "port": 8080,\n    "debug": false\n}\n',
+      incoming: '{\n    "name": "app",\n    "port": 80,\n    "debug": true\n}\n',
+    });
+
+    expect(result?.conflicts).toEqual([]);
+    expect(result?.content).toBe('{\n    "name": "app",\n    "port": 8080,\n    "debug": true\n}\n');
+  });
+
+  it('keeps the comments of a YAML file', () => {
+    const result = mergeStructuredFile('deploy.yaml', {
+      base: '# replicas per region\nreplicas: 1\nimage: app:1\n',
+      current: '# replicas per region\nreplicas: 3\nimage: app:1\n',
+      incoming: '# replicas per region\nreplicas: 1\nimage: app:2\n',
+    });
+
+    expect(result?.content).toBe('# replicas per region\nreplicas: 3\nimage: app:2\n');
+  });
+
+  it('reports a key both sides changed differently', () => {
+    const result = mergeStructuredFile('config.json', {
+      base: '{ "port": 80 }',
+      current: '{ "port": 8080 }',
+      incoming: '{ "port": 9090 }',
+    });
+
+    expect(result?.content).toBeUndefined();
+    expect(result?.conflicts).toEqual([{ path: ['port'], base: 80, current: 8080, incoming: 9090 }]);
+  });
+
+  it('declines files that do not parse or are not structured', () => {
+    expect(mergeStructuredFile('config.json', { base: '{}', current: '{', incoming: '{}' })).toBeUndefined();
+    expect(mergeStructuredFile('notes.txt', { base: '', current: 'a', incoming: 'b' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,626 @@
+import * as path from 'path';
+import { findNodeAtLocation, Node, parse as parseJsonc, ParseError, parseTree } from 'jsonc-parser';
+import { Document, isMap, isNode, isSeq, parseAllDocuments, parseDocument, YAMLSeq } from 'yaml';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import { ConflictVersions } from '@smugit/shared';
+
+import { mergeThreeWay } from './three-way-merge';
+
+export type StructuredFormat = 'json' | 'yaml' | 'toml';
+
+export type StructuredPath = Array<string | number>;
+
+/**
+ * A key changed differently on both sides. `undefined` values mean the key is absent on that side.
+ */
+export interface StructuredConflict {
+  path: StructuredPath;
+  base?: unknown;
+  current?: unknown;
+  incoming?: unknown;
+}
+
+/**
+ * A decision for a key-level conflict. An `undefined` value removes the key.
+ */
+export interface StructuredDecision {
+  value: unknown;
+  note?: string;
+}
+
+export type StructuredConflictHandler = (conflict: StructuredConflict) => StructuredDecision | undefined;
+
+export interface StructuredMergeResult {
+  /** Merged file content, or undefined when key-level conflicts remain */
+  content?: string;
+  conflicts: StructuredConflict[];
+  notes: string[];
+}
+
+interface MergeState {
+  conflicts: StructuredConflict[];
+  notes: string[];
+  onConflict?: StructuredConflictHandler;
+}
+
+interface StructuredChange {
+  path: StructuredPath;
+  value: unknown;
+  /** Key the new property should follow; null puts it first */
+  after?: string | null;
+}
+
+const MAX_LISTED_PATHS = 5;
+
+const YAML_OUTPUT_OPTIONS = { lineWidth: 0, flowCollectionPadding: false };
+
+/**
+ * Maps a file name to the structured format it can be merged as
+ */
+export function detectStructuredFormat(filePath: string): StructuredFormat | undefined {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.json':
+    case '.jsonc':
+      return 'json';
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+    case '.toml':
+      return 'toml';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Formats a key path for display, e.g. `jobs.test.steps[2].run`
+ */
+export function formatStructuredPath(keyPath: StructuredPath): string {
+  if (keyPath.length === 0) {
+    return '(root)';
+  }
+
+  return keyPath
+    .map((segment, index) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      return index === 0 ? segment : `.${segment}`;
+    })
+    .join('');
+}
+
+/**
+ * Merges base, current and incoming versions of a JSON, YAML or TOML file as trees.
+ * The result is written by editing the current text, so formatting and comments
+ * outside the changed keys survive. Returns undefined when the file is not a
+ * supported format or one of the versions does not parse.
+ */
+export function mergeStructuredFile(
+  filePath: string,
+  versions: ConflictVersions,
+  onConflict?: StructuredConflictHandler
+): StructuredMergeResult | undefined {
+  const format = detectStructuredFormat(filePath);
+  if (!format || versions.current === undefined || versions.incoming === undefined) {
+    return undefined;
+  }
+
+  const current = parseStructured(format, versions.current);
+  const incoming = parseStructured(format, versions.incoming);
+  const base = versions.base === undefined ? { value: undefined } : parseStructured(format, versions.base);
+
+  if (!current || !incoming || !base) {
+    return undefined;
+  }
+
+  const state: MergeState = { conflicts: [], notes: [], onConflict };
+  const merged = mergeValue(base.value, current.value, incoming.value, [], state);
+
+  if (state.conflicts.length > 0) {
+    return { conflicts: state.conflicts, notes: state.notes };
+  }
+
+  const changes: StructuredChange[] = [];
+  collectChanges(current.value, merged, [], changes);
+
+  if (changes.length === 0) {
+    return { content: versions.current, conflicts: [], notes: state.notes };
+  }
+
+  const content = writeStructured(format, versions.current, merged, changes);
+
+  // Never hand back text that does not round-trip to the merged tree
+  const reparsed = content === undefined ? undefined : parseStructured(format, content);
+  if (!reparsed || !isEqual(reparsed.value, merged)) {
+    return undefined;
+  }
+
+  const notes = [...state.notes, describeChanges(changes)];
+  if (format === 'toml' && /^\s*#/m.test(versions.current)) {
+    notes.push('TOML was re-serialized, so comments were not kept');
+  }
+
+  return { content, conflicts: [], notes };
+}
+
+/**
+ * Checks that a JSON, YAML or TOML file parses. Multi-document YAML counts as valid.
+ */
+export function isValidStructuredText(format: StructuredFormat, text: string): boolean {
+  if (format === 'yaml') {
+    const documents = parseAllDocuments(text);
+    return !Array.isArray(documents) || documents.every(document => document.errors.length === 0);
+  }
+
+  return parseStructured(format, text) !== undefined;
+}
+
+function parseStructured(format: StructuredFormat, text: string): { value: unknown } | undefined {
+  try {
+    if (format === 'json') {
+      const errors: ParseError[] = [];
+      const value = parseJsonc(text, errors, { allowTrailingComma: true });
+      return errors.length === 0 ? { value } : undefined;
+    }
+
+    if (format === 'yaml') {
+      // Multi-document streams cannot be edited as a single tree
+      const documents = parseAllDocuments(text);
+      if (!Array.isArray(documents) || documents.length > 1) {
+        return undefined;
+      }
+
+      const document = parseDocument(text);
+      return document.errors.length === 0 ? { value: document.toJS() } : undefined;
+    }
+
+    return { value: parseToml(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+function mergeValue(
+  base: unknown,
+  current: unknown,
+  incoming: unknown,
+  at: StructuredPath,
+  state: MergeState
+): unknown {
+  if (isEqual(current, incoming)) return current;
+  if (isEqual(base, current)) return incoming;
+  if (isEqual(base, incoming)) return current;
+
+  if (isPlainObject(current) && isPlainObject(incoming) && (base === undefined || isPlainObject(base))) {
+    return mergeObjects(base ?? {}, current, incoming, at, state);
+  }
+
+  if (Array.isArray(current) && Array.isArray(incoming) && (base === undefined || Array.isArray(base))) {
+    const merged = mergeArrays(base ?? [], current, incoming, at, state);
+    if (merged) {
+      return merged;
+    }
+  }
+
+  return decide({ path: at, base, current, incoming }, state);
+}
+
+function decide(conflict: StructuredConflict, state: MergeState): unknown {
+  const decision = state.onConflict?.(conflict);
+
+  if (decision) {
+    if (decision.note) {
+      state.notes.push(decision.note);
+    }
+    return decision.value;
+  }
+
+  state.conflicts.push(conflict);
+  return conflict.current;
+}
+
+function mergeObjects(
+  base: Record<string, unknown>,
+  current: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  at: StructuredPath,
+  state: MergeState
+): Record<string, unknown> {
+  // Keep current key order and slot incoming-only keys in after their incoming
+  // neighbour, behind any keys current added at the same spot
+  const keys = Object.keys(current);
+  let anchor = -1;
+
+  for (const key of Object.keys(incoming)) {
+    const existing = keys.indexOf(key);
+    if (existing !== -1) {
+      anchor = existing;
+      continue;
+    }
+
+    let position = anchor + 1;
+    while (position < keys.length && !hasKey(incoming, keys[position])) {
+      position++;
+    }
+
+    keys.splice(position, 0, key);
+    anchor = position;
+  }
+
+  const merged: Record<string, unknown> = {};
+
+  for (const key of keys) {
+    const value = mergeValue(base[key], current[key], incoming[key], [...at, key], state);
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merges arrays element by element with the line-based diff3 merge. Insertions at
+ * the same spot on both sides are unioned; same-length replacements are merged
+ * per element. Anything else makes the whole array a conflict.
+ */
+function mergeArrays(
+  base: unknown[],
+  current: unknown[],
+  incoming: unknown[],
+  at: StructuredPath,
+  state: MergeState
+): unknown[] | undefined {
+  const values = new Map<string, unknown>();
+  const keyOf = (value: unknown) => {
+    const key = canonicalize(value);
+    values.set(key, value);
+    return key;
+  };
+
+  const regions = mergeThreeWay(base.map(keyOf), current.map(keyOf), incoming.map(keyOf));
+
+  const mergeable = regions.every(
+    region =>
+      region.kind === 'stable' ||
+      region.base.length === 0 ||
+      (region.current.length === region.base.length && region.incoming.length === region.base.length)
+  );
+
+  if (!mergeable) {
+    return undefined;
+  }
+
+  const merged: unknown[] = [];
+
+  for (const region of regions) {
+    if (region.kind === 'stable') {
+      merged.push(...region.lines.map(key => values.get(key)));
+      continue;
+    }
+
+    if (region.base.length === 0) {
+      const added = new Set(region.current);
+      merged.push(...region.current.map(key => values.get(key)));
+      merged.push(...region.incoming.filter(key => !added.has(key)).map(key => values.get(key)));
+      continue;
+    }
+
+    region.base.forEach((key, index) => {
+      merged.push(
+        mergeValue(
+          values.get(key),
+          values.get(region.current[index]),
+          values.get(region.incoming[index]),
+          [...at, merged.length],
+          state
+        )
+      );
+    });
+  }
+
+  return merged;
+}
+
+function collectChanges(current: unknown, merged: unknown, at: StructuredPath, changes: StructuredChange[]): void {
+  if (isEqual(current, merged)) {
+    return;
+  }
+
+  // Filling an empty object is written as a replacement so it gets laid out in one go
+  if (!isPlainObject(current) || !isPlainObject(merged) || Object.keys(current).length === 0) {
+    changes.push({ path: at, value: merged });
+    return;
+  }
+
+  for (const key of Object.keys(current)) {
+    if (!hasKey(merged, key)) {
+      changes.push({ path: [...at, key], value: undefined });
+    }
+  }
+
+  const mergedKeys = Object.keys(merged);
+  mergedKeys.forEach((key, index) => {
+    if (hasKey(current, key)) {
+      collectChanges(current[key], merged[key], [...at, key], changes);
+    } else {
+      changes.push({ path: [...at, key], value: merged[key], after: index > 0 ? mergedKeys[index - 1] : null });
+    }
+  });
+}
+
+function writeStructured(
+  format: StructuredFormat,
+  text: string,
+  merged: unknown,
+  changes: StructuredChange[]
+): string | undefined {
+  const replacesRoot = changes.some(change => change.path.length === 0);
+
+  if (format === 'json') {
+    const style = detectJsonStyle(text);
+
+    if (replacesRoot) {
+      const output = renderJsonValue(merged, false, '', style);
+      return /\r?\n$/.test(text) ? `${output}${style.eol}` : output;
+    }
+
+    let output: string | undefined = text;
+    for (const change of changes) {
+      output = output === undefined ? undefined : applyJsonChange(output, change, style);
+    }
+    return output;
+  }
+
+  if (format === 'yaml') {
+    if (replacesRoot) {
+      return new Document(merged).toString(YAML_OUTPUT_OPTIONS);
+    }
+
+    const document = parseDocument(text);
+    changes.forEach(change => applyYamlChange(document, change));
+    return document.toString(YAML_OUTPUT_OPTIONS);
+  }
+
+  const output = stringifyToml(merged as Record<string, unknown>);
+  return /\n$/.test(text) ? output.replace(/\n*$/, '\n') : output.replace(/\n+$/, '');
+}
+
+function applyYamlChange(document: Document, change: StructuredChange): void {
+  if (change.value === undefined) {
+    document.deleteIn(change.path);
+    return;
+  }
+
+  const existing = document.getIn(change.path, true);
+  if (isSeq(existing) && Array.isArray(change.value) && insertYamlItems(document, existing, change.value)) {
+    return;
+  }
+
+  const parent = document.getIn(change.path.slice(0, -1), true);
+  const key = change.path[change.path.length - 1];
+
+  if (change.after === undefined || !isMap(parent)) {
+    document.setIn(change.path, change.value);
+    return;
+  }
+
+  const properties = parent.items.map(pair => String((pair.key as { value?: unknown })?.value ?? pair.key));
+  parent.items.splice(insertionIndex(properties, change.after), 0, document.createPair(key, change.value));
+}
+
+/**
+ * Splices new items into a sequence when the merged array only adds to it, so
+ * comments on the existing items are kept
+ */
+function insertYamlItems(document: Document, sequence: YAMLSeq, merged: unknown[]): boolean {
+  const existing = sequence.items.map(item => canonicalize(isNode(item) ? item.toJSON() : item));
+  const items: unknown[] = [];
+  let next = 0;
+
+  for (const value of merged) {
+    if (next < existing.length && existing[next] === canonicalize(value)) {
+      items.push(sequence.items[next]);
+      next++;
+    } else {
+      items.push(document.createNode(value));
+    }
+  }
+
+  if (next !== existing.length) {
+    return false;
+  }
+
+  sequence.items = items;
+  return true;
+}
+
+function insertionIndex(properties: string[], after: string | null | undefined): number {
+  if (after === null) {
+    return 0;
+  }
+
+  const index = after === undefined ? -1 : properties.indexOf(after);
+  return index === -1 ? properties.length : index + 1;
+}
+
+interface JsonStyle {
+  indentUnit: string;
+  eol: string;
+}
+
+function detectJsonStyle(text: string): JsonStyle {
+  return {
+    indentUnit: text.match(/^([ \t]+)\S/m)?.[1] ?? '  ',
+    eol: text.includes('\r\n') ? '\r\n' : '\n',
+  };
+}
+
+/**
+ * Applies one change to JSON text by splicing only the affected property or
+ * value, leaving comments and the layout of untouched keys alone
+ */
+function applyJsonChange(text: string, change: StructuredChange, style: JsonStyle): string | undefined {
+  const root = parseTree(text, [], { allowTrailingComma: true });
+  if (!root) {
+    return undefined;
+  }
+
+  const node = findNodeAtLocation(root, change.path);
+
+  if (node && change.value !== undefined) {
+    const original = text.slice(node.offset, node.offset + node.length);
+    const rendered = renderJsonValue(change.value, !original.includes('\n'), lineIndent(text, node.offset), style, original);
+    return splice(text, node.offset, node.offset + node.length, rendered);
+  }
+
+  if (node) {
+    return removeJsonProperty(text, node);
+  }
+
+  const parent = findNodeAtLocation(root, change.path.slice(0, -1));
+  if (!parent || parent.type !== 'object' || !parent.children?.length || change.value === undefined) {
+    return undefined;
+  }
+
+  return insertJsonProperty(text, parent, String(change.path[change.path.length - 1]), change, style);
+}
+
+function insertJsonProperty(
+  text: string,
+  parent: Node,
+  key: string,
+  change: StructuredChange,
+  style: JsonStyle
+): string {
+  const properties = parent.children ?? [];
+  const names = properties.map(property => String(property.children?.[0]?.value));
+  const index = insertionIndex(names, change.after);
+  const singleLineParent = !text.slice(parent.offset, parent.offset + parent.length).includes('\n');
+
+  const sibling = properties[Math.max(0, index - 1)];
+  const siblingValue = sibling.children?.[1];
+  const siblingText = siblingValue ? text.slice(siblingValue.offset, siblingValue.offset + siblingValue.length) : '';
+  const indent = lineIndent(text, sibling.offset);
+  const property = `${JSON.stringify(key)}: ${renderJsonValue(
+    change.value,
+    singleLineParent || !siblingText.includes('\n'),
+    indent,
+    style,
+    siblingText
+  )}`;
+  const separator = singleLineParent ? ' ' : `${style.eol}${indent}`;
+
+  if (index === 0) {
+    return splice(text, properties[0].offset, properties[0].offset, `${property},${separator}`);
+  }
+
+  const previous = properties[index - 1];
+  const end = previous.offset + previous.length;
+  return splice(text, end, end, `,${separator}${property}`);
+}
+
+function removeJsonProperty(text: string, valueNode: Node): string | undefined {
+  const property = valueNode.parent;
+  const siblings = property?.parent?.children;
+  if (!property || property.type !== 'property' || !siblings) {
+    return undefined;
+  }
+
+  const index = siblings.indexOf(property);
+  const end = property.offset + property.length;
+
+  if (index < siblings.length - 1) {
+    return splice(text, property.offset, siblings[index + 1].offset, '');
+  }
+
+  if (index > 0) {
+    const previous = siblings[index - 1];
+    return splice(text, previous.offset + previous.length, end, '');
+  }
+
+  // Only property: drop it along with a trailing comma
+  const trailingComma = text.slice(end).match(/^\s*,/);
+  return splice(text, property.offset, end + (trailingComma?.[0].length ?? 0), '');
+}
+
+function renderJsonValue(
+  value: unknown,
+  singleLine: boolean,
+  indent: string,
+  style: JsonStyle,
+  sample: string = ', '
+): string {
+  if (singleLine) {
+    return renderCompactJson(value, /[,:] /.test(sample) || !/[,:]/.test(sample));
+  }
+
+  return JSON.stringify(value, null, style.indentUnit).split('\n').join(`${style.eol}${indent}`);
+}
+
+function renderCompactJson(value: unknown, spaced: boolean): string {
+  const comma = spaced ? ', ' : ',';
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => renderCompactJson(item, spaced)).join(comma)}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value).map(
+      key => `${JSON.stringify(key)}${spaced ? ': ' : ':'}${renderCompactJson(value[key], spaced)}`
+    );
+    if (entries.length === 0) return '{}';
+    return spaced ? `{ ${entries.join(comma)} }` : `{${entries.join(comma)}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+}
+
+function splice(text: string, start: number, end: number, insert: string): string {
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+function describeChanges(changes: StructuredChange[]): string {
+  const listed = changes.slice(0, MAX_LISTED_PATHS).map(change => formatStructuredPath(change.path));
+  const more = changes.length > MAX_LISTED_PATHS ? `, +${changes.length - MAX_LISTED_PATHS} more` : '';
+
+  return `Merged ${changes.length} key-level change(s) into the current version (${listed.join(', ')}${more})`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function hasKey(value: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  return canonicalize(left) === canonicalize(right);
+}
+
+/**
+ * Serializes a value with sorted keys so key order does not count as a change
+ */
+function canonicalize(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
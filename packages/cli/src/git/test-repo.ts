@@ -0,0 +1,96 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A throwaway git repository for tests, on branch main with one identity and
+ * git's default conflict style whatever the machine's config says
+ */
+export class TestRepo {
+  readonly path: string;
+
+  constructor() {
+    this.path = fs.mkdtempSync(path.join(os.tmpdir(), 'smugit-test-'));
+    this.git('init', '-q', '-b', 'main');
+    this.git('config', 'user.name', 'Test');
+    this.git('config', 'user.email', 'test@example.com');
+    this.git('config', 'commit.gpgsign', 'false');
+    this.git('config', 'merge.conflictStyle', 'merge');
+  }
+
+  /** Runs git and returns its output; throws when git exits non-zero */
+  git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: this.path, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+  }
+
+  /** Runs git that is expected to stop, e.g. a merge with conflicts */
+  gitMayFail(...args: string[]): void {
+    try {
+      this.git(...args);
+    } catch {
+      // Conflicts exit non-zero
+    }
+  }
+
+  write(file: string, content: string | Buffer): void {
+    const fullPath = path.join(this.path, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+
+  read(file: string): string {
+    return fs.readFileSync(path.join(this.path, file), 'utf-8');
+  }
+
+  exists(file: string): boolean {
+    return fs.existsSync(path.join(this.path, file));
+  }
+
+  /** Writes the files, stages everything and commits; returns the commit hash */
+  commit(message: string, files: Record<string, string | Buffer> = {}): string {
+    Object.entries(files).forEach(([file, content]) => this.write(file, content));
+    this.git('add', '-A');
+    this.git('commit', '-q', '--allow-empty', '-m', message);
+    return this.git('rev-parse', 'HEAD').trim();
+  }
+
+  /** `git status --porcelain` lines */
+  status(): string[] {
+    return this.git('status', '--porcelain').split('\n').filter(Boolean);
+  }
+
+  remove(): void {
+    fs.rmSync(this.path, { recursive: true, force: true });
+  }
+}
+
+/** Files to write, with null for files to delete */
+export type FileChanges = Record<string, string | Buffer | null>;
+
+/**
+ * Commits `base` on main, `current` on main and `incoming` on a feature branch,
+ * then merges feature into main, leaving whatever conflicts that produces
+ */
+export function conflictedMerge(base: Record<string, string | Buffer>, current: FileChanges, incoming: FileChanges): TestRepo {
+  const repo = new TestRepo();
+  repo.commit('base', base);
+  repo.git('checkout', '-q', '-b', 'feature');
+  applyFiles(repo, incoming);
+  repo.commit('incoming');
+  repo.git('checkout', '-q', 'main');
+  applyFiles(repo, current);
+  repo.commit('current');
+  repo.gitMayFail('merge', 'feature');
+  return repo;
+}
+
+function applyFiles(repo: TestRepo, files: FileChanges): void {
+  Object.entries(files).forEach(([file, content]) => {
+    if (content === null) {
+      repo.git('rm', '-q', file);
+    } else {
+      repo.write(file, content);
+    }
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { isCleanMerge, mergeHunkThreeWay, mergeThreeWay, splitMergeLines } from './three-way-merge';
+
+const lines = (text: string) => splitMergeLines(text);
+
+describe('mergeThreeWay', () => {
+  it('takes each side of edits separated by unchanged lines', () => {
+    const regions = mergeThreeWay(lines('a\nb\nc\nd\ne'), lines('A\nb\nc\nd\ne'), lines('a\nb\nc\nd\nE'));
+
+    expect(isCleanMerge(regions)).toBe(true);
+    expect(regions).toEqual([
+      { kind: 'stable', origin: 'current', lines: ['A'] },
+      { kind: 'stable', origin: 'unchanged', lines: ['b', 'c', 'd'] },
+      { kind: 'stable', origin: 'incoming', lines: ['E'] },
+    ]);
+  });
+
+  it('keeps a deletion made on one side', () => {
+    const regions = mergeThreeWay(lines('a\nb\nc'), lines('a\nc'), lines('a\nb\nc'));
+
+    expect(regions.flatMap(region => (region.kind === 'stable' ? region.lines : []))).toEqual(['a', 'c']);
+  });
+
+  it('merges the same edit on both sides once', () => {
+    const regions = mergeThreeWay(lines('a\nb\nc'), lines('a\nB\nc'), lines('a\nB\nc'));
+
+    expect(regions).toContainEqual({ kind: 'stable', origin: 'both', lines: ['B'] });
+    expect(isCleanMerge(regions)).toBe(true);
+  });
+
+  it('conflicts when both sides change the same line differently', () => {
+    const regions = mergeThreeWay(lines('a\nb\nc'), lines('a\nX\nc'), lines('a\nY\nc'));
+
+    expect(regions).toContainEqual({ kind: 'conflict', base: ['b'], current: ['X'], incoming: ['Y'] });
+  });
+
+  it('conflicts on adjacent edits from both sides, like git', () => {
+    const regions = mergeThreeWay(lines('a\nb\nc\nd'), lines('a\nB\nc\nd'), lines('a\nb\nC\nd'));
+
+    expect(regions).toContainEqual({ kind: 'conflict', base: ['b', 'c'], current: ['B', 'c'], incoming: ['b', 'C'] });
+  });
+
+  it('conflicts when both sides add different lines to an empty base', () => {
+    expect(isCleanMerge(mergeThreeWay([], ['x'], ['y']))).toBe(false);
+    expect(isCleanMerge(mergeThreeWay([], ['x'], ['x']))).toBe(true);
+  });
+});
+
+describe('mergeHunkThreeWay', () => {
+  const hunk = (baseContent: string, currentContent: string, incomingContent: string, hasBase = true) => ({
+    startLine: 1,
+    endLine: 1,
+    baseContent,
+    hasBase,
+    currentContent,
+    incomingContent,
+    conflictMarkers: { start: '<<<<<<< HEAD', separator: '=======', end: '>>>>>>> incoming' },
+  });
+
+  it('resolves a block whose parts were changed on one side each', () => {
+    const result = mergeHunkThreeWay(hunk('a\nb\nc', 'A\nb\nc', 'a\nb\nC'));
+
+    expect(result).toEqual({ clean: true, content: 'A\nb\nC', oneSidedEdits: 2, doubleEdits: 0 });
+  });
+
+  it('declines blocks without a base', () => {
+    expect(mergeHunkThreeWay(hunk('', 'A', 'B', false)).clean).toBe(false);
+  });
+});
@@ -0,0 +1,270 @@
+import { ConflictHunk } from '@smugit/shared';
+
+export type MergeRegion =
+  | {
+      kind: 'stable';
+      origin: 'unchanged' | 'current' | 'incoming' | 'both';
+      lines: string[];
+    }
+  | {
+      kind: 'conflict';
+      base: string[];
+      current: string[];
+      incoming: string[];
+    };
+
+export interface HunkMergeResult {
+  clean: boolean;
+  content?: string;
+  oneSidedEdits: number;
+  doubleEdits: number;
+}
+
+/**
+ * Splits content into lines, treating empty content as zero lines
+ */
+export function splitMergeLines(content: string): string[] {
+  return content === '' ? [] : content.split('\n');
+}
+
+/**
+ * Computes the longest common subsequence of two line arrays as matched index pairs
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > prefix && endB > prefix && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let index = 0; index < prefix; index++) {
+    pairs.push([index, index]);
+  }
+
+  const middle = myersMatch(a.slice(prefix, endA), b.slice(prefix, endB));
+  middle.forEach(([x, y]) => pairs.push([x + prefix, y + prefix]));
+
+  for (let index = 0; index < a.length - endA; index++) {
+    pairs.push([endA + index, endB + index]);
+  }
+
+  return pairs;
+}
+
+/**
+ * Myers O(ND) diff, returning the matched (unchanged) line pairs in order
+ */
+function myersMatch(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0 || m === 0) {
+    return [];
+  }
+
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Only diagonals -d..d can be reached in round d, so keep just that window
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrackMatches(trace, n, m);
+      }
+    }
+  }
+
+  return [];
+}
+
+function backtrackMatches(trace: Int32Array[], n: number, m: number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const window = trace[d];
+    const at = (k: number) => window[k + d];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return pairs.reverse();
+}
+
+/**
+ * Performs a diff3-style merge of current and incoming against their common base.
+ * Regions changed on one side only are taken from that side; regions changed
+ * differently on both sides are returned as conflicts.
+ */
+export function mergeThreeWay(
+  base: string[],
+  current: string[],
+  incoming: string[]
+): MergeRegion[] {
+  const currentMatches = new Map(matchLines(base, current));
+  const incomingMatches = new Map(matchLines(base, incoming));
+  const regions: MergeRegion[] = [];
+
+  let o = 0;
+  let a = 0;
+  let b = 0;
+
+  for (;;) {
+    let run = 0;
+    while (
+      o + run < base.length &&
+      currentMatches.get(o + run) === a + run &&
+      incomingMatches.get(o + run) === b + run
+    ) {
+      run++;
+    }
+
+    if (run > 0) {
+      pushStable(regions, 'unchanged', base.slice(o, o + run));
+      o += run;
+      a += run;
+      b += run;
+      continue;
+    }
+
+    let next = o;
+    while (next < base.length && !(currentMatches.has(next) && incomingMatches.has(next))) {
+      next++;
+    }
+
+    const currentEnd = next < base.length ? currentMatches.get(next)! : current.length;
+    const incomingEnd = next < base.length ? incomingMatches.get(next)! : incoming.length;
+
+    if (next === o && currentEnd === a && incomingEnd === b) {
+      break;
+    }
+
+    pushUnstable(
+      regions,
+      base.slice(o, next),
+      current.slice(a, currentEnd),
+      incoming.slice(b, incomingEnd)
+    );
+
+    o = next;
+    a = currentEnd;
+    b = incomingEnd;
+  }
+
+  return regions;
+}
+
+function pushStable(
+  regions: MergeRegion[],
+  origin: 'unchanged' | 'current' | 'incoming' | 'both',
+  lines: string[]
+): void {
+  const previous = regions[regions.length - 1];
+  if (previous && previous.kind === 'stable' && previous.origin === origin) {
+    previous.lines.push(...lines);
+    return;
+  }
+
+  regions.push({ kind: 'stable', origin, lines: [...lines] });
+}
+
+function pushUnstable(
+  regions: MergeRegion[],
+  base: string[],
+  current: string[],
+  incoming: string[]
+): void {
+  if (sameLines(current, base)) {
+    pushStable(regions, 'incoming', incoming);
+  } else if (sameLines(incoming, base)) {
+    pushStable(regions, 'current', current);
+  } else if (sameLines(current, incoming)) {
+    pushStable(regions, 'both', current);
+  } else {
+    // Like git, edits on both sides with no unchanged line between them conflict,
+    // even when each line was changed on one side only
+    regions.push({ kind: 'conflict', base, current, incoming });
+  }
+}
+
+function sameLines(left: string[], right: string[]): boolean {
+  return left.length === right.length && left.every((line, index) => line === right[index]);
+}
+
+/**
+ * Returns true when a merge produced no conflicting regions
+ */
+export function isCleanMerge(regions: MergeRegion[]): boolean {
+  return regions.every(region => region.kind === 'stable');
+}
+
+/**
+ * Re-merges a conflict hunk against its base content. Only hunks that carry
+ * base content (diff3 markers or a base rebuilt from the index) can be merged.
+ */
+export function mergeHunkThreeWay(hunk: ConflictHunk): HunkMergeResult {
+  if (!hunk.hasBase) {
+    return { clean: false, oneSidedEdits: 0, doubleEdits: 0 };
+  }
+
+  const regions = mergeThreeWay(
+    splitMergeLines(hunk.baseContent),
+    splitMergeLines(hunk.currentContent),
+    splitMergeLines(hunk.incomingContent)
+  );
+
+  const oneSidedEdits = regions.filter(
+    region => region.kind === 'stable' && (region.origin === 'current' || region.origin === 'incoming')
+  ).length;
+  const doubleEdits = regions.filter(region => region.kind === 'conflict').length;
+
+  if (doubleEdits > 0) {
+    return { clean: false, oneSidedEdits, doubleEdits };
+  }
+
+  const lines = regions.flatMap(region => (region.kind === 'stable' ? region.lines : []));
+
+  return {
+    clean: true,
+    content: lines.join('\n'),
+    oneSidedEdits,
+    doubleEdits,
+  };
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { BranchTopology, CommitGraph } from './topology';
+import { TestRepo } from './test-repo';
+
+let repo: TestRepo | undefined;
+
+afterEach(() => {
+  repo?.remove();
+  repo = undefined;
+});
+
+/**
+ * feature branches off main, merges main back in, and main moves on again;
+ * the repo is left on feature
+ */
+function mergedRepo(): TestRepo {
+  const repo = new TestRepo();
+  repo.commit('base', { 'a.txt': 'a\n' });
+  repo.git('checkout', '-q', '-b', 'feature');
+  repo.commit('feature work', { 'f.txt': 'f\n' });
+  repo.git('checkout', '-q', 'main');
+  repo.commit('main work', { 'm.txt': 'm\n' });
+  repo.git('checkout', '-q', 'feature');
+  repo.git('merge', '-q', '--no-edit', 'main');
+  repo.git('checkout', '-q', 'main');
+  repo.commit('more main work', { 'n.txt': 'n\n' });
+  repo.git('checkout', '-q', 'feature');
+  return repo;
+}
+
+/** Side and labels of each commit drawn, by subject */
+const commitsOf = (graph: CommitGraph) =>
+  Object.fromEntries(graph.lines.flatMap(line => (line.commit ? [[line.commit.subject, [line.commit.side, line.commit.labels]]] : [])));
+
+describe('BranchTopology.read', () => {
+  it('compares the branch with the default branch across a merge', async () => {
+    repo = mergedRepo();
+
+    const graph = await new BranchTopology(repo.path).read();
+
+    expect(graph).toMatchObject({
+      branch: 'feature',
+      defaultBranch: 'main',
+      compareTo: 'main',
+      mergeBase: repo.git('rev-parse', 'main~1').trim(),
+      ahead: 2,
+      behind: 1,
+    });
+    expect(commitsOf(graph)).toEqual({
+      "Merge branch 'main' into feature": ['ahead', ['HEAD → feature']],
+      'feature work': ['ahead', []],
+      'more main work': ['behind', ['main']],
+      'main work': ['base', ['merge base']],
+      base: ['shared', []],
+    });
+  });
+
+  it("keeps git's drawing, including the lines that only join or split branches", async () => {
+    repo = mergedRepo();
+
+    const { lines } = await new BranchTopology(repo.path).read();
+
+    expect(lines[0]).toMatchObject({ graph: '*   ', commit: { subject: "Merge branch 'main' into feature" } });
+    expect(lines.filter(line => !line.commit).map(line => line.graph.trim())).toEqual(['|\\', '| |/', '|/']);
+    lines.filter(line => line.commit).forEach(line => expect(line.graph).toContain('*'));
+  });
+
+  it('stops at the limit', async () => {
+    repo = mergedRepo();
+
+    const { lines } = await new BranchTopology(repo.path).read({ limit: 2 });
+
+    expect(lines.filter(line => line.commit)).toHaveLength(2);
+  });
+
+  it('points out the commit being merged in', async () => {
+    repo = new TestRepo();
+    repo.commit('base', { 'a.txt': 'a\n' });
+    repo.git('checkout', '-q', '-b', 'feature');
+    repo.commit('feature change', { 'a.txt': 'feature\n' });
+    repo.git('checkout', '-q', 'main');
+    repo.commit('main change', { 'a.txt': 'main\n' });
+    repo.gitMayFail('merge', 'feature');
+
+    const graph = await new BranchTopology(repo.path).read();
+
+    expect(commitsOf(graph)['feature change']).toEqual(['shared', ['MERGE_HEAD (merging)']]);
+    // On the default branch HEAD is its own merge base
+    expect(commitsOf(graph)['main change']).toEqual(['base', ['HEAD → main', 'merge base']]);
+  });
+
+  it('points out the new base and the branch as it was during a rebase', async () => {
+    repo = new TestRepo();
+    repo.commit('base', { 'a.txt': 'a\n' });
+    repo.git('checkout', '-q', '-b', 'feature');
+    repo.commit('feature change', { 'a.txt': 'feature\n' });
+    repo.git('checkout', '-q', 'main');
+    repo.commit('main change', { 'a.txt': 'main\n' });
+    repo.git('checkout', '-q', 'feature');
+    repo.gitMayFail('rebase', 'main');
+
+    const graph = await new BranchTopology(repo.path).read();
+
+    expect(graph.branch).toBeUndefined();
+    expect(commitsOf(graph)['main change'][1]).toEqual(['HEAD', 'main', 'merge base', 'rebase onto']);
+    expect(commitsOf(graph)['feature change'][1]).toEqual(['REBASE_HEAD (replaying)', 'feature before the rebase']);
+  });
+});
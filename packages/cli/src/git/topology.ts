@@ -0,0 +1,196 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+
+/** Which side of the comparison a commit is on */
+export type GraphSide = 'ahead' | 'behind' | 'base' | 'shared';
+
+export interface GraphCommit {
+  hash: string;
+  subject: string;
+  /** e.g. "3 days ago" */
+  age: string;
+  side: GraphSide;
+  /** Refs worth pointing out, e.g. "HEAD → feature", "origin/main", "merge base" */
+  labels: string[];
+}
+
+export interface GraphLine {
+  /** Git's drawing of the branches at this line, e.g. "| * " */
+  graph: string;
+  /** The commit drawn on this line; lines that only join or split branches have none */
+  commit?: GraphCommit;
+}
+
+export interface CommitGraph {
+  /** Current branch, undefined on a detached HEAD */
+  branch?: string;
+  upstream?: string;
+  defaultBranch?: string;
+  /** What ahead and behind count against: the upstream, else the default branch */
+  compareTo?: string;
+  mergeBase?: string;
+  ahead: number;
+  behind: number;
+  lines: GraphLine[];
+}
+
+export interface GraphOptions {
+  /** Most commits to draw */
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 20;
+
+// Heads git records while an operation is stopped, with how to label them
+const OPERATION_HEADS: [string, string][] = [
+  ['MERGE_HEAD', 'merging'],
+  ['REBASE_HEAD', 'replaying'],
+  ['CHERRY_PICK_HEAD', 'picking'],
+  ['REVERT_HEAD', 'reverting'],
+];
+
+/**
+ * Reads how the current branch relates to its upstream, the default branch and
+ * any operation in progress, as the lines of a commit graph
+ */
+export class BranchTopology {
+  private git: SimpleGit;
+
+  constructor(repoPath: string = process.cwd()) {
+    this.git = simpleGit(repoPath);
+  }
+
+  async read(options: GraphOptions = {}): Promise<CommitGraph> {
+    const branch = await this.optional(['symbolic-ref', '--short', '-q', 'HEAD']);
+    const upstream = await this.optional(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']);
+    const defaultBranch = await this.findDefaultBranch();
+    const compareTo = upstream ?? (defaultBranch !== branch ? defaultBranch : undefined);
+    const mergeBase = defaultBranch ? await this.optional(['merge-base', 'HEAD', defaultBranch]) : undefined;
+
+    // Labels go on the commits they point at, which also become tips of the drawing
+    const labels = new Map<string, string[]>();
+    const label = async (rev: string, name: string) => {
+      const commit = await this.optional(['rev-parse', '--verify', '-q', `${rev}^{commit}`]);
+      if (commit) {
+        labels.set(commit, [...(labels.get(commit) ?? []), name]);
+      }
+    };
+
+    await label('HEAD', branch ? `HEAD → ${branch}` : 'HEAD');
+    if (upstream) await label(upstream, upstream);
+    if (defaultBranch && defaultBranch !== branch && defaultBranch !== upstream) await label(defaultBranch, defaultBranch);
+    if (mergeBase) await label(mergeBase, 'merge base');
+    for (const [head, description] of OPERATION_HEADS) {
+      await label(head, `${head} (${description})`);
+    }
+    await this.labelRebase(label);
+
+    let ahead = 0;
+    let behind = 0;
+    let aheadCommits = new Set<string>();
+    let behindCommits = new Set<string>();
+    if (compareTo) {
+      [aheadCommits, behindCommits] = await Promise.all([
+        this.revList(['HEAD', '--not', compareTo]),
+        this.revList([compareTo, '--not', 'HEAD']),
+      ]);
+      ahead = aheadCommits.size;
+      behind = behindCommits.size;
+    }
+
+    const output = await this.git.raw([
+      'log',
+      '--graph',
+      '--topo-order',
+      '--color=never',
+      `--max-count=${options.limit ?? DEFAULT_LIMIT}`,
+      '--format=%x1f%H%x1f%s%x1f%ar',
+      ...labels.keys(),
+    ]);
+
+    const lines = output
+      .split('\n')
+      .filter(Boolean)
+      .map((line): GraphLine => {
+        const [graph, hash, subject, age] = line.split('\x1f');
+        if (hash === undefined) {
+          return { graph: line };
+        }
+
+        const side: GraphSide =
+          hash === mergeBase ? 'base' : aheadCommits.has(hash) ? 'ahead' : behindCommits.has(hash) ? 'behind' : 'shared';
+        return { graph, commit: { hash, subject, age, side, labels: labels.get(hash) ?? [] } };
+      });
+
+    return {
+      ...(branch ? { branch } : {}),
+      ...(upstream ? { upstream } : {}),
+      ...(defaultBranch ? { defaultBranch } : {}),
+      ...(compareTo ? { compareTo } : {}),
+      ...(mergeBase ? { mergeBase } : {}),
+      ahead,
+      behind,
+      lines,
+    };
+  }
+
+  /**
+   * The branch most work merges into: the remote's HEAD, else a local main or master
+   */
+  private async findDefaultBranch(): Promise<string | undefined> {
+    const remoteHead = await this.optional(['symbolic-ref', '--short', '-q', 'refs/remotes/origin/HEAD']);
+    if (remoteHead) {
+      return remoteHead;
+    }
+
+    for (const candidate of ['main', 'master']) {
+      if (await this.optional(['rev-parse', '--verify', '-q', `refs/heads/${candidate}`])) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * During a rebase HEAD is detached on the new base, so point out the base and
+   * where the branch stood before the rebase started
+   */
+  private async labelRebase(label: (rev: string, name: string) => Promise<void>): Promise<void> {
+    const gitDir = (await this.git.raw(['rev-parse', '--absolute-git-dir'])).trim();
+
+    for (const dir of ['rebase-merge', 'rebase-apply']) {
+      const read = (name: string) =>
+        fs.readFile(path.join(gitDir, dir, name), 'utf-8').then(content => content.trim(), () => undefined);
+      const onto = await read('onto');
+      if (!onto) {
+        continue;
+      }
+
+      const headName = (await read('head-name'))?.replace(/^refs\/heads\//, '');
+      await label(onto, 'rebase onto');
+      const origHead = await read('orig-head');
+      if (origHead) {
+        await label(origHead, `${headName ?? 'HEAD'} before the rebase`);
+      }
+      return;
+    }
+  }
+
+  private async revList(args: string[]): Promise<Set<string>> {
+    const output = await this.git.raw(['rev-list', ...args]);
+    return new Set(output.split('\n').filter(Boolean));
+  }
+
+  /**
+   * Output of a git command that may fail or print nothing, e.g. when a branch
+   * has no upstream
+   */
+  private async optional(args: string[]): Promise<string | undefined> {
+    try {
+      return (await this.git.raw(args)).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkResolvedContent } from './validation';
+
+describe('checkResolvedContent', () => {
+  it('reports conflict markers left in the file', () => {
+    expect(checkResolvedContent('notes.txt', 'a\n<<<<<<< HEAD\nb\n', undefined)).toBe('conflict markers remain (line 2)');
+  });
+
+  it('fails code that no longer parses although both sides did', () => {
+    const versions = { current: 'const a = 1;\n', incoming: 'const b = 2;\n' };
+
+    expect(checkResolvedContent('app.ts', 'const a = 1;\nconst b = (2;\n', versions)).toBe('the merged code no longer parses');
+    expect(checkResolvedContent('app.ts', 'const a = 1;\nconst b = 2;\n', versions)).toBeUndefined();
+  });
+
+  it('does not fail a dialect the parser cannot read on the sides either', () => {
+    // Flow's maybe types are not TypeScript
+    const versions = { current: 'function f(x: ?number) {}\n', incoming: 'function g(y: ?string) {}\n' };
+
+    expect(
+      checkResolvedContent('app.js', 'function f(x: ?number) {}\nfunction g(y: ?string) {}\n', versions)
+    ).toBeUndefined();
+  });
+
+  it('leaves the syntax unchecked without both sides to compare', () => {
+    expect(checkResolvedContent('app.ts', 'const b = (2;\n', undefined)).toBeUndefined();
+    expect(checkResolvedContent('config.json', '{', { current: '{}' })).toBeUndefined();
+  });
+
+  it('fails structured files that no longer parse although both sides did', () => {
+    expect(checkResolvedContent('config.json', '{ "a": 1 "b": 2 }', { current: '{ "a": 1 }', incoming: '{ "b": 2 }' })).toBe(
+      'the merged file is not valid JSON'
+    );
+  });
+});
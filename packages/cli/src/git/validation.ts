@@ -0,0 +1,109 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { ConflictVersions } from '@smugit/shared';
+
+import { ASTConflictResolver, isScriptFile } from './ast-resolver';
+import { detectStructuredFormat, isValidStructuredText } from './structured-merge';
+
+const execAsync = promisify(exec);
+
+const VALIDATION_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_OUTPUT_LINES = 5;
+
+export interface ValidationFailure {
+  file: string;
+  reason: string;
+}
+
+const astResolver = new ASTConflictResolver();
+
+/**
+ * Checks whether content still holds start or end conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return findConflictMarker(content) !== undefined;
+}
+
+/**
+ * Checks a resolved file before it is staged: no conflict markers left and, for
+ * languages we can parse, still syntactically valid. Returns the reason it fails.
+ * A parse failure only counts when both sides of the conflict parsed, since a
+ * dialect the parsers don't know fails on the sides too.
+ */
+export function checkResolvedContent(
+  filePath: string,
+  content: string,
+  versions: ConflictVersions | undefined
+): string | undefined {
+  const markerLine = findConflictMarker(content);
+  if (markerLine !== undefined) {
+    return `conflict markers remain (line ${markerLine})`;
+  }
+
+  if (isScriptFile(filePath) && brokeSyntax(text => astResolver.isValidSource(text, filePath), content, versions)) {
+    return 'the merged code no longer parses';
+  }
+
+  const format = detectStructuredFormat(filePath);
+  if (format && brokeSyntax(text => isValidStructuredText(format, text), content, versions)) {
+    return `the merged file is not valid ${format.toUpperCase()}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Runs configured validation commands in the repository. `{files}` in a command is
+ * replaced with the touched files. Returns the reason of the first failure.
+ */
+export async function runValidationCommands(
+  repoPath: string,
+  commands: string[],
+  files: string[]
+): Promise<string | undefined> {
+  const fileArguments = files.map(quoteShellArgument).join(' ');
+
+  for (const command of commands) {
+    const expanded = command.split('{files}').join(fileArguments);
+
+    try {
+      await execAsync(expanded, {
+        cwd: repoPath,
+        timeout: VALIDATION_TIMEOUT_MS,
+        env: { ...process.env, CI: '1' },
+      });
+    } catch (error) {
+      const { stdout, stderr } = error as { stdout?: string; stderr?: string };
+      const output = `${stderr ?? ''}\n${stdout ?? ''}`
+        .split('\n')
+        .filter(line => line.trim())
+        .slice(0, MAX_OUTPUT_LINES)
+        .join('\n    ');
+
+      return `\`${command}\` failed${output ? `:\n    ${output}` : ''}`;
+    }
+  }
+
+  return undefined;
+}
+
+function findConflictMarker(content: string): number | undefined {
+  const index = content.split('\n').findIndex(line => /^(?:<{7}|>{7})(?: |$)/.test(line));
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Whether the content fails to parse although the current and incoming sides
+ * both do; without both sides to compare, whether it is broken is unknown
+ */
+function brokeSyntax(isValid: (text: string) => boolean, content: string, versions: ConflictVersions | undefined): boolean {
+  if (isValid(content) || versions?.current === undefined || versions.incoming === undefined) {
+    return false;
+  }
+
+  return isValid(versions.current) && isValid(versions.incoming);
+}
+
+function quoteShellArgument(value: string): string {
+  return /^[\w./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,5 @@
+export { MergeView } from './merge-view';
+export type { HunkSuggestion, MergeViewOptions, MergeViewResult } from './merge-view';
+export { Terminal } from './terminal';
+export { diffWords } from './word-diff';
+export type { DiffSegment } from './word-diff';
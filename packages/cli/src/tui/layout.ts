@@ -0,0 +1,114 @@
+import chalk from 'chalk';
+
+import { DiffSegment } from './word-diff';
+
+const TAB_WIDTH = 4;
+
+/** One terminal column of a rendered line */
+export interface Cell {
+  char: string;
+  changed: boolean;
+  /** Index of the character in the source line */
+  source: number;
+}
+
+export interface LineStyle {
+  text: (text: string) => string;
+  changed: (text: string) => string;
+}
+
+export const plainStyle: LineStyle = { text: text => text, changed: text => text };
+
+/**
+ * Lays a line out in terminal columns, expanding tabs
+ */
+export function layoutSegments(segments: DiffSegment[]): Cell[] {
+  const cells: Cell[] = [];
+  let source = 0;
+
+  for (const segment of segments) {
+    for (const char of segment.text) {
+      if (char === '\t') {
+        const spaces = TAB_WIDTH - (cells.length % TAB_WIDTH);
+        for (let index = 0; index < spaces; index++) {
+          cells.push({ char: ' ', changed: segment.changed, source });
+        }
+      } else if (char !== '\r') {
+        cells.push({ char, changed: segment.changed, source });
+      }
+      source++;
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Column where source character `index` starts; the end of the line when past it
+ */
+export function columnOf(cells: Cell[], index: number): number {
+  const column = cells.findIndex(cell => cell.source >= index);
+  return column === -1 ? cells.length : column;
+}
+
+/**
+ * Renders the columns `offset` to `offset + width` of a line, padded to exactly
+ * `width`. Arrows mark text cut off on either side.
+ */
+export function renderCells(
+  cells: Cell[],
+  width: number,
+  offset: number,
+  style: LineStyle,
+  cursorColumn?: number
+): string {
+  if (width <= 0) {
+    return '';
+  }
+
+  let output = '';
+  let run = '';
+  let runChanged = false;
+
+  const flush = () => {
+    if (run) {
+      output += runChanged ? style.changed(run) : style.text(run);
+      run = '';
+    }
+  };
+
+  for (let column = offset; column < offset + width; column++) {
+    const cell = cells[column];
+    const atLeftEdge = column === offset && offset > 0;
+    const atRightEdge = column === offset + width - 1 && cells.length > offset + width;
+
+    if (column === cursorColumn) {
+      flush();
+      output += chalk.inverse(cell?.char ?? ' ');
+      continue;
+    }
+
+    if (atLeftEdge || atRightEdge) {
+      flush();
+      output += chalk.dim(atLeftEdge ? '‹' : '›');
+      continue;
+    }
+
+    const changed = cell?.changed ?? false;
+    if (changed !== runChanged) {
+      flush();
+      runChanged = changed;
+    }
+    run += cell?.char ?? ' ';
+  }
+
+  flush();
+  return output;
+}
+
+/**
+ * Pads or cuts plain text to exactly `width` columns
+ */
+export function fitText(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, Math.max(0, width - 1))}…` : text.padEnd(width);
+}
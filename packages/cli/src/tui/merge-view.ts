@@ -0,0 +1,505 @@
+import chalk from 'chalk';
+import { ConflictHunk, GitConflict } from '@smugit/shared';
+
+import { hasConflictMarkers, renderConflictBlock, type SideLabels } from '../git';
+import { Keypress, Terminal } from './terminal';
+import { DiffSegment, diffWords } from './word-diff';
+import { LineStyle, columnOf, fitText, layoutSegments, plainStyle, renderCells } from './layout';
+
+export interface HunkSuggestion {
+  plugin: string;
+  content: string;
+  notes: string[];
+}
+
+export interface MergeViewOptions {
+  /** What each side holds, e.g. the upstream and your commit during a rebase */
+  sides?: SideLabels;
+  /** Asks the plugins about one block */
+  suggest?: (hunkIndex: number) => Promise<HunkSuggestion | undefined>;
+}
+
+export interface MergeViewResult {
+  /** Output per block; undefined for blocks left undecided */
+  decisions: (string | undefined)[];
+  strategies: (string | undefined)[];
+}
+
+interface Pane {
+  title: string;
+  lines: DiffSegment[][];
+  style: LineStyle;
+}
+
+// Below this width the base pane is hidden to keep current and incoming readable
+const MIN_WIDTH_FOR_BASE = 100;
+const HORIZONTAL_STEP = 8;
+
+const VIEW_HELP =
+  'n/p block  ↑↓←→ scroll  c current  i incoming  b both  B both (incoming first)  o base  a plugins  e edit  x clear  w write  q quit';
+const EDIT_HELP = 'Editing result  arrows move  enter newline  esc done  ctrl-c discard edit';
+
+/**
+ * Full-screen three-way view of a conflicted file: current, base and incoming
+ * panes above an editable result pane, one conflict block at a time
+ */
+export class MergeView {
+  private conflict: GitConflict;
+  private options: MergeViewOptions;
+  private terminal = new Terminal();
+  private index = 0;
+  private decisions: (string | undefined)[];
+  private strategies: (string | undefined)[];
+  /** Result lines being edited, kept while they still contain markers */
+  private drafts: (string[] | undefined)[];
+  private mode: 'view' | 'edit' = 'view';
+  private scroll = 0;
+  private offset = 0;
+  private cursor = { line: 0, column: 0 };
+  private resultScroll = 0;
+  private status = '';
+  private busy = false;
+  private confirmQuit = false;
+  private panes = new Map<number, Pane[]>();
+  private finish?: (result: MergeViewResult | undefined) => void;
+  private fail?: (error: unknown) => void;
+
+  constructor(conflict: GitConflict, options: MergeViewOptions = {}) {
+    this.conflict = conflict;
+    this.options = options;
+    this.decisions = conflict.hunks.map(() => undefined);
+    this.strategies = conflict.hunks.map(() => undefined);
+    this.drafts = conflict.hunks.map(() => undefined);
+  }
+
+  /**
+   * Shows the view until the user writes (resolves with the decisions) or quits
+   * (resolves with undefined)
+   */
+  async run(): Promise<MergeViewResult | undefined> {
+    if (!Terminal.isInteractive()) {
+      throw new Error('The merge view needs an interactive terminal');
+    }
+    if (this.conflict.hunks.length === 0) {
+      throw new Error(`${this.conflict.file} has no conflict blocks to show`);
+    }
+
+    // However the view ends, a render that throws included, the terminal leaves raw mode
+    try {
+      return await new Promise<MergeViewResult | undefined>((resolve, reject) => {
+        this.finish = resolve;
+        this.fail = reject;
+
+        this.terminal.enter(
+          (key, text) => {
+            this.handleKey(key, text).catch(error => {
+              this.status = chalk.red(error instanceof Error ? error.message : String(error));
+              this.redraw();
+            });
+          },
+          () => this.redraw()
+        );
+        this.render();
+      });
+    } finally {
+      this.finish = undefined;
+      this.fail = undefined;
+      this.terminal.leave();
+    }
+  }
+
+  private get hunk(): ConflictHunk {
+    return this.conflict.hunks[this.index];
+  }
+
+  private async handleKey(key: Keypress, text?: string): Promise<void> {
+    if (this.busy) {
+      return;
+    }
+
+    if (this.mode === 'edit') {
+      this.handleEditKey(key, text);
+    } else {
+      await this.handleViewKey(key, text);
+    }
+
+    if (this.finish && this.terminal) {
+      this.render();
+    }
+  }
+
+  private async handleViewKey(key: Keypress, text?: string): Promise<void> {
+    const name = key.name ?? text;
+    const quitting = this.confirmQuit;
+    this.confirmQuit = false;
+    this.status = '';
+
+    if ((key.ctrl && name === 'c') || name === 'q' || name === 'escape') {
+      const decided = this.decisions.filter(decision => decision !== undefined).length;
+      if (decided > 0 && !quitting) {
+        this.confirmQuit = true;
+        this.status = chalk.yellow(`Press q again to discard ${decided} decision(s) without writing`);
+        return;
+      }
+      this.close(undefined);
+      return;
+    }
+
+    switch (key.shift && name === 'tab' ? 'shift-tab' : text === 'B' ? 'B' : name) {
+      case 'w':
+        this.close({ decisions: this.decisions, strategies: this.strategies });
+        return;
+      case 'n':
+      case 'tab':
+      case ']':
+        this.moveTo(this.index + 1);
+        return;
+      case 'p':
+      case 'shift-tab':
+      case '[':
+        this.moveTo(this.index - 1);
+        return;
+      case 'up':
+      case 'k':
+        this.scroll = Math.max(0, this.scroll - 1);
+        return;
+      case 'down':
+      case 'j':
+        this.scroll++;
+        return;
+      case 'pageup':
+        this.scroll = Math.max(0, this.scroll - this.paneRows());
+        return;
+      case 'pagedown':
+        this.scroll += this.paneRows();
+        return;
+      case 'left':
+      case 'h':
+        this.offset = Math.max(0, this.offset - HORIZONTAL_STEP);
+        return;
+      case 'right':
+      case 'l':
+        this.offset += HORIZONTAL_STEP;
+        return;
+      case 'c':
+        this.decide(this.hunk.currentContent, 'manual:current');
+        return;
+      case 'i':
+        this.decide(this.hunk.incomingContent, 'manual:incoming');
+        return;
+      case 'b':
+        this.decide(joinBlocks(this.hunk.currentContent, this.hunk.incomingContent), 'manual:both-current');
+        return;
+      case 'B':
+        this.decide(joinBlocks(this.hunk.incomingContent, this.hunk.currentContent), 'manual:both-incoming');
+        return;
+      case 'o':
+        if (this.hunk.hasBase) {
+          this.decide(this.hunk.baseContent, 'manual:base');
+        } else {
+          this.status = chalk.yellow('This block has no base version');
+        }
+        return;
+      case 'x':
+        this.decisions[this.index] = undefined;
+        this.strategies[this.index] = undefined;
+        this.drafts[this.index] = undefined;
+        return;
+      case 'a':
+        await this.askPlugins();
+        return;
+      case 'e':
+      case 'return':
+        this.startEditing();
+        return;
+    }
+  }
+
+  private handleEditKey(key: Keypress, text?: string): void {
+    const lines = this.drafts[this.index] as string[];
+    const { line, column } = this.cursor;
+    const current = lines[line];
+
+    if (key.ctrl && key.name === 'c') {
+      this.drafts[this.index] = undefined;
+      this.mode = 'view';
+      this.status = 'Edit discarded';
+      return;
+    }
+
+    switch (key.ctrl && key.name === 'a' ? 'home' : key.ctrl && key.name === 'e' ? 'end' : key.name) {
+      case 'escape':
+        this.stopEditing();
+        return;
+      case 'left':
+        this.cursor = column > 0 ? { line, column: column - 1 } : line > 0 ? { line: line - 1, column: lines[line - 1].length } : this.cursor;
+        return;
+      case 'right':
+        this.cursor = column < current.length ? { line, column: column + 1 } : line < lines.length - 1 ? { line: line + 1, column: 0 } : this.cursor;
+        return;
+      case 'up':
+        this.cursor = line > 0 ? { line: line - 1, column: Math.min(column, lines[line - 1].length) } : this.cursor;
+        return;
+      case 'down':
+        this.cursor = line < lines.length - 1 ? { line: line + 1, column: Math.min(column, lines[line + 1].length) } : this.cursor;
+        return;
+      case 'home':
+        this.cursor = { line, column: 0 };
+        return;
+      case 'end':
+        this.cursor = { line, column: current.length };
+        return;
+      case 'return':
+      case 'enter':
+        lines.splice(line, 1, current.slice(0, column), current.slice(column));
+        this.cursor = { line: line + 1, column: 0 };
+        return;
+      case 'backspace':
+        if (column > 0) {
+          lines[line] = current.slice(0, column - 1) + current.slice(column);
+          this.cursor = { line, column: column - 1 };
+        } else if (line > 0) {
+          const previous = lines[line - 1];
+          lines.splice(line - 1, 2, previous + current);
+          this.cursor = { line: line - 1, column: previous.length };
+        }
+        return;
+      case 'delete':
+        if (column < current.length) {
+          lines[line] = current.slice(0, column) + current.slice(column + 1);
+        } else if (line < lines.length - 1) {
+          lines.splice(line, 2, current + lines[line + 1]);
+        }
+        return;
+      case 'tab':
+        this.insert('\t');
+        return;
+    }
+
+    if (text && !key.ctrl && !key.meta && text.length === 1 && text >= ' ') {
+      this.insert(text);
+    }
+  }
+
+  private insert(text: string): void {
+    const lines = this.drafts[this.index] as string[];
+    const { line, column } = this.cursor;
+    lines[line] = lines[line].slice(0, column) + text + lines[line].slice(column);
+    this.cursor = { line, column: column + text.length };
+  }
+
+  private startEditing(): void {
+    const start = this.decisions[this.index] ?? renderConflictBlock(this.hunk).join('\n');
+    this.drafts[this.index] ??= start.split('\n');
+    this.cursor = { line: 0, column: 0 };
+    this.resultScroll = 0;
+    this.mode = 'edit';
+  }
+
+  private stopEditing(): void {
+    const text = (this.drafts[this.index] as string[]).join('\n');
+    this.mode = 'view';
+
+    if (hasConflictMarkers(text)) {
+      this.status = chalk.yellow('Conflict markers remain, so the block stays undecided');
+      return;
+    }
+
+    this.decide(text, 'manual:edit');
+  }
+
+  private async askPlugins(): Promise<void> {
+    if (!this.options.suggest) {
+      this.status = chalk.yellow('No plugins available here');
+      return;
+    }
+
+    this.busy = true;
+    this.status = 'Asking the plugins...';
+    this.render();
+
+    try {
+      const suggestion = await this.options.suggest(this.index);
+      if (suggestion) {
+        this.decide(suggestion.content, suggestion.plugin);
+        this.status = `${suggestion.plugin}: ${suggestion.notes.join('; ') || 'resolved the block'}`;
+      } else {
+        this.status = chalk.yellow('No plugin could resolve this block');
+      }
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private decide(content: string, strategy: string): void {
+    const decided = this.index;
+    this.decisions[decided] = content;
+    this.strategies[decided] = strategy;
+    this.drafts[decided] = undefined;
+
+    const next = this.decisions.findIndex((decision, position) => decision === undefined && position > decided);
+    const firstOpen = this.decisions.findIndex(decision => decision === undefined);
+
+    if (firstOpen === -1) {
+      this.status = chalk.green('Every block is decided. Press w to write the file.');
+      return;
+    }
+
+    this.moveTo(next === -1 ? firstOpen : next);
+    this.status = `Block ${decided + 1}: ${strategy}`;
+  }
+
+  private moveTo(index: number): void {
+    if (index < 0 || index >= this.conflict.hunks.length) {
+      return;
+    }
+
+    this.index = index;
+    this.scroll = 0;
+    this.offset = 0;
+    this.resultScroll = 0;
+  }
+
+  private close(result: MergeViewResult | undefined): void {
+    const finish = this.finish;
+    this.finish = undefined;
+    finish?.(result);
+  }
+
+  private getPanes(): Pane[] {
+    const cached = this.panes.get(this.index);
+    if (cached) {
+      return cached;
+    }
+
+    // Sides are highlighted against the base when there is one, else against each other
+    const hunk = this.hunk;
+    const reference = hunk.hasBase ? hunk.baseContent : undefined;
+    const panes: Pane[] = [
+      {
+        title: `Current (${this.options.sides?.current ?? 'HEAD'})`,
+        lines: diffWords(hunk.currentContent, reference ?? hunk.incomingContent),
+        style: { text: chalk.red, changed: text => chalk.bgRed.white(text) },
+      },
+      ...(hunk.hasBase
+        ? [{ title: 'Base', lines: hunk.baseContent.split('\n').map(line => [{ text: line, changed: false }]), style: { text: chalk.dim, changed: chalk.dim } }]
+        : []),
+      {
+        title: `Incoming (${this.options.sides?.incoming ?? 'merge branch'})`,
+        lines: diffWords(hunk.incomingContent, reference ?? hunk.currentContent),
+        style: { text: chalk.green, changed: text => chalk.bgGreen.black(text) },
+      },
+    ];
+
+    this.panes.set(this.index, panes);
+    return panes;
+  }
+
+  private layout() {
+    const { width, height } = this.terminal;
+    const body = Math.max(6, height - 3);
+    const resultHeight = Math.max(3, Math.floor(body * 0.4));
+    return { width, height, paneHeight: body - resultHeight, resultHeight };
+  }
+
+  private paneRows(): number {
+    return Math.max(1, this.layout().paneHeight - 1);
+  }
+
+  /**
+   * Renders from an event handler, where an exception would otherwise escape
+   * run() and leave the terminal raw; instead it ends the view with the error
+   */
+  private redraw(): void {
+    try {
+      this.render();
+    } catch (error) {
+      this.fail?.(error);
+    }
+  }
+
+  private render(): void {
+    if (!this.finish) {
+      return;
+    }
+
+    const { width, paneHeight, resultHeight } = this.layout();
+    const hunk = this.hunk;
+    const total = this.conflict.hunks.length;
+    const decided = this.decisions.filter(decision => decision !== undefined).length;
+    const output: string[] = [];
+
+    output.push(
+      chalk.inverse(
+        fitText(
+          ` ${this.conflict.file}  •  block ${this.index + 1}/${total}  •  lines ${hunk.startLine}-${hunk.endLine}  •  ${decided}/${total} decided`,
+          width
+        )
+      )
+    );
+
+    // Side panes
+    const panes = this.getPanes().filter(pane => pane.title !== 'Base' || width >= MIN_WIDTH_FOR_BASE);
+    const paneWidth = Math.floor((width - (panes.length - 1)) / panes.length);
+    const widths = panes.map((_, position) =>
+      position === panes.length - 1 ? width - (panes.length - 1) * (paneWidth + 1) : paneWidth
+    );
+    const rows = paneHeight - 1;
+    const longest = Math.max(...panes.map(pane => pane.lines.length));
+    this.scroll = Math.min(this.scroll, Math.max(0, longest - rows));
+
+    output.push(panes.map((pane, position) => chalk.bold(fitText(` ${pane.title}`, widths[position]))).join(chalk.dim('│')));
+    for (let row = 0; row < rows; row++) {
+      output.push(
+        panes
+          .map((pane, position) => {
+            const line = pane.lines[this.scroll + row];
+            return line ? renderCells(layoutSegments(line), widths[position], this.offset, pane.style) : ' '.repeat(widths[position]);
+          })
+          .join(chalk.dim('│'))
+      );
+    }
+
+    // Result pane
+    const editing = this.mode === 'edit';
+    const draft = this.drafts[this.index];
+    const decision = this.decisions[this.index];
+    const resultLines = draft ?? decision?.split('\n') ?? renderConflictBlock(hunk);
+    const resultStyle: LineStyle =
+      draft || decision !== undefined ? plainStyle : { text: chalk.yellow, changed: chalk.yellow };
+    const resultRows = resultHeight - 1;
+    const state = editing ? 'editing' : decision !== undefined ? this.strategies[this.index] : draft ? 'draft' : 'undecided';
+
+    if (editing) {
+      if (this.cursor.line < this.resultScroll) {
+        this.resultScroll = this.cursor.line;
+      } else if (this.cursor.line >= this.resultScroll + resultRows) {
+        this.resultScroll = this.cursor.line - resultRows + 1;
+      }
+    }
+
+    output.push(chalk.bold.cyan(fitText(`─ Result (${state}) `.padEnd(width, '─'), width)));
+    for (let row = 0; row < resultRows; row++) {
+      const lineIndex = this.resultScroll + row;
+      const line = resultLines[lineIndex];
+      if (line === undefined) {
+        output.push(' '.repeat(width));
+        continue;
+      }
+
+      const cells = layoutSegments([{ text: line, changed: false }]);
+      const cursorColumn = editing && lineIndex === this.cursor.line ? columnOf(cells, this.cursor.column) : undefined;
+      const offset = cursorColumn !== undefined && cursorColumn >= width ? cursorColumn - width + 1 : 0;
+      output.push(renderCells(cells, width, offset, resultStyle, cursorColumn));
+    }
+
+    output.push(fitText(this.status || hunk.explanation || '', width));
+    output.push(chalk.dim(fitText(editing ? EDIT_HELP : VIEW_HELP, width)));
+
+    this.terminal.draw(output);
+  }
+}
+
+function joinBlocks(first: string, second: string): string {
+  return [first, second].filter(block => block !== '').join('\n');
+}
@@ -0,0 +1,63 @@
+import * as readline from 'readline';
+
+export interface Keypress {
+  name?: string;
+  sequence?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+  meta?: boolean;
+}
+
+/**
+ * Full-screen drawing on the alternate screen buffer with raw key input
+ */
+export class Terminal {
+  private input = process.stdin;
+  private output = process.stdout;
+  private keyListener?: (text: string | undefined, key: Keypress | undefined) => void;
+  private resizeListener?: () => void;
+
+  get width(): number {
+    return this.output.columns || 80;
+  }
+
+  get height(): number {
+    return this.output.rows || 24;
+  }
+
+  static isInteractive(): boolean {
+    return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  }
+
+  enter(onKey: (key: Keypress, text?: string) => void, onResize: () => void): void {
+    readline.emitKeypressEvents(this.input);
+    this.input.setRawMode?.(true);
+    this.input.resume();
+
+    this.keyListener = (text, key) => onKey(key ?? { sequence: text }, text);
+    this.resizeListener = onResize;
+    this.input.on('keypress', this.keyListener);
+    this.output.on('resize', this.resizeListener);
+
+    // Alternate screen, hidden cursor
+    this.output.write('\x1b[?1049h\x1b[?25l');
+  }
+
+  leave(): void {
+    if (this.keyListener) {
+      this.input.off('keypress', this.keyListener);
+    }
+    if (this.resizeListener) {
+      this.output.off('resize', this.resizeListener);
+    }
+
+    this.input.setRawMode?.(false);
+    this.input.pause();
+    this.output.write('\x1b[?25h\x1b[?1049l');
+  }
+
+  draw(lines: string[]): void {
+    const frame = lines.slice(0, this.height).map(line => `${line}\x1b[K`);
+    this.output.write(`\x1b[H${frame.join('\r\n')}\x1b[J`);
+  }
+}
@@ -0,0 +1,90 @@
+export interface DiffSegment {
+  text: string;
+  /** Not present in the text it was compared with */
+  changed: boolean;
+}
+
+// Words, runs of spaces, single punctuation characters and newlines
+const TOKEN_PATTERN = /\n|[^\S\n]+|[\w$]+|[^\s\w$]/g;
+
+// Above this many LCS cells, fall back to comparing whole lines
+const MAX_DIFF_CELLS = 2_000_000;
+
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Marks the words of `text` that are missing from `other` and returns the
+ * result split into lines, one segment list per line
+ */
+export function diffWords(text: string, other: string): DiffSegment[][] {
+  const tokens = tokenize(text);
+  const otherTokens = tokenize(other);
+
+  if (tokens.length * otherTokens.length > MAX_DIFF_CELLS) {
+    return diffLines(text, other);
+  }
+
+  const kept = longestCommonSubsequence(tokens, otherTokens);
+  const lines: DiffSegment[][] = [[]];
+
+  tokens.forEach((token, index) => {
+    if (token === '\n') {
+      lines.push([]);
+      return;
+    }
+
+    const line = lines[lines.length - 1];
+    const changed = !kept[index];
+    const last = line[line.length - 1];
+
+    if (last && last.changed === changed) {
+      last.text += token;
+    } else {
+      line.push({ text: token, changed });
+    }
+  });
+
+  return lines;
+}
+
+function diffLines(text: string, other: string): DiffSegment[][] {
+  const otherLines = new Set(other.split('\n'));
+  return text.split('\n').map(line => [{ text: line, changed: !otherLines.has(line) }]);
+}
+
+/**
+ * Flags which tokens of `a` belong to a longest common subsequence with `b`
+ */
+function longestCommonSubsequence(a: string[], b: string[]): boolean[] {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const kept = new Array<boolean>(a.length).fill(false);
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      kept[i] = true;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return kept;
+}
@@ -8,19 +8,60 @@ export interface GitConflict {
   complexity: ConflictComplexity;
   explanation?: string;
   autoResolvable: boolean;
+  versions?: ConflictVersions;
+  paths?: ConflictPaths;
+  binary?: {
+    current?: BinaryFileInfo;
+    incoming?: BinaryFileInfo;
+  };
+}
+
+/**
+ * Metadata shown when picking a side of a binary conflict
+ */
+export interface BinaryFileInfo {
+  size: number;
+  dimensions?: { width: number; height: number };
+  lastAuthor?: string;
+  lastCommit?: string;
+  lastChanged?: string;
+}
+
+/**
+ * Whole-file contents of each side, read from index stages 1 (base), 2 (current) and 3 (incoming)
+ */
+export interface ConflictVersions {
+  base?: string;
+  current?: string;
+  incoming?: string;
+}
+
+/**
+ * Path of a conflicted file on each side, when renames make them differ
+ */
+export interface ConflictPaths {
+  base?: string;
+  current?: string;
+  incoming?: string;
 }
 
 export interface ConflictHunk {
   startLine: number;
   endLine: number;
   baseContent: string;
+  hasBase?: boolean;
   currentContent: string;
   incomingContent: string;
   conflictMarkers: {
     start: string;
+    base?: string;
     separator: string;
     end: string;
   };
+  /** Classification of this block alone; a file can mix import, whitespace and content blocks */
+  type?: ConflictType;
+  complexity?: ConflictComplexity;
+  explanation?: string;
 }
 
 export enum ConflictType {
@@ -29,6 +70,13 @@ export enum ConflictType {
   IMPORT = 'import',
   STRUCTURAL = 'structural',
   SEMANTIC = 'semantic',
+  DELETED_BY_US = 'deleted-by-us',
+  DELETED_BY_THEM = 'deleted-by-them',
+  RENAME_RENAME = 'rename-rename',
+  RENAME_DELETE = 'rename-delete',
+  ADD_ADD = 'add-add',
+  BINARY = 'binary',
+  LOCKFILE = 'lockfile',
 }
 
 export enum ConflictComplexity {
@@ -53,6 +101,26 @@ export interface GitRepository {
   branch: string;
   remotes: GitRemote[];
   status: GitStatus;
+  /** Merge, rebase etc. stopped part-way, usually on conflicts */
+  operation?: GitOperation;
+}
+
+export type GitOperationType = 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+
+export interface GitOperation {
+  type: GitOperationType;
+  /** Branch or commit on the HEAD side, which git calls "ours". During a rebase this is the upstream. */
+  current: string;
+  /** Branch or commit being brought in, which git calls "theirs". During a rebase this is your commit. */
+  incoming: string;
+  /** Subject of the commit being replayed, picked or reverted */
+  subject?: string;
+  /** Branch being rebased */
+  branch?: string;
+  /** Which commit of the rebase stopped */
+  progress?: { step: number; total: number };
+  /** A `git merge --squash`, which ends in an ordinary commit instead of a merge commit */
+  squash?: boolean;
 }
 
 export interface GitRemote {
@@ -84,21 +152,85 @@ export interface GitCommit {
   files: string[];
   insertions: number;
   deletions: number;
+  /** Line counts for each file, in the order git lists them */
+  fileStats?: GitFileStat[];
+}
+
+export interface GitFileStat {
+  path: string;
+  /** Path before a rename or copy */
+  oldPath?: string;
+  insertions: number;
+  deletions: number;
+  /** Binary files have no line counts; both are 0 */
+  binary: boolean;
 }
 
 export interface RebasePlan {
   operations: RebaseOperation[];
+  /** Commits expected to stop with conflicts, from the forecast when there is one */
   estimatedConflicts: number;
   riskLevel: 'low' | 'medium' | 'high';
+  /** Outcome of replaying each kept commit onto the upstream in memory */
+  forecast?: RebaseStepForecast[];
 }
 
 export interface RebaseOperation {
   action: 'pick' | 'squash' | 'fixup' | 'edit' | 'reword' | 'drop';
   commit: string;
   message?: string;
+  /** Why the planner proposed this action */
+  reason?: string;
+  /** Files this commit changes that the upstream also changed since the merge base */
+  overlappingFiles?: string[];
+}
+
+export type ReflogAction =
+  | 'commit'
+  | 'amend'
+  | 'merge'
+  | 'pull'
+  | 'rebase'
+  | 'reset'
+  | 'checkout'
+  | 'cherry-pick'
+  | 'revert'
+  | 'branch'
+  | 'undo'
+  | 'other';
+
+export interface ReflogEntry {
+  /** e.g. HEAD@{2}, usable wherever git takes a revision */
+  selector: string;
+  /** Where HEAD pointed after this entry */
+  commit: string;
+  /** git's own reflog message, e.g. "rebase (finish): returning to refs/heads/feature" */
+  message: string;
+  /** ISO 8601 time of the entry */
+  date: string;
+  action: ReflogAction;
+  /** e.g. "Rebased feature onto main (3 commits)" */
+  explanation: string;
+}
+
+export interface RebaseStepForecast {
+  commit: string;
+  message?: string;
+  /** Files the rebase would stop on when replaying this commit */
+  conflictedFiles: string[];
+  /** The conflicted files the resolution plugins would resolve without help */
+  autoResolvableFiles: string[];
 }
 
 // API schemas using Zod
+const BinaryFileInfoSchema = z.object({
+  size: z.number(),
+  dimensions: z.object({ width: z.number(), height: z.number() }).optional(),
+  lastAuthor: z.string().optional(),
+  lastCommit: z.string().optional(),
+  lastChanged: z.string().optional(),
+});
+
 export const GitConflictSchema = z.object({
   file: z.string(),
   type: z.nativeEnum(ConflictType),
@@ -106,17 +238,36 @@ export const GitConflictSchema = z.object({
     startLine: z.number(),
     endLine: z.number(),
     baseContent: z.string(),
+    hasBase: z.boolean().optional(),
     currentContent: z.string(),
     incomingContent: z.string(),
     conflictMarkers: z.object({
       start: z.string(),
+      base: z.string().optional(),
       separator: z.string(),
       end: z.string(),
     }),
+    type: z.nativeEnum(ConflictType).optional(),
+    complexity: z.nativeEnum(ConflictComplexity).optional(),
+    explanation: z.string().optional(),
   })),
   complexity: z.nativeEnum(ConflictComplexity),
   explanation: z.string().optional(),
   autoResolvable: z.boolean(),
+  versions: z.object({
+    base: z.string().optional(),
+    current: z.string().optional(),
+    incoming: z.string().optional(),
+  }).optional(),
+  paths: z.object({
+    base: z.string().optional(),
+    current: z.string().optional(),
+    incoming: z.string().optional(),
+  }).optional(),
+  binary: z.object({
+    current: BinaryFileInfoSchema.optional(),
+    incoming: BinaryFileInfoSchema.optional(),
+  }).optional(),
 });
 
 export const CommitSuggestionSchema = z.object({
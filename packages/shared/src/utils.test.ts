@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConflictComplexity, ConflictType } from './types';
+import { explainReflogEntry, isAutoResolvable } from './utils';
+
+describe('isAutoResolvable', () => {
+  it('counts simple import and whitespace conflicts', () => {
+    expect(isAutoResolvable(ConflictType.IMPORT, ConflictComplexity.SIMPLE)).toBe(true);
+    expect(isAutoResolvable(ConflictType.WHITESPACE, ConflictComplexity.TRIVIAL)).toBe(true);
+    expect(isAutoResolvable(ConflictType.CONTENT, ConflictComplexity.TRIVIAL)).toBe(false);
+    expect(isAutoResolvable(ConflictType.IMPORT, ConflictComplexity.COMPLEX)).toBe(false);
+  });
+
+  it('leaves lockfiles and binary files out, since neither is merged', () => {
+    expect(isAutoResolvable(ConflictType.LOCKFILE, ConflictComplexity.SIMPLE)).toBe(false);
+    expect(isAutoResolvable(ConflictType.BINARY, ConflictComplexity.TRIVIAL)).toBe(false);
+  });
+});
+
+describe('explainReflogEntry', () => {
+  const explain = (message: string, details?: { onto?: string; commits?: number }) =>
+    explainReflogEntry(message, details).explanation;
+
+  it('explains a folded rebase by how it ended', () => {
+    expect(explain('rebase (finish): returning to refs/heads/feature', { onto: 'main', commits: 2 })).toBe(
+      'Rebased feature onto main (2 commits)'
+    );
+    expect(explain('rebase -i (finish): returning to refs/heads/feature', { onto: 'main', commits: 1 })).toBe(
+      'Rebased feature onto main (1 commit)'
+    );
+    expect(explain('rebase (abort): returning to refs/heads/feature', { onto: 'main' })).toBe(
+      'Abandoned a rebase of feature onto main'
+    );
+    expect(explain('rebase (start): checkout main', { onto: 'main' })).toBe(
+      'Started rebasing onto main; the rebase is still in progress'
+    );
+    expect(explain('rebase (pick): Add parser')).toBe('Replayed "Add parser" during a rebase');
+    expect(explainReflogEntry('pull --rebase (finish): returning to refs/heads/main').action).toBe('rebase');
+  });
+
+  it('tells a reset that dropped commits from one that only cleared changes', () => {
+    expect(explainReflogEntry('reset: moving to HEAD~2')).toEqual({
+      action: 'reset',
+      explanation: 'Reset to HEAD~2, leaving later commits behind',
+    });
+    expect(explain('reset: moving to HEAD')).toBe('Cleared uncommitted changes, by stashing or resetting them');
+  });
+
+  it('explains checkouts and merges', () => {
+    expect(explainReflogEntry('checkout: moving from main to feature')).toEqual({
+      action: 'checkout',
+      explanation: 'Switched from main to feature',
+    });
+    expect(explain('merge feature: Fast-forward')).toBe('Fast-forwarded to feature');
+    expect(explain("merge feature: Merge made by the 'ort' strategy.")).toBe('Merged feature');
+    expect(explain("commit (merge): Merge branch 'feature'")).toBe(
+      'Committed the merge "Merge branch \'feature\'" after resolving conflicts'
+    );
+  });
+
+  it('explains commits and falls back to the git command', () => {
+    expect(explain('commit (amend): Fix the parser')).toBe('Amended the last commit, now "Fix the parser"');
+    expect(explain('smugit undo: updating HEAD')).toBe('Went back to an earlier state with smugit undo');
+    expect(explainReflogEntry('stash: WIP on main')).toEqual({ action: 'other', explanation: 'Ran git stash: WIP on main' });
+  });
+});
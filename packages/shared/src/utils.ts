@@ -1,4 +1,4 @@
-import { ConflictComplexity, ConflictType } from './types';
+import { ConflictComplexity, ConflictPaths, ConflictType, ReflogAction } from './types';
 
 /**
  * Determines if a conflict is auto-resolvable based on type and complexity
@@ -9,6 +9,12 @@ const TRIVIAL_AUTO_TYPES = new Set<ConflictType>([
 ]);
 
 export function isAutoResolvable(type: ConflictType, complexity: ConflictComplexity): boolean {
+  // Lockfiles are regenerated rather than merged, which needs the package manager
+  // to succeed; when it cannot, they are left for an install by hand
+  if (type === ConflictType.LOCKFILE) {
+    return false;
+  }
+
   if (complexity === ConflictComplexity.TRIVIAL) {
     return TRIVIAL_AUTO_TYPES.has(type);
   }
@@ -22,6 +28,20 @@ export function isAutoResolvable(type: ConflictType, complexity: ConflictComplex
   return false;
 }
 
+const TREE_CONFLICT_TYPES = new Set<ConflictType>([
+  ConflictType.DELETED_BY_US,
+  ConflictType.DELETED_BY_THEM,
+  ConflictType.RENAME_RENAME,
+  ConflictType.RENAME_DELETE,
+]);
+
+/**
+ * Determines if a conflict is about a file's existence or path rather than its lines
+ */
+export function isTreeConflict(type: ConflictType): boolean {
+  return TREE_CONFLICT_TYPES.has(type);
+}
+
 /**
  * Generates a conflict explanation based on type and content
  */
@@ -29,9 +49,35 @@ export function generateConflictExplanation(
   type: ConflictType,
   file: string,
   _currentContent: string,
-  _incomingContent: string
+  _incomingContent: string,
+  paths: ConflictPaths = {}
 ): string {
   switch (type) {
+    case ConflictType.DELETED_BY_US:
+      return paths.current && paths.current !== file
+        ? `${file} was modified on the incoming branch but moved to ${paths.current} on the current branch. The incoming edits can be applied to the renamed file.`
+        : `${file} was deleted on the current branch but modified on the incoming branch. Keep the incoming version or confirm the deletion.`;
+
+    case ConflictType.DELETED_BY_THEM:
+      return paths.incoming && paths.incoming !== file
+        ? `${file} was modified on the current branch but moved to ${paths.incoming} on the incoming branch. Your edits can be applied to the renamed file.`
+        : `${file} was modified on the current branch but deleted on the incoming branch. Keep your version or confirm the deletion.`;
+
+    case ConflictType.RENAME_RENAME:
+      return `${file} was renamed to ${paths.current ?? 'a new path'} on the current branch and to ${paths.incoming ?? 'a different path'} on the incoming branch. Pick the name to keep.`;
+
+    case ConflictType.RENAME_DELETE:
+      return `${paths.base ?? 'A file'} was renamed to ${file} on one branch and deleted on the other. Keep the renamed file or delete it.`;
+
+    case ConflictType.BINARY:
+      return `Binary file ${file} changed on both branches. Git cannot merge it line by line, so pick one side.`;
+
+    case ConflictType.LOCKFILE:
+      return `Generated lockfile ${file} changed on both branches. Regenerating it from the merged manifest is safer than merging by hand.`;
+
+    case ConflictType.ADD_ADD:
+      return `${file} was added on both branches with different content. Combine the two versions or keep one.`;
+
     case ConflictType.WHITESPACE:
       return `Whitespace differences in ${file}. Usually safe to auto-resolve.`;
 
@@ -50,6 +96,84 @@ export function generateConflictExplanation(
   }
 }
 
+/**
+ * Explains a reflog message in plain English. A rebase leaves one entry per
+ * replayed commit, so callers fold them into the final entry and pass where it
+ * started from and how many commits it replayed.
+ */
+export function explainReflogEntry(
+  message: string,
+  details: { onto?: string; commits?: number } = {}
+): { action: ReflogAction; explanation: string } {
+  const [, command = message, detail = ''] = /^([^:]+): (.*)$/s.exec(message) ?? [];
+  const subject = detail.split('\n')[0];
+
+  const rebase = /^(?:rebase(?: -i)?|pull --rebase) \((\w+)\)$/.exec(command);
+  if (rebase) {
+    const branch = /refs\/heads\/(\S+)/.exec(detail)?.[1] ?? 'a detached HEAD';
+    const onto = details.onto ? ` onto ${details.onto}` : '';
+    const commits = details.commits !== undefined ? ` (${details.commits} commit${details.commits === 1 ? '' : 's'})` : '';
+
+    switch (rebase[1]) {
+      case 'finish':
+        return { action: 'rebase', explanation: `Rebased ${branch}${onto}${commits}` };
+      case 'abort':
+        return { action: 'rebase', explanation: `Abandoned a rebase of ${branch}${onto}` };
+      case 'start':
+        return { action: 'rebase', explanation: `Started rebasing${onto}; the rebase is still in progress` };
+      default:
+        return { action: 'rebase', explanation: `Replayed "${subject}" during a rebase${onto}` };
+    }
+  }
+
+  switch (command) {
+    case 'commit (initial)':
+      return { action: 'commit', explanation: `Made the first commit, "${subject}"` };
+    case 'commit':
+      return { action: 'commit', explanation: `Committed "${subject}"` };
+    case 'commit (amend)':
+      return { action: 'amend', explanation: `Amended the last commit, now "${subject}"` };
+    case 'commit (merge)':
+      return { action: 'merge', explanation: `Committed the merge "${subject}" after resolving conflicts` };
+    case 'reset':
+      // `git stash` resets to HEAD too, so nothing but uncommitted changes moved
+      return detail === 'moving to HEAD'
+        ? { action: 'reset', explanation: 'Cleared uncommitted changes, by stashing or resetting them' }
+        : { action: 'reset', explanation: `Reset to ${detail.replace(/^moving to /, '')}, leaving later commits behind` };
+    case 'smugit undo':
+      return { action: 'undo', explanation: 'Went back to an earlier state with smugit undo' };
+    case 'cherry-pick':
+      return { action: 'cherry-pick', explanation: `Cherry-picked "${subject}"` };
+    case 'revert':
+      return { action: 'revert', explanation: `Reverted a commit with "${subject}"` };
+  }
+
+  const checkout = /^moving from (\S+) to (\S+)$/.exec(detail);
+  if (command === 'checkout' && checkout) {
+    return { action: 'checkout', explanation: `Switched from ${checkout[1]} to ${checkout[2]}` };
+  }
+
+  if (command.startsWith('merge ')) {
+    const branch = command.slice('merge '.length);
+    return detail.startsWith('Fast-forward')
+      ? { action: 'merge', explanation: `Fast-forwarded to ${branch}` }
+      : { action: 'merge', explanation: `Merged ${branch}` };
+  }
+
+  if (command.startsWith('pull')) {
+    return {
+      action: 'pull',
+      explanation: detail.startsWith('Fast-forward') ? 'Pulled and fast-forwarded' : 'Pulled and merged the remote changes',
+    };
+  }
+
+  if (command === 'branch') {
+    return { action: 'branch', explanation: `Created the branch (${detail.charAt(0).toLowerCase()}${detail.slice(1)})` };
+  }
+
+  return { action: 'other', explanation: `Ran git ${command}${detail ? `: ${subject}` : ''}` };
+}
+
 /**
  * Analyzes conflict complexity based on content length and patterns
  */